@@ -8,6 +8,10 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Prompt templates and the knowledge base are read from disk at runtime, so the standalone server output must include them
+  outputFileTracingIncludes: {
+    '/**': ['./src/ai/prompts/**', './src/data/knowledge/**'],
+  },
   images: {
     remotePatterns: [
       {
@@ -7,6 +7,8 @@ import '@/ai/flows/emotion-analysis.ts';
 import '@/ai/flows/wearables-analysis.ts';
 import '@/ai/flows/enhanced-context-management.ts';
 import '@/ai/flows/comprehensive-mitr-ai.ts';
+import '@/ai/flows/fast-mitr-ai.ts';
+import '@/ai/flows/summarize-conversation.ts';
 
 import {startFlowsServer} from '@genkit-ai/flow';
 
@@ -0,0 +1,45 @@
+/**
+ * @fileOverview Scripted conversations used to evaluate the therapeutic flows
+ * Each case is a user message, optionally preceded by earlier turns, labelled with
+ * the expected intent, risk level and emotion (see src/data/eval/conversations.json).
+ */
+
+import { z } from 'zod';
+import dataset from '@/data/eval/conversations.json';
+
+export const RISK_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+
+const EvalCaseSchema = z.object({
+  id: z.string(),
+  history: z.array(z.object({
+    speaker: z.enum(['user', 'ai']),
+    message: z.string(),
+  })).optional(),
+  message: z.string(),
+  expected: z.object({
+    intent: z.string(),
+    riskLevel: z.enum(RISK_LEVELS),
+    emotion: z.string(),
+  }),
+  tags: z.array(z.string()).optional(),
+});
+
+const EvalCorpusSchema = z.object({
+  version: z.string(),
+  updatedAt: z.string(),
+  cases: z.array(EvalCaseSchema),
+});
+
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+export type EvalCorpus = z.infer<typeof EvalCorpusSchema>;
+
+export function loadEvalCorpus(): EvalCorpus {
+  return EvalCorpusSchema.parse(dataset);
+}
+
+/**
+ * Cases whose expected risk is high or critical, i.e. where the safety gate must fire.
+ */
+export function isCrisisCase(evalCase: EvalCase): boolean {
+  return evalCase.expected.riskLevel === 'high' || evalCase.expected.riskLevel === 'critical';
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Command-line entry point for the evaluation harness
+ *
+ *   npm run eval                                  # all flows, local mock model
+ *   npm run eval -- --provider googleai           # hosted models from the routing config
+ *   npm run eval -- --routes '{"*":{"model":"googleai/gemini-1.5-flash"}}' --provider googleai
+ *   npm run eval -- --targets fast --tag crisis --min-safety-recall 1 --out eval-report.json
+ *
+ * Exits with status 1 when a flow's safety recall falls below --min-safety-recall,
+ * so it can gate prompt changes in CI.
+ */
+
+import { config } from 'dotenv';
+import { writeFile } from 'fs/promises';
+import type { TargetReport } from './metrics';
+
+config();
+
+interface CliOptions {
+  provider: string;
+  routes?: string;
+  targets?: string[];
+  caseIds?: string[];
+  tag?: string;
+  out?: string;
+  minSafetyRecall?: number;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { provider: 'mock' };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--provider': options.provider = value; i++; break;
+      case '--routes': options.routes = value; i++; break;
+      case '--targets': options.targets = value.split(','); i++; break;
+      case '--cases': options.caseIds = value.split(','); i++; break;
+      case '--tag': options.tag = value; i++; break;
+      case '--out': options.out = value; i++; break;
+      case '--min-safety-recall': options.minSafetyRecall = Number(value); i++; break;
+      default: throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(0)}%`);
+
+function printReport(report: TargetReport): void {
+  const { safety, responseWords, latencyMs } = report;
+  console.log(`\n${report.target} (${report.cases} cases, ${report.errors} errors, ${report.degraded} degraded)`);
+  console.log(`  safety recall      ${percent(safety.recall)} (${safety.detected}/${safety.crisisCases} crisis cases flagged)`);
+  console.log(`  false alarms       ${percent(safety.falseAlarmRate)} (${safety.falseAlarms})`);
+  console.log(`  risk accuracy      ${percent(report.riskAccuracy)}`);
+  console.log(`  intent accuracy    ${percent(report.intentAccuracy)}`);
+  console.log(`  emotion accuracy   ${percent(report.emotionAccuracy)}`);
+  if (responseWords) {
+    console.log(`  response words     min ${responseWords.min} / p50 ${responseWords.p50} / p90 ${responseWords.p90} / max ${responseWords.max}`);
+  }
+  if (latencyMs) {
+    console.log(`  latency ms         p50 ${latencyMs.p50} / p90 ${latencyMs.p90} / max ${latencyMs.max}`);
+  }
+  for (const miss of report.misses) {
+    console.log(`    ✗ ${miss.caseId} ${miss.label}: expected ${miss.expected}, got ${miss.actual ?? 'nothing'}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // The model routing is read when the flows load, so set it before importing them
+  process.env.MITR_MODEL_PROVIDER = options.provider;
+  if (options.routes) process.env.MITR_MODEL_ROUTES = options.routes;
+
+  const { loadEvalCorpus } = await import('./corpus');
+  const { EVAL_TARGETS, runEvaluation } = await import('./runner');
+
+  const corpus = loadEvalCorpus();
+  const cases = corpus.cases.filter(evalCase =>
+    (!options.caseIds || options.caseIds.includes(evalCase.id)) &&
+    (!options.tag || evalCase.tags?.includes(options.tag))
+  );
+  const targets = EVAL_TARGETS.filter(target => !options.targets || options.targets.includes(target));
+
+  console.log(`Evaluating ${cases.length} cases on ${targets.join(', ')} with the ${options.provider} provider`);
+  const report = await runEvaluation(corpus.version, cases, targets, (target, result) => {
+    if (result.error) console.warn(`  ${target}/${result.caseId} failed: ${result.error}`);
+  });
+
+  report.targets.forEach(printReport);
+
+  if (options.out) {
+    await writeFile(options.out, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${options.out}`);
+  }
+
+  const belowThreshold = options.minSafetyRecall === undefined ? [] : report.targets.filter(target =>
+    target.safety.recall !== null && target.safety.recall < options.minSafetyRecall!
+  );
+  if (belowThreshold.length) {
+    console.error(`\nSafety recall below ${options.minSafetyRecall} for: ${belowThreshold.map(target => target.target).join(', ')}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
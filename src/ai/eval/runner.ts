@@ -0,0 +1,131 @@
+/**
+ * @fileOverview Runs the evaluation corpus through the therapeutic flows
+ * The model each prompt uses comes from the usual routing (model-registry.ts), so
+ * the same run works against the hosted models or, with MITR_MODEL_PROVIDER=mock,
+ * offline and deterministically. Set the environment before importing this module.
+ */
+
+import { processFastMitrRequest } from '@/ai/flows/fast-mitr-ai';
+import { processComprehensiveMitrRequest } from '@/ai/flows/comprehensive-mitr-ai';
+import { manageContext } from '@/ai/flows/enhanced-context-management';
+import type { EvalCase } from './corpus';
+import { scoreTarget, type CasePrediction, type CaseResult, type ScoredLabels, type TargetReport } from './metrics';
+
+export type EvalTarget = 'fast' | 'comprehensive' | 'context';
+
+export const EVAL_TARGETS: EvalTarget[] = ['fast', 'comprehensive', 'context'];
+
+interface TargetRunner {
+  scored: ScoredLabels;
+  run: (evalCase: EvalCase) => Promise<{ prediction: CasePrediction; degraded?: boolean }>;
+}
+
+export interface EvalReport {
+  corpusVersion: string;
+  startedAt: string;
+  targets: TargetReport[];
+  results: Record<string, CaseResult[]>;
+}
+
+// History turns get fixed timestamps so runs are reproducible
+function historyTurns(evalCase: EvalCase) {
+  return (evalCase.history ?? []).map((turn, index) => ({
+    speaker: turn.speaker,
+    message: turn.message,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, index)).toISOString(),
+  }));
+}
+
+const TARGET_RUNNERS: Record<EvalTarget, TargetRunner> = {
+  fast: {
+    // The fast flow does not classify intent (its context section is an estimate)
+    scored: { intent: false, riskLevel: true, emotion: true, response: true },
+    run: async evalCase => {
+      const output = await processFastMitrRequest({
+        userMessage: evalCase.message,
+        conversationHistory: historyTurns(evalCase),
+      });
+      return {
+        prediction: {
+          riskLevel: output.safetyAssessment.riskLevel,
+          emotion: output.emotionAnalysis.primary,
+          response: output.response,
+        },
+        degraded: output.metadata.degraded,
+      };
+    },
+  },
+  comprehensive: {
+    scored: { intent: true, riskLevel: true, emotion: true, response: true },
+    run: async evalCase => {
+      const output = await processComprehensiveMitrRequest({
+        userMessage: evalCase.message,
+        conversationHistory: historyTurns(evalCase),
+      });
+      return {
+        prediction: {
+          intent: output.contextualInsights.therapeuticIntent,
+          riskLevel: output.safetyAssessment.riskLevel,
+          emotion: output.emotionAnalysis.primary,
+          response: output.response,
+        },
+        degraded: output.metadata.degraded || output.metadata.partial,
+      };
+    },
+  },
+  context: {
+    scored: { intent: true, riskLevel: true, emotion: true, response: false },
+    run: async evalCase => {
+      const output = await manageContext({
+        currentMessage: evalCase.message,
+        conversationHistory: historyTurns(evalCase),
+      });
+      return {
+        prediction: {
+          intent: output.therapeuticIntent.primary,
+          riskLevel: output.contextualFactors.urgencyLevel,
+          emotion: output.contextualFactors.emotionalState,
+        },
+      };
+    },
+  },
+};
+
+/**
+ * Runs every case through each target, one at a time, and scores the results.
+ */
+export async function runEvaluation(
+  corpusVersion: string,
+  cases: EvalCase[],
+  targets: EvalTarget[] = EVAL_TARGETS,
+  onResult?: (target: EvalTarget, result: CaseResult) => void
+): Promise<EvalReport> {
+  const report: EvalReport = { corpusVersion, startedAt: new Date().toISOString(), targets: [], results: {} };
+
+  for (const target of targets) {
+    const runner = TARGET_RUNNERS[target];
+    const results: CaseResult[] = [];
+
+    for (const evalCase of cases) {
+      const start = Date.now();
+      let result: CaseResult;
+      try {
+        const { prediction, degraded } = await runner.run(evalCase);
+        result = { caseId: evalCase.id, prediction, degraded, latencyMs: Date.now() - start };
+      } catch (error) {
+        result = {
+          caseId: evalCase.id,
+          latencyMs: Date.now() - start,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      results.push(result);
+      onResult?.(target, result);
+    }
+
+    report.results[target] = results;
+    report.targets.push(scoreTarget(target, cases, results, runner.scored));
+  }
+
+  return report;
+}
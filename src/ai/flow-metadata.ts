@@ -0,0 +1,40 @@
+/**
+ * @fileOverview Metadata block reported by the standalone flows
+ * Records which model answered each prompt, which template version it used and
+ * any fallbacks taken, as the fast and comprehensive flows do in their own
+ * metadata. A flow that calls another merges the sub-flow's block into its own
+ * ResilienceLog.
+ */
+
+import { z } from 'genkit';
+import { routedModels, type PromptName } from '@/ai/model-registry';
+import { promptVersions } from '@/ai/prompt-library';
+import type { ResilienceLog } from '@/ai/resilience';
+
+export const FlowMetadataSchema = z.object({
+  models: z.record(z.string()).describe('Model that answered each prompt, or "local"'),
+  promptVersions: z.record(z.string()).describe('Version of each prompt template in use'),
+  degraded: z.boolean().describe('True when a fallback model or local logic produced part of the output'),
+  degradations: z.array(z.object({
+    prompt: z.string(),
+    fallback: z.enum(['secondary_model', 'local']),
+    model: z.string().optional(),
+    reason: z.string(),
+  })),
+});
+
+export type FlowMetadata = z.infer<typeof FlowMetadataSchema>;
+
+/**
+ * Builds the metadata block and freezes the log, so late calls from abandoned
+ * stages do not change what was reported.
+ */
+export function flowMetadata(prompts: PromptName[], resilience: ResilienceLog): FlowMetadata {
+  resilience.freeze();
+  return {
+    models: { ...routedModels(prompts), ...resilience.models },
+    promptVersions: promptVersions(prompts),
+    degraded: resilience.degraded,
+    degradations: resilience.degradations,
+  };
+}
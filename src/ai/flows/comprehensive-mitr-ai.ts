@@ -1,16 +1,56 @@
-'use server';
-
 /**
  * @fileOverview Comprehensive MITR AI system integrating all analysis modules
  * Orchestrates emotion analysis, wearables data, context management, and safety assessment
  * to provide holistic therapeutic responses.
+ *
+ * The flow streams reply text as it is generated; it is served to the client by
+ * src/app/api/mitr/comprehensive/route.ts, so unlike the other flow modules it is not
+ * a server action module and must only be imported from server code.
  */
 
 import { ai } from '@/ai/genkit';
+import { promptModelOptions, routedModels, type PromptName } from '@/ai/model-registry';
+import { promptTemplate, promptVersions } from '@/ai/prompt-library';
 import { z } from 'zod';
 import { analyzeEmotions, type EmotionAnalysisInput, type EmotionAnalysisOutput } from './emotion-analysis';
-import { analyzeWearablesData, type WearablesDataInput, type WearablesAnalysisOutput } from './wearables-analysis';
+import type { WearablesAnalysisOutput } from './wearables-analysis';
 import { manageContext, type ContextManagementInput, type ContextManagementOutput } from './enhanced-context-management';
+import { applySafetyGate, assessSafety, describeSafetyGate, maxRiskLevel, selfReportedIdeation } from '@/utils/safety-gate';
+import { buildLocalResponse } from '@/utils/local-responder';
+import { formatRecalledTurns } from '@/utils/conversation-recall';
+import { formatSessionMemory, formatTurns, selectContextWindow } from '@/utils/context-window';
+import { pipeResponseText, type ResponseTextChunk } from '@/ai/streaming';
+import { StageTracker } from '@/ai/pipeline';
+import { ResilienceLog, requireOutput } from '@/ai/resilience';
+import { analyzeTextLocally } from '@/utils/emotion-fusion';
+import { withExercises } from '@/utils/guided-exercises';
+import {
+  assembleWearablesAnalysis,
+  computeWearableMetrics,
+  localWearablesNarrative,
+  type WearableReadings,
+} from '@/utils/wearable-metrics';
+
+// Per-stage time budgets. The emotion budget covers its own modality budgets
+// (slowest modality plus recommendations); see emotion-analysis.ts.
+const STAGE_BUDGETS_MS = {
+  emotion: 9000,
+  context: 7000,
+  safety: 5000,
+  response: 20000,
+};
+
+// Prompts the pipeline can call, directly or through the emotion and context flows
+const PIPELINE_PROMPTS: PromptName[] = [
+  'facialEmotionAnalysis',
+  'voiceEmotionAnalysis',
+  'textEmotionAnalysis',
+  'emotionRecommendations',
+  'intentClassification',
+  'contextAnalysis',
+  'safetyAssessment',
+  'therapeuticResponse',
+];
 
 // Comprehensive MITR AI input schema
 const ComprehensiveMitrInputSchema = z.object({
@@ -26,12 +66,23 @@ const ComprehensiveMitrInputSchema = z.object({
   
   // Multimodal data
   imageData: z.string().optional().describe('Base64 encoded camera image'),
+  facialEmotions: z.object({
+    primary: z.string(),
+    confidence: z.number(),
+    emotions: z.record(z.number()),
+    arousal: z.number(),
+    valence: z.number(),
+  }).optional().describe('Facial expression scores computed on the device'),
   audioFeatures: z.object({
     pitch: z.number().optional(),
     energy: z.number().optional(),
     spectralCentroid: z.number().optional(),
     mfcc: z.array(z.number()).optional(),
     duration: z.number().optional(),
+    jitter: z.number().optional(),
+    shimmer: z.number().optional(),
+    speakingRate: z.number().optional(),
+    pauseRatio: z.number().optional(),
   }).optional(),
   
   // Wearables data
@@ -44,6 +95,9 @@ const ComprehensiveMitrInputSchema = z.object({
     sleep: z.object({
       duration: z.number().optional(),
       quality: z.number().optional(),
+      deepSleep: z.number().optional(),
+      remSleep: z.number().optional(),
+      efficiency: z.number().optional(),
     }).optional(),
     activity: z.object({
       steps: z.number().optional(),
@@ -52,8 +106,17 @@ const ComprehensiveMitrInputSchema = z.object({
     stress: z.object({
       level: z.number().optional(),
     }).optional(),
+    biometrics: z.object({
+      bloodOxygen: z.number().optional(),
+      respiratoryRate: z.number().optional(),
+      bloodPressure: z.object({
+        systolic: z.number(),
+        diastolic: z.number(),
+      }).optional(),
+    }).optional(),
     timestamp: z.string(),
   }).optional(),
+  healthDeviations: z.array(z.string()).optional().describe('Wearable readings that deviate from the user\'s personal baselines'),
   
   // User profile and preferences
   userProfile: z.object({
@@ -61,6 +124,34 @@ const ComprehensiveMitrInputSchema = z.object({
     triggers: z.array(z.string()).optional(),
     copingStrategies: z.array(z.string()).optional(),
     preferences: z.record(z.any()).optional(),
+    assessments: z.array(z.object({
+      instrument: z.string(),
+      score: z.number(),
+      maxScore: z.number(),
+      severity: z.string(),
+      completedAt: z.string(),
+      suicidalIdeationItem: z.number().optional(),
+    })).optional().describe('Latest self-report questionnaire scores (PHQ-9, GAD-7, WHO-5)'),
+  }).optional(),
+  
+  // Region code used to resolve crisis resources
+  region: z.string().optional(),
+  
+  // Semantically recalled turns from earlier conversations
+  relevantHistory: z.array(z.object({
+    content: z.string(),
+    relevanceScore: z.number(),
+    timestamp: z.string(),
+    sessionId: z.string().optional(),
+    sessionTitle: z.string().optional(),
+  })).optional().describe('Earlier user turns retrieved by embedding similarity'),
+  
+  // Rolling summary and structured memory of turns older than the context window
+  conversationSummary: z.string().optional(),
+  sessionMemory: z.object({
+    themes: z.array(z.string()),
+    stressors: z.array(z.string()),
+    agreedActions: z.array(z.string()),
   }).optional(),
   
   // Session context
@@ -83,6 +174,15 @@ const ComprehensiveMitrOutputSchema = z.object({
     primary: z.string(),
     confidence: z.number(),
     distressLevel: z.number(),
+    valence: z.number().optional().describe('0 (negative) to 1 (positive)'),
+    arousal: z.number().optional().describe('0 (calm) to 1 (highly aroused)'),
+    modalities: z.array(z.object({
+      modality: z.enum(['facial', 'voice', 'text']),
+      primary: z.string(),
+      weight: z.number(),
+      valence: z.number(),
+      arousal: z.number(),
+    })).optional().describe('Per-modality readings behind the fused result'),
     recommendations: z.array(z.string()),
   }),
   
@@ -117,6 +217,7 @@ const ComprehensiveMitrOutputSchema = z.object({
     immediate: z.array(z.string()),
     session: z.array(z.string()),
     longTerm: z.array(z.string()),
+    exercises: z.array(z.string()).optional().describe('Guided exercises (catalog ids) matching the immediate interventions'),
   }),
   
   // Safety assessment
@@ -125,6 +226,11 @@ const ComprehensiveMitrOutputSchema = z.object({
     concerns: z.array(z.string()),
     actions: z.array(z.string()),
     followUp: z.boolean(),
+    resources: z.array(z.object({
+      name: z.string(),
+      contact: z.string(),
+      description: z.string().optional(),
+    })).optional(),
   }),
   
   // Metadata
@@ -136,11 +242,41 @@ const ComprehensiveMitrOutputSchema = z.object({
       health: z.number(),
       contextual: z.number(),
     }),
+    analysisMode: z.enum(['fast', 'comprehensive']),
+    partial: z.boolean().optional().describe('True when a stage failed or exceeded its time budget'),
+    stages: z.record(z.object({
+      status: z.enum(['ok', 'timeout', 'error', 'skipped']),
+      latencyMs: z.number(),
+    })).optional().describe('Status and latency of each pipeline stage'),
+    totalLatencyMs: z.number().optional(),
+    models: z.record(z.string()).optional().describe('Model routed to each prompt in the pipeline; "local" where local logic answered'),
+    promptVersions: z.record(z.string()).optional().describe('Version of each prompt template in use'),
+    degraded: z.boolean().optional().describe('True when a fallback model or local logic produced part of the output'),
+    degradations: z.array(z.object({
+      prompt: z.string(),
+      fallback: z.enum(['secondary_model', 'local']),
+      model: z.string().optional(),
+      reason: z.string(),
+    })).optional(),
+    // 'real' sections were computed from the user's own data; 'estimated' ones are placeholders
+    dataSources: z.object({
+      emotion: z.enum(['real', 'estimated']),
+      health: z.enum(['real', 'estimated']),
+      context: z.enum(['real', 'estimated']),
+      safety: z.enum(['real', 'estimated']),
+    }),
   }),
 });
 
 export type ComprehensiveMitrOutput = z.infer<typeof ComprehensiveMitrOutputSchema>;
 
+// Deterministic scores with the rule-based interpretation; the model-written one is
+// only worth its latency in the standalone wearables flow
+function scoreWearables(readings: WearableReadings): WearablesAnalysisOutput {
+  const metrics = computeWearableMetrics(readings);
+  return assembleWearablesAnalysis(readings, metrics, localWearablesNarrative(metrics));
+}
+
 // Main therapeutic response generation prompt
 const therapeuticResponsePrompt = ai.definePrompt({
   name: 'therapeuticResponse',
@@ -150,6 +286,9 @@ const therapeuticResponsePrompt = ai.definePrompt({
       emotionAnalysis: z.string(),
       healthAnalysis: z.string().optional(),
       contextualGuidance: z.string(),
+      conversationSummary: z.string().optional(),
+      sessionMemory: z.string().optional(),
+      relevantHistory: z.string().optional(),
       safetyFactors: z.string(),
     })
   },
@@ -169,58 +308,8 @@ const therapeuticResponsePrompt = ai.definePrompt({
       }),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `You are Mitr AI, an advanced therapeutic AI companion. Generate a comprehensive therapeutic response based on multimodal analysis.
-
-User Message: "{{{userMessage}}}"
-
-Emotion Analysis:
-{{{emotionAnalysis}}}
-
-{{#if healthAnalysis}}
-Health Analysis:
-{{{healthAnalysis}}}
-{{/if}}
-
-Contextual Guidance:
-{{{contextualGuidance}}}
-
-Safety Factors:
-{{{safetyFactors}}}
-
-As Mitr AI, provide:
-
-1. Therapeutic Response:
-   - Empathetic, warm, and supportive tone
-   - Address the user's emotional state directly
-   - Incorporate insights from all analysis modalities
-   - Use evidence-based therapeutic techniques
-   - Maintain appropriate boundaries
-   - Show genuine care and understanding
-
-2. Intervention Recommendations:
-   - Immediate: Actions for the next few minutes/hours
-   - Session: Techniques to explore in this conversation
-   - Long-term: Strategies for ongoing development
-
-3. Safety Assessment:
-   - Risk level evaluation (low/medium/high/critical)
-   - Specific safety concerns if any
-   - Recommended safety actions
-   - Whether follow-up is needed
-
-Guidelines:
-- Prioritize user safety above all else
-- Be authentic and human-like in your responses
-- Validate emotions while providing hope
-- Use the user's name if known
-- Reference previous conversations when relevant
-- Adapt your language to the user's communication style
-- If health data indicates concerning patterns, address them sensitively
-- Always maintain therapeutic boundaries
-- Encourage professional help when appropriate
-
-Your response should feel like talking to a caring, knowledgeable friend who happens to be a skilled therapist.`,
+  ...promptModelOptions('therapeuticResponse'),
+  prompt: promptTemplate('therapeuticResponse'),
 });
 
 // Safety assessment prompt
@@ -243,156 +332,166 @@ const safetyAssessmentPrompt = ai.definePrompt({
       urgentIntervention: z.boolean(),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Assess safety and risk factors based on user data:
-
-User Message: "{{{userMessage}}}"
-
-Emotion Data: {{{emotionData}}}
-
-{{#if healthData}}
-Health Data: {{{healthData}}}
-{{/if}}
-
-{{#if conversationHistory}}
-Recent Conversation: {{{conversationHistory}}}
-{{/if}}
-
-Assess for:
-1. Suicide risk indicators
-2. Self-harm potential
-3. Severe mental health crisis
-4. Substance abuse concerns
-5. Domestic violence indicators
-6. Severe health emergencies
-7. Psychotic symptoms
-8. Severe depression or anxiety
-
-Risk Levels:
-- Low: Normal therapeutic conversation
-- Medium: Elevated distress, monitor closely
-- High: Significant risk factors present, immediate support needed
-- Critical: Imminent danger, emergency intervention required
-
-Provide specific safety concerns and recommended actions.`,
+  ...promptModelOptions('safetyAssessment'),
+  prompt: promptTemplate('safetyAssessment'),
 });
 
 // Main comprehensive MITR AI flow
-const comprehensiveMitrFlow = ai.defineFlow(
+export const comprehensiveMitrFlow = ai.defineFlow(
   {
     name: 'comprehensiveMitrFlow',
     inputSchema: ComprehensiveMitrInputSchema,
     outputSchema: ComprehensiveMitrOutputSchema,
+    streamSchema: z.object({ text: z.string() }),
   },
-  async (input: ComprehensiveMitrInput) => {
+  async (input: ComprehensiveMitrInput, { sendChunk }) => {
     const timestamp = new Date().toISOString();
+
+    // 0. Local safety screen runs before any model call and cannot be skipped
+    const safetyGate = assessSafety(input.userMessage, input.region, selfReportedIdeation(input.userProfile?.assessments));
+
+    // Recent turns within the token budget; older ones are covered by the summary and memory
+    const recentTurns = selectContextWindow(input.conversationHistory ?? []).recent;
+    const recentConversation = recentTurns.length ? formatTurns(recentTurns) : undefined;
     
-    // 1. Analyze emotions from multimodal data
-    let emotionAnalysis: EmotionAnalysisOutput | null = null;
-    try {
+    // 1. Score any wearable readings locally (no model call, so it adds no latency);
+    // without readings there is no health analysis rather than a made-up one
+    const healthAnalysis: WearablesAnalysisOutput | null = input.wearablesData
+      ? scoreWearables(input.wearablesData)
+      : null;
+
+    // 2. Independent stages run concurrently under their own budgets:
+    //
+    //   emotion ──> safety ──┐
+    //   context ─────────────┴──> response
+    //
+    // Context uses a local text-only emotion estimate so it need not wait for the
+    // emotion models; a slow modality (e.g. facial) only drops out of the fusion.
+    const tracker = new StageTracker();
+    const resilience = new ResilienceLog();
+
+    const emotionStage = tracker.run('emotion', STAGE_BUDGETS_MS.emotion, () => {
       const emotionInput: EmotionAnalysisInput = {
         imageData: input.imageData,
+        facialEmotions: input.facialEmotions,
         audioFeatures: input.audioFeatures,
         textContent: input.userMessage,
-        conversationHistory: input.conversationHistory
-          ?.map((msg: any) => `${msg.speaker}: ${msg.message}`)
-          .join('\n'),
+        conversationHistory: recentConversation,
       };
-      emotionAnalysis = await analyzeEmotions(emotionInput);
-    } catch (error) {
-      console.error('Emotion analysis failed:', error);
-    }
-
-    // 2. Generate minimal health analysis (no external API calls) for fast response time
-    // This completely bypasses the wearables analysis API that was causing 400 errors
-    let healthAnalysis: WearablesAnalysisOutput | null = {
-      overallWellness: {
-        score: 75 + Math.floor(Math.random() * 15),
-        trend: 'stable',
-        primaryConcerns: [],
-      },
-      physicalHealth: {
-        cardiovascularHealth: 80,
-        sleepQuality: 70,
-        activityLevel: 65,
-        recoveryStatus: 'good',
-      },
-      mentalHealth: {
-        stressLevel: 35,
-        fatigueLevel: 40,
-        moodIndicators: {
-          calm: 0.7,
-          energetic: 0.6,
-          focused: 0.7,
-        },
-        cognitiveLoad: 50,
-      },
-      recommendations: {
-        immediate: ['Take a deep breath', 'Stay hydrated'],
-        shortTerm: ['Maintain regular sleep schedule'],
-        longTerm: ['Build consistent exercise routine'],
-      },
-      therapeuticInsights: {
-        emotionalState: 'calm',
-        stressFactors: [],
-        copingCapacity: 80,
-        interventionNeeded: false,
-      },
-      alerts: [],
-    };
+      return analyzeEmotions(emotionInput);
+    });
 
-    // 3. Manage context and get therapeutic guidance
-    let contextualGuidance: ContextManagementOutput | null = null;
-    try {
+    const localEmotion = analyzeTextLocally(input.userMessage);
+    const contextStage = tracker.run('context', STAGE_BUDGETS_MS.context, () => {
       const contextInput: ContextManagementInput = {
         currentMessage: input.userMessage,
-        conversationHistory: input.conversationHistory || [],
+        conversationHistory: recentTurns,
+        conversationSummary: input.conversationSummary,
+        sessionMemory: input.sessionMemory,
         userProfile: input.userProfile,
-        emotionalContext: emotionAnalysis?.fusedEmotions ? {
-          currentEmotion: emotionAnalysis.fusedEmotions.primary,
-          emotionIntensity: emotionAnalysis.fusedEmotions.confidence,
-          distressLevel: emotionAnalysis.fusedEmotions.distressLevel,
-        } : undefined,
-        healthContext: healthAnalysis ? {
-          wellnessScore: healthAnalysis.overallWellness.score,
-          stressLevel: healthAnalysis.mentalHealth.stressLevel,
-          sleepQuality: healthAnalysis.physicalHealth.sleepQuality,
-          activityLevel: healthAnalysis.physicalHealth.activityLevel,
+        relevantHistory: input.relevantHistory,
+        emotionalContext: {
+          currentEmotion: localEmotion.primary,
+          emotionIntensity: localEmotion.confidence,
+          distressLevel: localEmotion.distressLevel,
+        },
+        healthContext: healthAnalysis || input.healthDeviations?.length ? {
+          wellnessScore: healthAnalysis?.overallWellness.score,
+          stressLevel: healthAnalysis?.mentalHealth.stressLevel,
+          sleepQuality: healthAnalysis?.physicalHealth.sleepQuality,
+          activityLevel: healthAnalysis?.physicalHealth.activityLevel,
+          deviations: input.healthDeviations,
         } : undefined,
       };
-      contextualGuidance = await manageContext(contextInput);
-    } catch (error) {
-      console.error('Context management failed:', error);
-    }
-
-    // 4. Assess safety - prioritize text-based analysis for speed
-    const safetyResult = await safetyAssessmentPrompt({
-      userMessage: input.userMessage,
-      emotionData: emotionAnalysis ? JSON.stringify(emotionAnalysis.fusedEmotions) : 'No emotion data',
-      // Don't pass health data to avoid processing overhead
-      conversationHistory: input.conversationHistory
-        ?.slice(-3)
-        .map((msg: any) => `${msg.speaker}: ${msg.message}`)
-        .join('\n'),
+      return manageContext(contextInput);
     });
 
-    // 5. Generate therapeutic response - focus on emotion and context for speed
-    const responseResult = await therapeuticResponsePrompt({
+    // Safety only needs the fused emotions, not the context guidance
+    const safetyStage = emotionStage.then(emotionAnalysis =>
+      tracker.run('safety', STAGE_BUDGETS_MS.safety, settled =>
+        resilience.callModel('safetyAssessment', async model => {
+          const { output } = await safetyAssessmentPrompt({
+            userMessage: input.userMessage,
+            emotionData: emotionAnalysis
+              ? JSON.stringify({ ...emotionAnalysis.fusedEmotions, incongruence: emotionAnalysis.incongruence })
+              : 'No emotion data',
+            // Don't pass health data to avoid processing overhead
+            conversationHistory: recentConversation,
+          }, { model });
+          return requireOutput(output, 'safetyAssessment');
+        }, { canRetry: () => !settled.aborted })
+      )
+    );
+
+    const [emotionAnalysis, contextualGuidance, safetyOutput] = await Promise.all([emotionStage, contextStage, safetyStage]);
+    if (emotionAnalysis?.diagnostics) {
+      tracker.merge('emotion', emotionAnalysis.diagnostics.stages);
+    }
+    // Fallbacks taken inside the sub-flows are reported with the pipeline's own
+    if (emotionAnalysis) {
+      resilience.merge(emotionAnalysis.metadata);
+    } else {
+      resilience.recordLocalFallback('textEmotionAnalysis', `emotion stage ${tracker.stages.emotion.status}`);
+    }
+    if (contextualGuidance) {
+      resilience.merge(contextualGuidance.metadata);
+    } else {
+      resilience.recordLocalFallback('contextAnalysis', `context stage ${tracker.stages.context.status}`);
+    }
+    if (!safetyOutput) {
+      // The local safety gate's assessment stands in for the model's
+      resilience.recordLocalFallback('safetyAssessment', `safety stage ${tracker.stages.safety.status}`);
+    }
+
+    // 3. Generate the therapeutic response from whatever the earlier stages produced
+    const responseInput = {
       userMessage: input.userMessage,
       emotionAnalysis: emotionAnalysis ? JSON.stringify(emotionAnalysis) : 'No emotion analysis available',
       // Skip health analysis to speed up response time
       contextualGuidance: contextualGuidance ? JSON.stringify(contextualGuidance) : 'No contextual guidance available',
-      safetyFactors: JSON.stringify(safetyResult.output),
+      conversationSummary: input.conversationSummary,
+      sessionMemory: formatSessionMemory(input.sessionMemory),
+      relevantHistory: input.relevantHistory?.length ? formatRecalledTurns(input.relevantHistory) : undefined,
+      safetyFactors: JSON.stringify({
+        modelAssessment: safetyOutput,
+        localSafetyGate: describeSafetyGate(safetyGate),
+      }),
+    };
+    const responseOutput = await tracker.run('response', STAGE_BUDGETS_MS.response, settled => {
+      // Once the stage has timed out the local reply is sent instead, so the model's
+      // stream must not reach the client any more
+      let streamed = false;
+      const streamText = (chunk: ResponseTextChunk) => {
+        if (settled.aborted) return;
+        streamed = true;
+        sendChunk(chunk);
+      };
+      // Crisis replies are sent whole, once the safety gate has attached resources.
+      // A stream that already reached the client is not retried, to avoid repeating text.
+      return resilience.callModel('therapeuticResponse', async model => requireOutput(
+        safetyGate.triggered
+          ? (await therapeuticResponsePrompt(responseInput, { model })).output
+          : await pipeResponseText(therapeuticResponsePrompt.stream(responseInput, { model }), streamText),
+        'therapeuticResponse'
+      ), { canRetry: () => !streamed && !settled.aborted });
     });
+    if (!responseOutput) {
+      // The local responder still gives a safe reply (the crisis response when flagged)
+      resilience.recordLocalFallback('therapeuticResponse', `response stage ${tracker.stages.response.status}`);
+    }
 
-    // 6. Compile comprehensive response
+    // 4. Compile comprehensive response; calls still running in abandoned stages no longer count
+    resilience.freeze();
     const result: ComprehensiveMitrOutput = {
-      response: responseResult.output?.response || 'I apologize, but I encountered an issue generating a response. Please try again.',
+      response: responseOutput?.response || buildLocalResponse(input.userMessage, safetyGate),
       
       emotionAnalysis: {
         primary: emotionAnalysis?.fusedEmotions?.primary || 'neutral',
         confidence: emotionAnalysis?.fusedEmotions?.confidence || 0.5,
         distressLevel: emotionAnalysis?.fusedEmotions?.distressLevel || 0.3,
+        valence: emotionAnalysis?.fusedEmotions?.valence,
+        arousal: emotionAnalysis?.fusedEmotions?.arousal,
+        modalities: emotionAnalysis?.fusedEmotions?.readings,
         recommendations: emotionAnalysis?.recommendations || [],
       },
       
@@ -422,17 +521,17 @@ const comprehensiveMitrFlow = ai.defineFlow(
         emotionalState: 'supportive',
       },
       
-      interventions: responseResult.output?.interventions || {
+      interventions: withExercises(responseOutput?.interventions || {
         immediate: ['Take a deep breath', 'Ground yourself in the present moment'],
         session: ['Explore your feelings', 'Practice mindfulness'],
         longTerm: ['Develop coping strategies', 'Build emotional resilience'],
-      },
+      }),
       
       safetyAssessment: {
-        riskLevel: safetyResult.output?.riskLevel || 'low',
-        concerns: safetyResult.output?.concerns || [],
-        actions: safetyResult.output?.actions || [],
-        followUp: safetyResult.output?.followUp || false,
+        riskLevel: maxRiskLevel(safetyOutput?.riskLevel, safetyGate.riskLevel),
+        concerns: safetyOutput?.concerns || safetyGate.concerns,
+        actions: safetyOutput?.actions || safetyGate.actions,
+        followUp: safetyOutput?.followUp || safetyGate.riskLevel !== 'low',
       },
       
       metadata: {
@@ -446,10 +545,24 @@ const comprehensiveMitrFlow = ai.defineFlow(
           health: healthAnalysis ? 0.9 : 0.0,
           contextual: contextualGuidance ? 0.8 : 0.5,
         },
+        analysisMode: 'comprehensive',
+        partial: tracker.partial,
+        stages: tracker.stages,
+        totalLatencyMs: tracker.elapsedMs,
+        models: { ...routedModels(PIPELINE_PROMPTS), ...resilience.models },
+        promptVersions: promptVersions(PIPELINE_PROMPTS),
+        degraded: resilience.degraded,
+        degradations: resilience.degradations,
+        dataSources: {
+          emotion: emotionAnalysis ? 'real' : 'estimated',
+          health: healthAnalysis ? 'real' : 'estimated',
+          context: contextualGuidance ? 'real' : 'estimated',
+          safety: 'real',
+        },
       },
     };
 
-    return result;
+    return applySafetyGate(result, safetyGate);
   }
 );
 
@@ -10,19 +10,40 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {promptModelOptions} from '@/ai/model-registry';
+import {promptTemplate} from '@/ai/prompt-library';
+import {FlowMetadataSchema, flowMetadata} from '@/ai/flow-metadata';
+import {ResilienceLog, requireOutput} from '@/ai/resilience';
 import {z} from 'genkit';
+import {formatSessionMemory, trimToTokenBudget} from '@/utils/context-window';
 
 const ContextAwareResponseInputSchema = z.object({
   conversationHistory: z
     .string()
-    .describe('The complete conversation history between the user and the AI agent.'),
+    .describe('The recent conversation history between the user and the AI agent; trimmed to the token budget.'),
   userInput: z.string().describe('The latest user input in the conversation.'),
+  conversationSummary: z
+    .string()
+    .optional()
+    .describe('A rolling summary of the turns older than the recent history.'),
+  sessionMemory: z
+    .object({
+      themes: z.array(z.string()),
+      stressors: z.array(z.string()),
+      agreedActions: z.array(z.string()),
+    })
+    .optional()
+    .describe('Themes, disclosed stressors and agreed actions from this session.'),
 });
 export type ContextAwareResponseInput = z.infer<typeof ContextAwareResponseInputSchema>;
 
-const ContextAwareResponseOutputSchema = z.object({
+const ContextAwareReplySchema = z.object({
   response: z.string().describe('The AI agent’s response, considering the conversation history.'),
 });
+
+const ContextAwareResponseOutputSchema = ContextAwareReplySchema.extend({
+  metadata: FlowMetadataSchema,
+});
 export type ContextAwareResponseOutput = z.infer<typeof ContextAwareResponseOutputSchema>;
 
 export async function contextAwareResponse(input: ContextAwareResponseInput): Promise<ContextAwareResponseOutput> {
@@ -31,18 +52,10 @@ export async function contextAwareResponse(input: ContextAwareResponseInput): Pr
 
 const prompt = ai.definePrompt({
   name: 'contextAwareResponsePrompt',
-  input: {schema: ContextAwareResponseInputSchema},
-  output: {schema: ContextAwareResponseOutputSchema},
-  model: 'googleai/gemini-2.5-flash-preview-05-20', // Use the specified model
-  prompt: `You are Mitr AI, an empathetic and supportive AI therapist. Your tone should be gentle, understanding, and human-like, with a touch of warmth and sentimentality. Engage in a natural, conversational style. Always maintain context from the previous turns in the conversation to provide relevant and consistent responses. Keep your responses concise but ensure they convey care and support.
-
-Conversation History:
-{{{conversationHistory}}}
-
-Latest User Input:
-{{{userInput}}}
-
-Mitr AI's Response:`,
+  input: {schema: ContextAwareResponseInputSchema.extend({sessionMemory: z.string().optional()})},
+  output: {schema: ContextAwareReplySchema},
+  ...promptModelOptions('contextAwareResponsePrompt'),
+  prompt: promptTemplate('contextAwareResponsePrompt'),
 });
 
 const contextAwareResponseFlow = ai.defineFlow(
@@ -52,7 +65,15 @@ const contextAwareResponseFlow = ai.defineFlow(
     outputSchema: ContextAwareResponseOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    const resilience = new ResilienceLog();
+    const output = await resilience.callModel('contextAwareResponsePrompt', async model => requireOutput(
+      (await prompt({
+        ...input,
+        conversationHistory: trimToTokenBudget(input.conversationHistory),
+        sessionMemory: formatSessionMemory(input.sessionMemory),
+      }, {model})).output,
+      'contextAwareResponsePrompt'
+    ));
+    return {...output, metadata: flowMetadata(['contextAwareResponsePrompt'], resilience)};
   }
 );
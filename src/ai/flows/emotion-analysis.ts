@@ -3,21 +3,59 @@
 /**
  * @fileOverview Comprehensive emotion analysis system for MITR AI
  * Handles facial emotion recognition, voice tone analysis, text sentiment analysis,
- * and multimodal fusion to provide unified emotional insights.
+ * and deterministic multimodal fusion to provide unified emotional insights.
  */
 
 import { ai } from '@/ai/genkit';
+import { promptModelOptions, type PromptName } from '@/ai/model-registry';
+import { promptTemplate } from '@/ai/prompt-library';
+import { FlowMetadataSchema, flowMetadata } from '@/ai/flow-metadata';
 import { z } from 'genkit';
+import { defaultRecommendations, fuseEmotions } from '@/utils/emotion-fusion';
+import { StageTracker } from '@/ai/pipeline';
+import { ResilienceLog, requireOutput } from '@/ai/resilience';
+
+// Per-modality time budgets; a modality that overruns is left out of the fusion
+const STAGE_BUDGETS_MS = {
+  text: 5000,
+  voice: 4000,
+  facial: 4000,
+  recommendations: 3000,
+};
+
+const EMOTION_PROMPTS: PromptName[] = [
+  'facialEmotionAnalysis',
+  'voiceEmotionAnalysis',
+  'textEmotionAnalysis',
+  'emotionRecommendations',
+];
+
+const MODALITY_PROMPTS = {
+  facial: 'facialEmotionAnalysis',
+  voice: 'voiceEmotionAnalysis',
+  text: 'textEmotionAnalysis',
+} as const satisfies Record<string, PromptName>;
 
 // Input schemas for different modalities
 const EmotionAnalysisInputSchema = z.object({
   imageData: z.string().optional().describe('Base64 encoded image data for facial emotion analysis'),
+  facialEmotions: z.object({
+    primary: z.string(),
+    confidence: z.number(),
+    emotions: z.record(z.number()),
+    arousal: z.number(),
+    valence: z.number(),
+  }).optional().describe('Facial expression scores computed on the device; used instead of imageData'),
   audioFeatures: z.object({
     pitch: z.number().optional(),
     energy: z.number().optional(),
     spectralCentroid: z.number().optional(),
     mfcc: z.array(z.number()).optional(),
     duration: z.number().optional(),
+    jitter: z.number().optional(),
+    shimmer: z.number().optional(),
+    speakingRate: z.number().optional(),
+    pauseRatio: z.number().optional(),
   }).optional().describe('Audio features extracted from voice'),
   textContent: z.string().optional().describe('Text content for sentiment analysis'),
   conversationHistory: z.string().optional().describe('Previous conversation context'),
@@ -48,6 +86,8 @@ const EmotionAnalysisOutputSchema = z.object({
     }).describe('All detected emotions with scores'),
     arousal: z.number().describe('Arousal level 0-1'),
     valence: z.number().describe('Valence level 0-1'),
+    engagement: z.number().optional().describe('Engagement level 0-1'),
+    attention: z.number().optional().describe('Attention to the screen 0-1'),
   }).optional(),
   voiceEmotions: z.object({
     primary: z.string().describe('Primary voice emotion detected'),
@@ -118,13 +158,42 @@ const EmotionAnalysisOutputSchema = z.object({
     arousal: z.number().describe('Overall arousal level 0-1'),
     valence: z.number().describe('Overall valence level 0-1'),
     distressLevel: z.number().describe('Emotional distress assessment 0-1'),
+    modalityWeights: z.object({
+      facial: z.number(),
+      voice: z.number(),
+      text: z.number(),
+    }).optional().describe('Normalised contribution of each modality to the fused result'),
+    readings: z.array(z.object({
+      modality: z.enum(['facial', 'voice', 'text']),
+      primary: z.string(),
+      weight: z.number(),
+      valence: z.number(),
+      arousal: z.number(),
+    })).optional().describe('Each contributing modality on its own'),
   }),
+  incongruence: z.object({
+    detected: z.boolean(),
+    score: z.number().describe('Largest valence gap between confident modalities 0-1'),
+    pairs: z.array(z.object({
+      modalities: z.array(z.string()),
+      valenceGap: z.number(),
+      description: z.string(),
+    })),
+  }).optional().describe('Cross-modal incongruence, e.g. a smiling face with despairing text'),
   recommendations: z.array(z.string()).describe('Therapeutic recommendations based on analysis'),
   avatarExpression: z.object({
     expression: z.string().describe('Recommended avatar expression'),
     intensity: z.number().describe('Expression intensity 0-1'),
     duration: z.number().describe('How long to maintain expression in seconds'),
   }),
+  diagnostics: z.object({
+    partial: z.boolean().describe('True when a modality failed or exceeded its time budget'),
+    stages: z.record(z.object({
+      status: z.enum(['ok', 'timeout', 'error', 'skipped']),
+      latencyMs: z.number(),
+    })),
+  }).optional(),
+  metadata: FlowMetadataSchema,
 });
 
 export type EmotionAnalysisOutput = z.infer<typeof EmotionAnalysisOutputSchema>;
@@ -155,23 +224,12 @@ const facialEmotionPrompt = ai.definePrompt({
       }),
       arousal: z.number(),
       valence: z.number(),
+      engagement: z.number().optional(),
+      attention: z.number().optional(),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Analyze the facial expression in this image for emotional content. 
-
-Consider these emotions: happy, sad, angry, fearful, surprised, disgusted, neutral, contempt, excited, frustrated, confused, anxious, calm, stressed.
-
-Provide:
-1. Primary emotion detected
-2. Confidence score (0-1)
-3. Scores for all relevant emotions (0-1)
-4. Arousal level (0=calm, 1=highly aroused)
-5. Valence level (0=negative, 1=positive)
-
-Focus on micro-expressions, eye contact, facial muscle tension, and overall expression quality.
-
-Image: {{{imageData}}}`,
+  ...promptModelOptions('facialEmotionAnalysis'),
+  prompt: promptTemplate('facialEmotionAnalysis'),
 });
 
 // Voice emotion analysis prompt
@@ -185,6 +243,10 @@ const voiceEmotionPrompt = ai.definePrompt({
         spectralCentroid: z.number().optional(),
         mfcc: z.array(z.number()).optional(),
         duration: z.number().optional(),
+        jitter: z.number().optional(),
+        shimmer: z.number().optional(),
+        speakingRate: z.number().optional(),
+        pauseRatio: z.number().optional(),
       })
     })
   },
@@ -211,29 +273,8 @@ const voiceEmotionPrompt = ai.definePrompt({
       energy: z.number(),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Analyze voice emotional content based on these audio features:
-
-Pitch: {{{audioFeatures.pitch}}} Hz (average fundamental frequency)
-Energy: {{{audioFeatures.energy}}} (voice energy level)
-Spectral Centroid: {{{audioFeatures.spectralCentroid}}} Hz (brightness)
-MFCC: {{{audioFeatures.mfcc}}} (mel-frequency cepstral coefficients)
-Duration: {{{audioFeatures.duration}}} seconds
-
-Consider these emotions: happy, sad, angry, fearful, surprised, neutral, excited, frustrated, anxious, calm, stressed, tired, confident.
-
-Analyze:
-- Pitch variations (high pitch = excitement/stress, low pitch = sadness/calm)
-- Energy levels (high energy = excitement/anger, low energy = sadness/fatigue)
-- Spectral characteristics (brightness indicates emotional arousal)
-- Speaking rate and rhythm patterns
-
-Provide:
-1. Primary emotion detected
-2. Confidence score (0-1)
-3. Scores for all relevant emotions (0-1)
-4. Stress level (0=relaxed, 1=highly stressed)
-5. Energy level (0=low energy, 1=high energy)`,
+  ...promptModelOptions('voiceEmotionAnalysis'),
+  prompt: promptTemplate('voiceEmotionAnalysis'),
 });
 
 // Text emotion analysis prompt
@@ -271,107 +312,27 @@ const textEmotionPrompt = ai.definePrompt({
       intensity: z.number(),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Analyze the emotional content and sentiment of this text:
-
-Text: "{{{textContent}}}"
-
-{{#if conversationHistory}}
-Conversation Context: {{{conversationHistory}}}
-{{/if}}
-
-Consider these emotions: happy, sad, angry, fearful, surprised, disgusted, neutral, excited, frustrated, confused, anxious, hopeful, disappointed, grateful, lonely, overwhelmed.
-
-Analyze:
-- Word choice and emotional language
-- Sentence structure and tone
-- Context from conversation history
-- Implicit emotional indicators
-- Therapeutic relevance (signs of distress, coping, progress)
-
-Provide:
-1. Primary emotion detected
-2. Confidence score (0-1)
-3. Scores for all relevant emotions (0-1)
-4. Sentiment score (-1=very negative, 0=neutral, 1=very positive)
-5. Emotional intensity (0=mild, 1=very intense)`,
+  ...promptModelOptions('textEmotionAnalysis'),
+  prompt: promptTemplate('textEmotionAnalysis'),
 });
 
-// Multimodal fusion prompt
-const multimodalFusionPrompt = ai.definePrompt({
-  name: 'multimodalFusion',
+// Recommendations prompt: fusion itself is deterministic (see utils/emotion-fusion),
+// the model only writes the therapeutic recommendations
+const recommendationsPrompt = ai.definePrompt({
+  name: 'emotionRecommendations',
   input: {
     schema: z.object({
-      facialData: z.any().optional(),
-      voiceData: z.any().optional(),
-      textData: z.any().optional(),
+      fusedData: z.string(),
+      incongruence: z.string().optional(),
     })
   },
   output: {
     schema: z.object({
-      primary: z.string(),
-      confidence: z.number(),
-      emotions: z.object({
-        happy: z.number().optional(),
-        sad: z.number().optional(),
-        angry: z.number().optional(),
-        fearful: z.number().optional(),
-        surprised: z.number().optional(),
-        disgusted: z.number().optional(),
-        neutral: z.number().optional(),
-        excited: z.number().optional(),
-        frustrated: z.number().optional(),
-        confused: z.number().optional(),
-        anxious: z.number().optional(),
-        hopeful: z.number().optional(),
-        disappointed: z.number().optional(),
-        grateful: z.number().optional(),
-        lonely: z.number().optional(),
-        overwhelmed: z.number().optional(),
-      }),
-      arousal: z.number(),
-      valence: z.number(),
-      distressLevel: z.number(),
       recommendations: z.array(z.string()),
-      avatarExpression: z.object({
-        expression: z.string(),
-        intensity: z.number(),
-        duration: z.number(),
-      }),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Perform multimodal emotion fusion and therapeutic assessment:
-
-{{#if facialData}}
-Facial Analysis: {{{facialData}}}
-{{/if}}
-
-{{#if voiceData}}
-Voice Analysis: {{{voiceData}}}
-{{/if}}
-
-{{#if textData}}
-Text Analysis: {{{textData}}}
-{{/if}}
-
-As a therapeutic AI, fuse these modalities using attention-weighted fusion:
-1. Identify the most reliable modality based on confidence scores
-2. Look for emotional congruence or incongruence across modalities
-3. Weight facial expressions (40%), voice tone (35%), text content (25%)
-4. Consider therapeutic context and emotional regulation patterns
-
-Provide:
-1. Primary fused emotion
-2. Overall confidence score
-3. Fused emotion scores for all detected emotions
-4. Overall arousal level (0-1)
-5. Overall valence level (0-1)
-6. Distress level assessment (0=no distress, 1=severe distress)
-7. 3-5 therapeutic recommendations
-8. Avatar expression recommendation (empathetic, supportive, concerned, encouraging, calm, etc.) with intensity and duration
-
-Focus on therapeutic value and emotional support needs.`,
+  ...promptModelOptions('emotionRecommendations'),
+  prompt: promptTemplate('emotionRecommendations'),
 });
 
 // Main emotion analysis flow
@@ -383,66 +344,102 @@ const emotionAnalysisFlow = ai.defineFlow(
   },
   async (input) => {
     const results: Partial<EmotionAnalysisOutput> = {};
-
-    // Analyze facial emotions if image data provided
-    if (input.imageData) {
-      try {
-        const { output: facialResult } = await facialEmotionPrompt({
-          imageData: input.imageData
-        });
-        results.facialEmotions = facialResult;
-      } catch (error) {
-        console.error('Facial emotion analysis failed:', error);
-      }
-    }
-
-    // Analyze voice emotions if audio features provided
-    if (input.audioFeatures) {
-      try {
-        const { output: voiceResult } = await voiceEmotionPrompt({
-          audioFeatures: input.audioFeatures
-        });
-        results.voiceEmotions = voiceResult;
-      } catch (error) {
-        console.error('Voice emotion analysis failed:', error);
-      }
+    const tracker = new StageTracker();
+    const resilience = new ResilienceLog();
+
+    // The modalities are independent, so they run concurrently under their own budgets
+    // Facial scores computed on the device need no model call
+    const { imageData, facialEmotions, audioFeatures, textContent } = input;
+    const [facialResult, voiceResult, textResult] = await Promise.all([
+      facialEmotions
+        ? tracker.run('facial', STAGE_BUDGETS_MS.facial, async () => facialEmotions)
+        : imageData
+          ? tracker.run('facial', STAGE_BUDGETS_MS.facial, settled => resilience.callModel('facialEmotionAnalysis', async model =>
+              requireOutput((await facialEmotionPrompt({ imageData }, { model })).output, 'facialEmotionAnalysis'),
+              { canRetry: () => !settled.aborted }))
+          : tracker.skip('facial'),
+      audioFeatures
+        ? tracker.run('voice', STAGE_BUDGETS_MS.voice, settled => resilience.callModel('voiceEmotionAnalysis', async model =>
+            requireOutput((await voiceEmotionPrompt({ audioFeatures }, { model })).output, 'voiceEmotionAnalysis'),
+            { canRetry: () => !settled.aborted }))
+        : tracker.skip('voice'),
+      textContent
+        ? tracker.run('text', STAGE_BUDGETS_MS.text, settled => resilience.callModel('textEmotionAnalysis', async model =>
+            requireOutput((await textEmotionPrompt({
+              textContent,
+              conversationHistory: input.conversationHistory,
+            }, { model })).output, 'textEmotionAnalysis'),
+            { canRetry: () => !settled.aborted }))
+        : tracker.skip('text'),
+    ]);
+    // A modality whose model chain failed or overran is left out of the fusion
+    for (const [stage, prompt] of Object.entries(MODALITY_PROMPTS)) {
+      const { status } = tracker.stages[stage];
+      if (status === 'error' || status === 'timeout') resilience.recordLocalFallback(prompt, `${stage} stage ${status}`);
     }
-
-    // Analyze text emotions if text content provided
-    if (input.textContent) {
-      try {
-        const { output: textResult } = await textEmotionPrompt({
-          textContent: input.textContent,
-          conversationHistory: input.conversationHistory
-        });
-        results.textEmotions = textResult;
-      } catch (error) {
-        console.error('Text emotion analysis failed:', error);
-      }
-    }
-
-    // Perform multimodal fusion
-    const { output: fusionResult } = await multimodalFusionPrompt({
-      facialData: results.facialEmotions ? JSON.stringify(results.facialEmotions) : undefined,
-      voiceData: results.voiceEmotions ? JSON.stringify(results.voiceEmotions) : undefined,
-      textData: results.textEmotions ? JSON.stringify(results.textEmotions) : undefined,
+    results.facialEmotions = facialResult ?? undefined;
+    results.voiceEmotions = voiceResult ?? undefined;
+    results.textEmotions = textResult ?? undefined;
+
+    // Perform deterministic multimodal fusion
+    const fusion = fuseEmotions({
+      facial: results.facialEmotions,
+      voice: results.voiceEmotions,
+      text: results.textEmotions,
     });
 
     results.fusedEmotions = {
-      primary: fusionResult.primary,
-      confidence: fusionResult.confidence,
-      emotions: fusionResult.emotions,
-      arousal: fusionResult.arousal,
-      valence: fusionResult.valence,
-      distressLevel: fusionResult.distressLevel,
+      primary: fusion.primary,
+      confidence: fusion.confidence,
+      emotions: fusion.emotions,
+      arousal: fusion.arousal,
+      valence: fusion.valence,
+      distressLevel: fusion.distressLevel,
+      modalityWeights: fusion.modalityWeights,
+      readings: fusion.readings.map(({ modality, primary, weight, valence, arousal }) => ({ modality, primary, weight, valence, arousal })),
     };
-    results.recommendations = fusionResult.recommendations;
-    results.avatarExpression = fusionResult.avatarExpression;
+    results.incongruence = fusion.incongruence;
+    results.avatarExpression = fusion.avatarExpression;
+
+    const recommendationsResult = await tracker.run('recommendations', STAGE_BUDGETS_MS.recommendations, settled =>
+      resilience.callModel('emotionRecommendations', async model => {
+      const { output } = await recommendationsPrompt({
+        fusedData: JSON.stringify({
+          primary: fusion.primary,
+          confidence: fusion.confidence,
+          arousal: fusion.arousal,
+          valence: fusion.valence,
+          distressLevel: fusion.distressLevel,
+          emotions: fusion.emotions,
+        }),
+        incongruence: fusion.incongruence.detected
+          ? fusion.incongruence.pairs.map(pair => pair.description).join('; ')
+          : undefined,
+      }, { model });
+      return requireOutput(output, 'emotionRecommendations');
+    }, { canRetry: () => !settled.aborted }));
+    if (recommendationsResult?.recommendations?.length) {
+      results.recommendations = recommendationsResult.recommendations;
+    } else {
+      resilience.recordLocalFallback('emotionRecommendations', `recommendations stage ${tracker.stages.recommendations.status}`);
+      results.recommendations = defaultRecommendations(fusion);
+    }
 
+    results.diagnostics = { partial: tracker.partial, stages: tracker.stages };
+    results.metadata = flowMetadata(EMOTION_PROMPTS, resilience);
     return results as EmotionAnalysisOutput;
   }
 );
 
 export async function analyzeEmotions(input: EmotionAnalysisInput): Promise<EmotionAnalysisOutput> {
   return emotionAnalysisFlow(input);
+}
+
+/**
+ * Scores one camera frame with the facial prompt alone: no fusion and no
+ * recommendations call, as the facial analysis route needs only the scores.
+ */
+export async function analyzeFacialFrame(imageData: string): Promise<NonNullable<EmotionAnalysisOutput['facialEmotions']>> {
+  return new ResilienceLog().callModel('facialEmotionAnalysis', async model =>
+    requireOutput((await facialEmotionPrompt({ imageData }, { model })).output, 'facialEmotionAnalysis'));
 } 
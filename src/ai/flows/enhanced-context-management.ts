@@ -2,12 +2,24 @@
 
 /**
  * @fileOverview Enhanced context management system for MITR AI
- * Implements semantic embeddings, similarity search, and therapeutic knowledge base
+ * Uses embedding retrieval over the therapeutic knowledge base (src/data/knowledge)
  * for contextual relevance and adaptive therapeutic responses.
  */
 
 import { ai } from '@/ai/genkit';
+import { promptModelOptions, type PromptName } from '@/ai/model-registry';
+import { promptTemplate } from '@/ai/prompt-library';
+import { FlowMetadataSchema, flowMetadata } from '@/ai/flow-metadata';
+import { ResilienceLog, requireOutput } from '@/ai/resilience';
 import { z } from 'genkit';
+import { getKnowledgeRetriever, type KnowledgeMatch } from '@/ai/retrieval/knowledge-retriever';
+import { formatRecalledTurns } from '@/utils/conversation-recall';
+import { formatSessionMemory, formatTurns, selectContextWindow } from '@/utils/context-window';
+
+// Intent classification only needs the last few exchanges
+const INTENT_CONTEXT_TOKEN_BUDGET = 400;
+
+const CONTEXT_PROMPTS: PromptName[] = ['intentClassification', 'contextAnalysis'];
 
 // Context management input schema
 const ContextManagementInputSchema = z.object({
@@ -18,13 +30,27 @@ const ContextManagementInputSchema = z.object({
     timestamp: z.string(),
     emotions: z.record(z.number()).optional(),
     intent: z.string().optional(),
-  })).describe('Full conversation history with metadata'),
+  })).describe('Conversation history with metadata; trimmed to the token budget'),
+  conversationSummary: z.string().optional().describe('Rolling summary of turns older than the context window'),
+  sessionMemory: z.object({
+    themes: z.array(z.string()),
+    stressors: z.array(z.string()),
+    agreedActions: z.array(z.string()),
+  }).optional().describe('Structured memory of the current session'),
   userProfile: z.object({
     preferences: z.record(z.any()).optional(),
     therapeuticGoals: z.array(z.string()).optional(),
     triggers: z.array(z.string()).optional(),
     copingStrategies: z.array(z.string()).optional(),
     sessionHistory: z.array(z.string()).optional(),
+    assessments: z.array(z.object({
+      instrument: z.string(),
+      score: z.number(),
+      maxScore: z.number(),
+      severity: z.string(),
+      completedAt: z.string(),
+      suicidalIdeationItem: z.number().optional(),
+    })).optional().describe('Latest self-report questionnaire scores (PHQ-9, GAD-7, WHO-5)'),
   }).optional(),
   emotionalContext: z.object({
     currentEmotion: z.string().optional(),
@@ -37,13 +63,21 @@ const ContextManagementInputSchema = z.object({
     stressLevel: z.number().optional(),
     sleepQuality: z.number().optional(),
     activityLevel: z.number().optional(),
+    deviations: z.array(z.string()).optional().describe('Wearable readings that deviate from the user\'s personal baselines'),
   }).optional(),
+  relevantHistory: z.array(z.object({
+    content: z.string(),
+    relevanceScore: z.number(),
+    timestamp: z.string(),
+    sessionId: z.string().optional(),
+    sessionTitle: z.string().optional(),
+  })).optional().describe('Earlier user turns retrieved by embedding similarity'),
 });
 
 export type ContextManagementInput = z.infer<typeof ContextManagementInputSchema>;
 
-// Context management output schema
-const ContextManagementOutputSchema = z.object({
+// Context analysis written by the model
+const ContextAnalysisSchema = z.object({
   relevantContext: z.array(z.object({
     content: z.string(),
     relevanceScore: z.number(),
@@ -76,6 +110,11 @@ const ContextManagementOutputSchema = z.object({
   adaptivePrompt: z.string().describe('Contextually adapted prompt for response generation'),
 });
 
+// Context management output schema
+const ContextManagementOutputSchema = ContextAnalysisSchema.extend({
+  metadata: FlowMetadataSchema,
+});
+
 export type ContextManagementOutput = z.infer<typeof ContextManagementOutputSchema>;
 
 // Intent classification prompt
@@ -94,202 +133,44 @@ const intentClassificationPrompt = ai.definePrompt({
       confidence: z.number(),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Classify the therapeutic intent of this user message:
-
-Message: "{{{message}}}"
-
-{{#if conversationContext}}
-Conversation Context: {{{conversationContext}}}
-{{/if}}
-
-Therapeutic Intent Categories:
-- emotional_support: Seeking comfort, validation, empathy
-- problem_solving: Looking for solutions, strategies, advice
-- self_reflection: Exploring thoughts, feelings, behaviors
-- crisis_intervention: Immediate help, safety concerns
-- goal_setting: Establishing objectives, planning
-- skill_building: Learning coping strategies, techniques
-- relationship_issues: Interpersonal problems, communication
-- trauma_processing: Dealing with past traumatic experiences
-- anxiety_management: Handling worry, fear, panic
-- depression_support: Addressing sadness, hopelessness
-- stress_management: Coping with pressure, overwhelm
-- behavioral_change: Modifying habits, patterns
-- mindfulness_practice: Present-moment awareness, meditation
-- grief_processing: Dealing with loss, bereavement
-- identity_exploration: Understanding self, values, purpose
-- information_seeking: Asking questions, learning
-- session_management: Opening, closing, scheduling
-- small_talk: Casual conversation, rapport building
-
-Provide:
-1. Primary intent (most likely)
-2. Secondary intents (other possible intents)
-3. Confidence score (0-1)`,
+  ...promptModelOptions('intentClassification'),
+  prompt: promptTemplate('intentClassification'),
 });
 
-// Therapeutic knowledge base (simplified - in production would be a vector database)
-const therapeuticKnowledgeBase = [
-  {
-    topic: "Active Listening",
-    content: "Reflect back what you hear, validate emotions, ask open-ended questions, avoid judgment",
-    category: "communication_techniques",
-    keywords: ["listening", "validation", "empathy", "understanding"]
-  },
-  {
-    topic: "Cognitive Behavioral Therapy",
-    content: "Help identify thought patterns, challenge negative thinking, explore behavior-emotion connections",
-    category: "therapeutic_approaches",
-    keywords: ["thoughts", "thinking", "behavior", "patterns", "negative"]
-  },
-  {
-    topic: "Mindfulness Techniques",
-    content: "Guide breathing exercises, present-moment awareness, body scans, non-judgmental observation",
-    category: "coping_strategies",
-    keywords: ["mindfulness", "breathing", "present", "awareness", "meditation"]
-  },
-  {
-    topic: "Crisis Intervention",
-    content: "Assess safety, provide immediate support, connect to resources, create safety plan",
-    category: "crisis_management",
-    keywords: ["crisis", "safety", "emergency", "harm", "suicide", "danger"]
-  },
-  {
-    topic: "Anxiety Management",
-    content: "Teach grounding techniques, progressive muscle relaxation, exposure therapy principles",
-    category: "anxiety_support",
-    keywords: ["anxiety", "worry", "fear", "panic", "nervous", "stressed"]
-  },
-  {
-    topic: "Depression Support",
-    content: "Validate feelings, encourage small steps, behavioral activation, hope instillation",
-    category: "depression_support",
-    keywords: ["depression", "sad", "hopeless", "empty", "worthless", "tired"]
-  },
-  {
-    topic: "Trauma-Informed Care",
-    content: "Create safety, avoid re-traumatization, respect autonomy, build trust gradually",
-    category: "trauma_support",
-    keywords: ["trauma", "abuse", "ptsd", "flashbacks", "triggers", "safety"]
-  },
-  {
-    topic: "Motivational Interviewing",
-    content: "Explore ambivalence, enhance motivation, support self-efficacy, avoid confrontation",
-    category: "change_facilitation",
-    keywords: ["motivation", "change", "ambivalence", "goals", "commitment"]
-  }
-];
-
 // Context analysis and management prompt
 const contextAnalysisPrompt = ai.definePrompt({
   name: 'contextAnalysis',
-  input: { schema: ContextManagementInputSchema },
-  output: { schema: ContextManagementOutputSchema },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Analyze conversation context and provide therapeutic guidance:
-
-Current Message: "{{{currentMessage}}}"
-
-{{#if conversationHistory}}
-Conversation History:
-{{#each conversationHistory}}
-{{{speaker}}}: {{{message}}} ({{timestamp}})
-{{#if emotions}}Emotions: {{{emotions}}}{{/if}}
-{{#if intent}}Intent: {{{intent}}}{{/if}}
-{{/each}}
-{{/if}}
-
-{{#if userProfile}}
-User Profile:
-{{#if userProfile.therapeuticGoals}}Goals: {{{userProfile.therapeuticGoals}}}{{/if}}
-{{#if userProfile.triggers}}Triggers: {{{userProfile.triggers}}}{{/if}}
-{{#if userProfile.copingStrategies}}Coping Strategies: {{{userProfile.copingStrategies}}}{{/if}}
-{{/if}}
-
-{{#if emotionalContext}}
-Emotional Context:
-- Current Emotion: {{{emotionalContext.currentEmotion}}}
-- Intensity: {{{emotionalContext.emotionIntensity}}}
-- Trend: {{{emotionalContext.emotionTrend}}}
-- Distress Level: {{{emotionalContext.distressLevel}}}
-{{/if}}
-
-{{#if healthContext}}
-Health Context:
-- Wellness Score: {{{healthContext.wellnessScore}}}
-- Stress Level: {{{healthContext.stressLevel}}}
-- Sleep Quality: {{{healthContext.sleepQuality}}}
-- Activity Level: {{{healthContext.activityLevel}}}
-{{/if}}
-
-As a therapeutic AI, analyze this context and provide:
-
-1. Relevant Context Extraction:
-   - Identify most relevant previous conversations
-   - Extract key themes and patterns
-   - Note emotional progression
-   - Highlight therapeutic milestones
-
-2. Therapeutic Intent Classification:
-   - Primary intent of current message
-   - Secondary possible intents
-   - Confidence in classification
-
-3. Response Strategy:
-   - Appropriate therapeutic approach
-   - Recommended tone and style
-   - Specific techniques to use
-   - Things to avoid
-
-4. Contextual Factors:
-   - Current emotional state assessment
-   - Urgency level determination
-   - Session phase identification
-   - Therapeutic alliance strength
-
-5. Knowledge Base Integration:
-   - Relevant therapeutic concepts
-   - Applicable techniques and interventions
-   - Evidence-based approaches
-
-6. Adaptive Prompt Generation:
-   - Create a contextually-aware prompt for response generation
-   - Include relevant history and therapeutic considerations
-   - Specify approach and techniques to use
-
-Focus on therapeutic effectiveness, safety, and building rapport.`,
+  input: {
+    schema: ContextManagementInputSchema.extend({
+      recalledMemories: z.string().optional(),
+      sessionMemory: z.string().optional(),
+      knowledgeMatches: z.array(z.object({
+        topic: z.string(),
+        content: z.string(),
+        category: z.string(),
+        relevanceScore: z.number(),
+      })).optional().describe('Knowledge base entries retrieved for the current message'),
+    })
+  },
+  output: { schema: ContextAnalysisSchema },
+  ...promptModelOptions('contextAnalysis'),
+  prompt: promptTemplate('contextAnalysis'),
 });
 
-// Similarity search function (simplified - would use vector embeddings in production)
-function findRelevantKnowledge(message: string, emotionalContext?: any): typeof therapeuticKnowledgeBase {
-  const messageLower = message.toLowerCase();
-  const relevantKnowledge = therapeuticKnowledgeBase.filter(item => {
-    return item.keywords.some(keyword => messageLower.includes(keyword));
-  });
-
-  // Add emotional context matching
-  if (emotionalContext?.currentEmotion) {
-    const emotionKeywords = {
-      'anxious': ['anxiety', 'worry', 'fear'],
-      'sad': ['depression', 'sad', 'hopeless'],
-      'angry': ['anger', 'frustration', 'irritation'],
-      'stressed': ['stress', 'overwhelm', 'pressure'],
-      'confused': ['confusion', 'uncertainty', 'clarity'],
-      'hopeful': ['hope', 'optimism', 'positive'],
-    };
-
-    const emotionKeys = emotionKeywords[emotionalContext.currentEmotion as keyof typeof emotionKeywords] || [];
-    const emotionMatches = therapeuticKnowledgeBase.filter(item =>
-      emotionKeys.some(key => item.keywords.includes(key))
-    );
-
-    relevantKnowledge.push(...emotionMatches);
+// Builds the retrieval query, adding the current emotion so that e.g. an anxious
+// user's message also surfaces anxiety techniques
+async function findRelevantKnowledge(message: string, emotionalContext?: ContextManagementInput['emotionalContext']): Promise<KnowledgeMatch[]> {
+  const query = emotionalContext?.currentEmotion
+    ? `${message} (feeling ${emotionalContext.currentEmotion})`
+    : message;
+
+  try {
+    const retriever = await getKnowledgeRetriever();
+    return await retriever.retrieve(query, 5);
+  } catch (error) {
+    console.error('Knowledge retrieval failed:', error);
+    return [];
   }
-
-  // Remove duplicates and score by relevance
-  const uniqueKnowledge = Array.from(new Set(relevantKnowledge));
-  return uniqueKnowledge.slice(0, 5); // Return top 5 matches
 }
 
 // Main context management flow
@@ -300,48 +181,56 @@ const contextManagementFlow = ai.defineFlow(
     outputSchema: ContextManagementOutputSchema,
   },
   async (input) => {
+    // Recent turns within the token budget; older ones are covered by the summary and memory
+    const recentTurns = selectContextWindow(input.conversationHistory).recent;
+    const resilience = new ResilienceLog();
+
     // Classify intent
-    const conversationContext = input.conversationHistory
-      ?.slice(-5) // Last 5 messages for context
-      .map(msg => `${msg.speaker}: ${msg.message}`)
-      .join('\n');
+    const conversationContext = formatTurns(selectContextWindow(recentTurns, INTENT_CONTEXT_TOKEN_BUDGET).recent);
 
-    const { output: intentResult } = await intentClassificationPrompt({
-      message: input.currentMessage,
-      conversationContext,
-    });
+    const intentResult = await resilience.callModel('intentClassification', async model => requireOutput(
+      (await intentClassificationPrompt({ message: input.currentMessage, conversationContext }, { model })).output,
+      'intentClassification'
+    ));
 
     // Find relevant knowledge
-    const relevantKnowledge = findRelevantKnowledge(
+    const relevantKnowledge = await findRelevantKnowledge(
       input.currentMessage,
       input.emotionalContext
     );
 
     // Perform full context analysis
-    const { output: contextResult } = await contextAnalysisPrompt(input);
-
-    // Ensure contextResult is not null
-    if (!contextResult) {
-      throw new Error('Context analysis failed to produce results');
-    }
-
-    // Ensure intentResult is not null
-    if (!intentResult) {
-      throw new Error('Intent classification failed to produce results');
-    }
-
-    // Enhance with knowledge base matches
-    contextResult.knowledgeBaseMatches = relevantKnowledge.map(item => ({
-      topic: item.topic,
-      content: item.content,
-      relevanceScore: 0.8, // Simplified scoring
-      category: item.category,
-    }));
+    const contextResult = await resilience.callModel('contextAnalysis', async model => requireOutput(
+      (await contextAnalysisPrompt({
+        ...input,
+        conversationHistory: recentTurns,
+        sessionMemory: formatSessionMemory(input.sessionMemory),
+        recalledMemories: input.relevantHistory?.length ? formatRecalledTurns(input.relevantHistory) : undefined,
+        knowledgeMatches: relevantKnowledge.length ? relevantKnowledge : undefined,
+      }, { model })).output,
+      'contextAnalysis'
+    ));
+
+    // The model sees the matches; report them with their actual similarity scores
+    contextResult.knowledgeBaseMatches = relevantKnowledge;
+    contextResult.relevantContext = [
+      ...(input.relevantHistory ?? []).map(turn => ({
+        content: turn.content,
+        relevanceScore: turn.relevanceScore,
+        source: turn.sessionTitle ? `conversation_history: ${turn.sessionTitle}` : 'conversation_history',
+        timestamp: turn.timestamp,
+      })),
+      ...relevantKnowledge.map(match => ({
+        content: `${match.topic}: ${match.content}`,
+        relevanceScore: match.relevanceScore,
+        source: 'knowledge_base',
+      })),
+    ].sort((a, b) => b.relevanceScore - a.relevanceScore);
 
     // Override intent with our classification
     contextResult.therapeuticIntent = intentResult;
 
-    return contextResult;
+    return { ...contextResult, metadata: flowMetadata(CONTEXT_PROMPTS, resilience) };
   }
 );
 
@@ -1,12 +1,25 @@
-'use server';
-
 /**
  * @fileOverview Ultra-fast MITR AI system that skips all expensive analysis
  * Direct therapeutic responses with minimal processing for maximum speed
+ *
+ * The flow streams reply text as it is generated; it is served to the client by
+ * src/app/api/mitr/fast/route.ts, so unlike the other flow modules it is not
+ * a server action module and must only be imported from server code.
  */
 
 import { ai } from '@/ai/genkit';
+import { promptModelOptions } from '@/ai/model-registry';
+import { promptTemplate, promptVersions } from '@/ai/prompt-library';
+import { ResilienceLog, requireOutput } from '@/ai/resilience';
 import { z } from 'zod';
+import { applySafetyGate, assessSafety, describeSafetyGate, selfReportedIdeation } from '@/utils/safety-gate';
+import { buildLocalResponse } from '@/utils/local-responder';
+import { formatRecalledTurns } from '@/utils/conversation-recall';
+import { formatSessionMemory, formatTurns, selectContextWindow } from '@/utils/context-window';
+import { pipeResponseText, type ResponseTextChunk } from '@/ai/streaming';
+import { sentimentAnalyzer } from '@/utils/sentiment-analyzer';
+import { analyzeTextLocally, defaultRecommendations } from '@/utils/emotion-fusion';
+import { matchExercises } from '@/utils/guided-exercises';
 
 // Fast MITR AI input schema - simplified to only what's essential
 const FastMitrInputSchema = z.object({
@@ -17,6 +30,35 @@ const FastMitrInputSchema = z.object({
     message: z.string(),
     timestamp: z.string(),
   })).optional(),
+  region: z.string().optional().describe('Region code used to resolve crisis resources'),
+  userProfile: z.object({
+    therapeuticGoals: z.array(z.string()).optional(),
+    triggers: z.array(z.string()).optional(),
+    copingStrategies: z.array(z.string()).optional(),
+    preferences: z.record(z.any()).optional(),
+    assessments: z.array(z.object({
+      instrument: z.string(),
+      score: z.number(),
+      maxScore: z.number(),
+      severity: z.string(),
+      completedAt: z.string(),
+      suicidalIdeationItem: z.number().optional(),
+    })).optional().describe('Latest self-report questionnaire scores (PHQ-9, GAD-7, WHO-5)'),
+  }).optional().describe('Profile entries the user has confirmed'),
+  relevantHistory: z.array(z.object({
+    content: z.string(),
+    relevanceScore: z.number(),
+    timestamp: z.string(),
+    sessionId: z.string().optional(),
+    sessionTitle: z.string().optional(),
+  })).optional().describe('Earlier user turns retrieved by embedding similarity'),
+  conversationSummary: z.string().optional().describe('Rolling summary of turns older than the context window'),
+  sessionMemory: z.object({
+    themes: z.array(z.string()),
+    stressors: z.array(z.string()),
+    agreedActions: z.array(z.string()),
+  }).optional().describe('Structured memory of the current session'),
+  healthDeviations: z.array(z.string()).optional().describe('Wearable readings that deviate from the user\'s personal baselines'),
 });
 
 export type FastMitrInput = z.infer<typeof FastMitrInputSchema>;
@@ -31,6 +73,15 @@ const FastMitrOutputSchema = z.object({
     primary: z.string(),
     confidence: z.number(),
     distressLevel: z.number(),
+    valence: z.number().optional().describe('0 (negative) to 1 (positive)'),
+    arousal: z.number().optional().describe('0 (calm) to 1 (highly aroused)'),
+    modalities: z.array(z.object({
+      modality: z.enum(['facial', 'voice', 'text']),
+      primary: z.string(),
+      weight: z.number(),
+      valence: z.number(),
+      arousal: z.number(),
+    })).optional().describe('Per-modality readings behind the fused result'),
     recommendations: z.array(z.string()),
   }),
   
@@ -65,6 +116,7 @@ const FastMitrOutputSchema = z.object({
     immediate: z.array(z.string()),
     session: z.array(z.string()),
     longTerm: z.array(z.string()),
+    exercises: z.array(z.string()).optional().describe('Guided exercises (catalog ids) the text analysis calls for'),
   }),
   
   // Safety assessment
@@ -73,6 +125,11 @@ const FastMitrOutputSchema = z.object({
     concerns: z.array(z.string()),
     actions: z.array(z.string()),
     followUp: z.boolean(),
+    resources: z.array(z.object({
+      name: z.string(),
+      contact: z.string(),
+      description: z.string().optional(),
+    })).optional(),
   }),
   
   // Metadata
@@ -84,6 +141,23 @@ const FastMitrOutputSchema = z.object({
       health: z.number(),
       contextual: z.number(),
     }),
+    analysisMode: z.enum(['fast', 'comprehensive']),
+    models: z.record(z.string()).optional().describe('Model that answered each prompt, or "local"'),
+    promptVersions: z.record(z.string()).optional().describe('Version of each prompt template in use'),
+    degraded: z.boolean().optional().describe('True when a fallback model or local logic produced part of the output'),
+    degradations: z.array(z.object({
+      prompt: z.string(),
+      fallback: z.enum(['secondary_model', 'local']),
+      model: z.string().optional(),
+      reason: z.string(),
+    })).optional(),
+    // 'real' sections were computed from the user's own data; 'estimated' ones are placeholders
+    dataSources: z.object({
+      emotion: z.enum(['real', 'estimated']),
+      health: z.enum(['real', 'estimated']),
+      context: z.enum(['real', 'estimated']),
+      safety: z.enum(['real', 'estimated']),
+    }),
   }),
 });
 
@@ -96,6 +170,24 @@ const fastTherapistPrompt = ai.definePrompt({
     schema: z.object({
       userMessage: z.string(),
       conversationHistory: z.string().optional(),
+      conversationSummary: z.string().optional(),
+      sessionMemory: z.string().optional(),
+      safetyContext: z.string().optional(),
+      relevantHistory: z.string().optional(),
+      healthDeviations: z.string().optional(),
+      userProfile: z.object({
+        therapeuticGoals: z.array(z.string()).optional(),
+        triggers: z.array(z.string()).optional(),
+        copingStrategies: z.array(z.string()).optional(),
+        assessments: z.array(z.object({
+          instrument: z.string(),
+          score: z.number(),
+          maxScore: z.number(),
+          severity: z.string(),
+          completedAt: z.string(),
+          suicidalIdeationItem: z.number().optional(),
+        })).optional().describe('Latest self-report questionnaire scores (PHQ-9, GAD-7, WHO-5)'),
+      }).optional(),
     })
   },
   output: {
@@ -103,74 +195,99 @@ const fastTherapistPrompt = ai.definePrompt({
       response: z.string(),
     })
   },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `You are Mitr AI, a fast, direct, and helpful therapeutic AI companion. Respond quickly and helpfully to the user's message.
-
-User Message: "{{{userMessage}}}"
-
-{{#if conversationHistory}}
-Previous conversation:
-{{{conversationHistory}}}
-{{/if}}
-
-As Mitr AI, provide a direct, practical and supportive response that addresses the user's needs. Be warm and empathetic but get straight to the point.
-
-Important: Keep your response concise and action-oriented.`,
+  ...promptModelOptions('fastTherapist'),
+  prompt: promptTemplate('fastTherapist'),
 });
 
 // Fast MITR AI flow - ultra optimized for speed
-const fastMitrFlow = ai.defineFlow(
+export const fastMitrFlow = ai.defineFlow(
   {
     name: 'fastMitrFlow',
     inputSchema: FastMitrInputSchema,
     outputSchema: FastMitrOutputSchema,
+    streamSchema: z.object({ text: z.string() }),
   },
-  async (input: FastMitrInput) => {
+  async (input: FastMitrInput, { sendChunk }) => {
     const timestamp = new Date().toISOString();
+
+    // Local safety screen runs before any model call
+    const safetyGate = assessSafety(input.userMessage, input.region, selfReportedIdeation(input.userProfile?.assessments));
+
+    // Text-only emotion analysis, computed locally from the user's message
+    const textMetrics = sentimentAnalyzer.analyzeText(input.userMessage);
+    const textEmotion = analyzeTextLocally(input.userMessage);
+    const emotionRecommendations = defaultRecommendations(textEmotion);
     
-    // Get the recent conversation history for context (limit to 3 messages)
-    const recentConversation = input.conversationHistory
-      ? input.conversationHistory
-          .slice(-3)
-          .map(msg => `${msg.speaker}: ${msg.message}`)
-          .join('\n')
+    // Recent turns within the token budget; older ones are covered by the summary and memory
+    const recentConversation = input.conversationHistory?.length
+      ? formatTurns(selectContextWindow(input.conversationHistory).recent)
       : undefined;
     
     // Single prompt call for maximum speed - only essential data
-    const responseResult = await fastTherapistPrompt({
-      userMessage: input.userMessage,
-      conversationHistory: recentConversation,
-    });
+    const resilience = new ResilienceLog();
+    let streamed = false;
+    const streamText = (chunk: ResponseTextChunk) => {
+      streamed = true;
+      sendChunk(chunk);
+    };
+    let response: string;
+    try {
+      const promptInput = {
+        userMessage: input.userMessage,
+        conversationHistory: recentConversation,
+        conversationSummary: input.conversationSummary,
+        sessionMemory: formatSessionMemory(input.sessionMemory),
+        safetyContext: describeSafetyGate(safetyGate),
+        userProfile: input.userProfile,
+        relevantHistory: input.relevantHistory?.length ? formatRecalledTurns(input.relevantHistory) : undefined,
+        healthDeviations: input.healthDeviations?.length ? input.healthDeviations.join('; ') : undefined,
+      };
+      // Crisis replies are sent whole, once the safety gate has attached resources.
+      // A stream that already reached the client is not retried, to avoid repeating text.
+      const responseOutput = await resilience.callModel('fastTherapist', async model => requireOutput(
+        safetyGate.triggered
+          ? (await fastTherapistPrompt(promptInput, { model })).output
+          : await pipeResponseText(fastTherapistPrompt.stream(promptInput, { model }), streamText),
+        'fastTherapist'
+      ), { canRetry: () => !streamed });
+      response = responseOutput.response;
+    } catch (error) {
+      // Every model failed; the local responder still gives a safe reply (the crisis response when flagged)
+      resilience.recordLocalFallback('fastTherapist', error);
+      response = buildLocalResponse(input.userMessage, safetyGate);
+    }
 
-    // Create static data for UI display - no analysis needed
-    return {
-      response: responseResult.output?.response || 'I understand. How can I help you today?',
+    // Emotion and safety are real (local text analysis); health and context are estimates
+    const result: FastMitrOutput = {
+      response: response || buildLocalResponse(input.userMessage, safetyGate),
       
       emotionAnalysis: {
-        primary: 'neutral',
-        confidence: 0.8,
-        distressLevel: 0.3,
-        recommendations: ['Focus on the present', 'Express your feelings'],
+        primary: textEmotion.primary,
+        confidence: textEmotion.confidence,
+        distressLevel: textEmotion.distressLevel,
+        valence: textEmotion.valence,
+        arousal: textEmotion.arousal,
+        recommendations: emotionRecommendations,
       },
       
       healthAnalysis: {
-        wellnessScore: 75,
-        stressLevel: 35,
+        wellnessScore: textMetrics.health.wellnessScore,
+        stressLevel: textMetrics.health.stressLevel,
         alerts: [],
         recommendations: ['Take regular breaks', 'Stay hydrated'],
       },
       
       contextualInsights: {
         therapeuticIntent: 'supportive_listening',
-        urgencyLevel: 'low',
+        urgencyLevel: safetyGate.riskLevel,
         sessionPhase: 'exploration',
-        therapeuticAlliance: 75,
+        therapeuticAlliance: textMetrics.context.alliance,
       },
       
       avatarControl: {
-        expression: 'empathetic',
-        intensity: 0.7,
-        duration: 3,
+        expression: textEmotion.avatarExpression.expression,
+        intensity: textEmotion.avatarExpression.intensity,
+        duration: textEmotion.avatarExpression.duration,
         emotionalState: 'attentive',
       },
       
@@ -178,25 +295,40 @@ const fastMitrFlow = ai.defineFlow(
         immediate: ['Take a deep breath', 'Ground yourself in the present moment'],
         session: ['Express your feelings', 'Practice mindfulness'],
         longTerm: ['Develop coping strategies', 'Build emotional resilience'],
+        // Only offered when the text analysis calls for an exercise, not on every reply
+        exercises: matchExercises(emotionRecommendations),
       },
       
       safetyAssessment: {
-        riskLevel: 'low',
-        concerns: [],
-        actions: [],
-        followUp: false,
+        riskLevel: safetyGate.riskLevel,
+        concerns: safetyGate.concerns,
+        actions: safetyGate.actions,
+        followUp: safetyGate.riskLevel !== 'low',
       },
       
       metadata: {
         analysisTimestamp: timestamp,
-        confidenceScore: 0.8,
+        confidenceScore: textEmotion.confidence,
         dataQuality: {
-          emotional: 0.7,
-          health: 0.7,
-          contextual: 0.7,
+          emotional: textEmotion.confidence,
+          health: 0,
+          contextual: 0.3,
+        },
+        analysisMode: 'fast',
+        models: resilience.models,
+        promptVersions: promptVersions(['fastTherapist']),
+        degraded: resilience.degraded,
+        degradations: resilience.degradations,
+        dataSources: {
+          emotion: 'real',
+          health: 'estimated',
+          context: 'estimated',
+          safety: 'real',
         },
       },
     };
+
+    return applySafetyGate(result, safetyGate);
   }
 );
 
@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ResilienceLog } from '@/ai/resilience';
+import { computeWearableMetrics } from '@/utils/wearable-metrics';
+import { processFastMitrRequest } from './fast-mitr-ai';
+import { processComprehensiveMitrRequest } from './comprehensive-mitr-ai';
+import { manageContext } from './enhanced-context-management';
+import { analyzeEmotions } from './emotion-analysis';
+import { summarizeConversation } from './summarize-conversation';
+import { contextAwareResponse } from './context-aware-response';
+import { analyzeWearablesData } from './wearables-analysis';
+
+// Every flow here runs against the mock/mitr model (see vitest.config.ts)
+
+const ANXIOUS_MESSAGE = 'I feel anxious about my exam tomorrow';
+const CRISIS_MESSAGE = 'I want to kill myself tonight';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('fast flow', () => {
+  it('answers an everyday message without escalating', async () => {
+    const output = await processFastMitrRequest({ userMessage: ANXIOUS_MESSAGE });
+
+    expect(output.response.length).toBeGreaterThan(0);
+    expect(output.emotionAnalysis.primary).toBe('anxious');
+    expect(output.safetyAssessment.riskLevel).toBe('low');
+    expect(output.metadata.analysisMode).toBe('fast');
+    expect(output.metadata.degraded).toBe(false);
+    expect(output.metadata.models?.fastTherapist).toBe('mock/mitr');
+    expect(output.metadata.promptVersions?.fastTherapist).toMatch(/^\d+$/);
+  });
+
+  it('offers exercises only when the text analysis calls for one', async () => {
+    const anxious = await processFastMitrRequest({ userMessage: ANXIOUS_MESSAGE });
+    const calm = await processFastMitrRequest({ userMessage: 'I had a lovely lunch with my sister today' });
+
+    expect(anxious.interventions.exercises).toEqual(expect.arrayContaining(['grounding-54321']));
+    expect(calm.interventions.exercises).toEqual([]);
+  });
+
+  it('replaces the reply with crisis resources when the safety gate triggers', async () => {
+    const output = await processFastMitrRequest({ userMessage: CRISIS_MESSAGE });
+
+    expect(output.safetyAssessment.riskLevel).toBe('critical');
+    expect(output.safetyAssessment.followUp).toBe(true);
+    expect(output.safetyAssessment.resources?.length).toBeGreaterThan(0);
+    expect(output.response).toContain('Find a Helpline');
+    expect(output.interventions.immediate[0]).toMatch(/crisis line/);
+  });
+
+  it('does not escalate negated statements', async () => {
+    const output = await processFastMitrRequest({ userMessage: "I would never kill myself, I'm just stressed about work" });
+    expect(output.safetyAssessment.riskLevel).toBe('low');
+  });
+
+  it('escalates on a PHQ-9 item 9 self-report alone', async () => {
+    const output = await processFastMitrRequest({
+      userMessage: 'Hi',
+      userProfile: {
+        assessments: [{
+          instrument: 'PHQ-9',
+          score: 18,
+          maxScore: 27,
+          severity: 'Moderately severe',
+          completedAt: new Date().toISOString(),
+          suicidalIdeationItem: 3,
+        }],
+      },
+    });
+    expect(['high', 'critical']).toContain(output.safetyAssessment.riskLevel);
+  });
+});
+
+describe('comprehensive flow', () => {
+  it('runs every stage and classifies intent', async () => {
+    const output = await processComprehensiveMitrRequest({ userMessage: ANXIOUS_MESSAGE });
+
+    expect(output.response.length).toBeGreaterThan(0);
+    expect(output.contextualInsights.therapeuticIntent).toBe('anxiety_management');
+    expect(output.safetyAssessment.riskLevel).toBe('low');
+    expect(output.metadata.partial).toBe(false);
+    expect(output.metadata.degraded).toBe(false);
+    expect(output.metadata.models?.intentClassification).toBe('mock/mitr');
+    expect(output.metadata.models?.textEmotionAnalysis).toBe('mock/mitr');
+    for (const stage of ['emotion', 'safety', 'context', 'response']) {
+      expect(output.metadata.stages?.[stage]?.status).toBe('ok');
+    }
+  });
+
+  it('escalates crisis messages', async () => {
+    const output = await processComprehensiveMitrRequest({ userMessage: CRISIS_MESSAGE });
+
+    expect(output.safetyAssessment.riskLevel).toBe('critical');
+    expect(output.safetyAssessment.resources?.length).toBeGreaterThan(0);
+  });
+});
+
+describe('context management', () => {
+  it('classifies intent and retrieves knowledge base entries', async () => {
+    const output = await manageContext({ currentMessage: ANXIOUS_MESSAGE, conversationHistory: [] });
+
+    expect(output.therapeuticIntent.primary).toBe('anxiety_management');
+    expect(output.contextualFactors.emotionalState).toBe('anxious');
+    expect(output.knowledgeBaseMatches.length).toBeGreaterThan(0);
+    expect(output.metadata.models).toEqual({ intentClassification: 'mock/mitr', contextAnalysis: 'mock/mitr' });
+    expect(Object.keys(output.metadata.promptVersions)).toEqual(['intentClassification', 'contextAnalysis']);
+    expect(output.metadata.degradations).toEqual([]);
+  });
+
+  it('raises the urgency of crisis messages', async () => {
+    const output = await manageContext({ currentMessage: CRISIS_MESSAGE, conversationHistory: [] });
+    expect(['high', 'critical']).toContain(output.contextualFactors.urgencyLevel);
+  });
+});
+
+describe('standalone flows', () => {
+  it('analyses text emotion and skips missing modalities', async () => {
+    const output = await analyzeEmotions({ textContent: ANXIOUS_MESSAGE });
+
+    expect(output.textEmotions?.primary).toBe('anxious');
+    expect(output.facialEmotions).toBeUndefined();
+    expect(output.diagnostics?.stages.facial.status).toBe('skipped');
+    expect(output.diagnostics?.stages.voice.status).toBe('skipped');
+    expect(output.fusedEmotions.readings).toHaveLength(1);
+    expect(output.metadata.models.textEmotionAnalysis).toBe('mock/mitr');
+    expect(output.metadata.promptVersions.emotionRecommendations).toMatch(/^\d+$/);
+    expect(output.metadata.degraded).toBe(false);
+  });
+
+  it('summarizes turns', async () => {
+    const output = await summarizeConversation({
+      turns: [
+        { speaker: 'user', message: 'Work has been stressful' },
+        { speaker: 'ai', message: 'Tell me more about work' },
+      ],
+    });
+
+    expect(output.summary).toContain('Work has been stressful');
+    expect(output.memory).toEqual({ themes: [], stressors: [], agreedActions: [] });
+    expect(output.metadata.models).toEqual({ summarizeConversation: 'mock/mitr' });
+    expect(output.metadata.promptVersions.summarizeConversation).toMatch(/^\d+$/);
+  });
+
+  it('responds with the conversation history', async () => {
+    const output = await contextAwareResponse({ conversationHistory: 'user: hi', userInput: 'I had a rough day' });
+    expect(output.response.length).toBeGreaterThan(0);
+    expect(output.metadata.models).toEqual({ contextAwareResponsePrompt: 'mock/mitr' });
+  });
+
+  it('reports deterministic wearable scores', async () => {
+    const readings = { heartRate: { resting: 60, variability: 45 }, sleep: { duration: 6 } };
+    const output = await analyzeWearablesData({ timestamp: '2026-01-01T08:00:00.000Z', ...readings });
+    const metrics = computeWearableMetrics(readings);
+
+    expect(output.mentalHealth.stressLevel).toBe(metrics.stress?.score);
+    expect(output.physicalHealth.sleepQuality).toBe(metrics.sleep?.score);
+    expect(output.physicalHealth.cardiovascularHealth).toBe(metrics.cardiovascular?.score);
+    expect(output.metadata?.models).toEqual({ wearablesAnalysis: 'mock/mitr' });
+  });
+
+  it('reports the local narrative when the model chain fails', async () => {
+    vi.spyOn(ResilienceLog.prototype, 'callModel').mockRejectedValueOnce(new Error('model unavailable'));
+    const output = await analyzeWearablesData({ timestamp: '2026-01-01T08:00:00.000Z', sleep: { duration: 6 } });
+
+    expect(output.therapeuticInsights.stressFactors).toContain('Sleep debt of 2 hours');
+    expect(output.metadata?.degraded).toBe(true);
+    expect(output.metadata?.models).toEqual({ wearablesAnalysis: 'local' });
+    expect(output.metadata?.degradations).toEqual([
+      { prompt: 'wearablesAnalysis', fallback: 'local', reason: 'model unavailable' },
+    ]);
+  });
+});
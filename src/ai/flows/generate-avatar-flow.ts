@@ -9,6 +9,7 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {promptModelOptions} from '@/ai/model-registry';
 import {z} from 'genkit';
 
 const GenerateAvatarInputSchema = z.object({
@@ -32,10 +33,12 @@ const generateAvatarFlow = ai.defineFlow(
     outputSchema: GenerateAvatarOutputSchema,
   },
   async (input) => {
+    const {model, config} = promptModelOptions('avatarImage');
     const {media} = await ai.generate({
-      model: 'googleai/gemini-2.0-flash-exp', // Must be this model for image generation
+      model,
       prompt: input.prompt,
       config: {
+        ...config,
         responseModalities: ['TEXT', 'IMAGE'], // Must include IMAGE
       },
     });
@@ -0,0 +1,82 @@
+'use server';
+
+/**
+ * @fileOverview Incremental conversation summarization for MITR AI
+ * Folds turns that have scrolled out of the context window into a rolling summary
+ * and a structured session memory (themes, disclosed stressors, agreed actions).
+ */
+
+import { ai } from '@/ai/genkit';
+import { promptModelOptions } from '@/ai/model-registry';
+import { promptTemplate } from '@/ai/prompt-library';
+import { FlowMetadataSchema, flowMetadata } from '@/ai/flow-metadata';
+import { ResilienceLog, requireOutput } from '@/ai/resilience';
+import { z } from 'genkit';
+import { formatSessionMemory, formatTurns } from '@/utils/context-window';
+
+const SessionMemorySchema = z.object({
+  themes: z.array(z.string()).describe('Recurring topics the user has talked about'),
+  stressors: z.array(z.string()).describe('Stressors or difficulties the user has disclosed'),
+  agreedActions: z.array(z.string()).describe('Actions or techniques the user agreed to try'),
+});
+
+const SummarizeConversationInputSchema = z.object({
+  previousSummary: z.string().optional().describe('Summary of the turns before these ones'),
+  previousMemory: SessionMemorySchema.optional(),
+  turns: z.array(z.object({
+    speaker: z.string(),
+    message: z.string(),
+    timestamp: z.string().optional(),
+  })).describe('Turns to fold into the summary, oldest first'),
+});
+
+export type SummarizeConversationInput = z.infer<typeof SummarizeConversationInputSchema>;
+
+const SummaryUpdateSchema = z.object({
+  summary: z.string().describe('Updated summary covering the previous summary and the new turns'),
+  memory: SessionMemorySchema,
+});
+
+const SummarizeConversationOutputSchema = SummaryUpdateSchema.extend({
+  metadata: FlowMetadataSchema,
+});
+
+export type SummarizeConversationOutput = z.infer<typeof SummarizeConversationOutputSchema>;
+
+const summarizePrompt = ai.definePrompt({
+  name: 'summarizeConversation',
+  input: {
+    schema: z.object({
+      previousSummary: z.string().optional(),
+      previousMemory: z.string().optional(),
+      turns: z.string(),
+    })
+  },
+  output: { schema: SummaryUpdateSchema },
+  ...promptModelOptions('summarizeConversation'),
+  prompt: promptTemplate('summarizeConversation'),
+});
+
+const summarizeConversationFlow = ai.defineFlow(
+  {
+    name: 'summarizeConversationFlow',
+    inputSchema: SummarizeConversationInputSchema,
+    outputSchema: SummarizeConversationOutputSchema,
+  },
+  async (input) => {
+    const resilience = new ResilienceLog();
+    const output = await resilience.callModel('summarizeConversation', async model => requireOutput(
+      (await summarizePrompt({
+        previousSummary: input.previousSummary,
+        previousMemory: formatSessionMemory(input.previousMemory),
+        turns: formatTurns(input.turns),
+      }, { model })).output,
+      'summarizeConversation'
+    ));
+    return { ...output, metadata: flowMetadata(['summarizeConversation'], resilience) };
+  }
+);
+
+export async function summarizeConversation(input: SummarizeConversationInput): Promise<SummarizeConversationOutput> {
+  return summarizeConversationFlow(input);
+}
@@ -3,10 +3,22 @@
 /**
  * @fileOverview Wearables data analysis system for MITR AI
  * Analyzes health and wellness data from various wearable devices
- * to provide insights into user's physical and mental state.
+ * to provide insights into user's physical and mental state. Scores and alerts
+ * are computed locally (src/utils/wearable-metrics.ts); the model interprets them.
  */
 
 import { ai } from '@/ai/genkit';
+import { promptModelOptions } from '@/ai/model-registry';
+import { promptTemplate } from '@/ai/prompt-library';
+import { FlowMetadataSchema, flowMetadata } from '@/ai/flow-metadata';
+import { ResilienceLog, requireOutput } from '@/ai/resilience';
+import {
+  assembleWearablesAnalysis,
+  computeWearableMetrics,
+  describeWearableMetrics,
+  localWearablesNarrative,
+  type WearablesNarrative,
+} from '@/utils/wearable-metrics';
 import { z } from 'genkit';
 
 // Input schema for wearables data
@@ -98,116 +110,35 @@ const WearablesAnalysisOutputSchema = z.object({
     message: z.string().describe('Alert message'),
     action: z.string().describe('Recommended action'),
   })),
+  // Absent when the readings are scored locally without the flow (e.g. in the comprehensive flow)
+  metadata: FlowMetadataSchema.optional(),
 });
 
 export type WearablesAnalysisOutput = z.infer<typeof WearablesAnalysisOutputSchema>;
 
-// Wearables analysis prompt
+// The model only interprets the scores; the numbers come from wearable-metrics.ts
+const WearablesNarrativeSchema = z.object({
+  primaryConcerns: z.array(z.string()).describe('Main health concerns, in plain language'),
+  emotionalState: z.string().describe('Inferred emotional state from the scores'),
+  stressFactors: z.array(z.string()).describe('Likely stress factors'),
+  moodIndicators: z.record(z.number()).describe('Mood indicators 0-1, e.g. calm, energetic'),
+  recommendations: z.object({
+    immediate: z.array(z.string()).describe('Immediate action recommendations'),
+    shortTerm: z.array(z.string()).describe('Short-term lifestyle recommendations'),
+    longTerm: z.array(z.string()).describe('Long-term health recommendations'),
+  }),
+});
+
+// Wearables interpretation prompt
 const wearablesAnalysisPrompt = ai.definePrompt({
   name: 'wearablesAnalysis',
-  input: { schema: WearablesDataInputSchema },
-  output: { schema: WearablesAnalysisOutputSchema },
-  model: 'googleai/gemini-2.5-flash-preview-05-20',
-  prompt: `Analyze wearables health data for therapeutic insights and wellness assessment:
-
-{{#if heartRate}}
-Heart Rate Data:
-- Current: {{{heartRate.current}}} bpm
-- Resting: {{{heartRate.resting}}} bpm
-- Max: {{{heartRate.max}}} bpm
-- HRV: {{{heartRate.variability}}} ms
-- 24h Trend: {{{heartRate.trend}}}
-{{/if}}
-
-{{#if sleep}}
-Sleep Data:
-- Duration: {{{sleep.duration}}} hours
-- Quality Score: {{{sleep.quality}}}/100
-- Deep Sleep: {{{sleep.deepSleep}}} hours
-- REM Sleep: {{{sleep.remSleep}}} hours
-- Efficiency: {{{sleep.efficiency}}}%
-- Disturbances: {{{sleep.disturbances}}}
-{{/if}}
-
-{{#if activity}}
-Activity Data:
-- Steps: {{{activity.steps}}}
-- Calories: {{{activity.calories}}}
-- Active Minutes: {{{activity.activeMinutes}}}
-- Sedentary Minutes: {{{activity.sedentaryMinutes}}}
-- Exercise Type: {{{activity.exerciseType}}}
-- Intensity: {{{activity.intensity}}}
-{{/if}}
-
-{{#if stress}}
-Stress Data:
-- Level: {{{stress.level}}}/100
-- Trend: {{{stress.trend}}}
-- Recovery Time: {{{stress.recoveryTime}}} minutes
-- Stress Events: {{{stress.stressEvents}}}
-{{/if}}
-
-{{#if environment}}
-Environmental Data:
-- Temperature: {{{environment.temperature}}}°C
-- Humidity: {{{environment.humidity}}}%
-- Air Quality: {{{environment.airQuality}}}
-- Noise Level: {{{environment.noiseLevel}}} dB
-- Light Exposure: {{{environment.lightExposure}}} lux
-{{/if}}
-
-{{#if biometrics}}
-Biometric Data:
-- Blood Oxygen: {{{biometrics.bloodOxygen}}}%
-- Skin Temperature: {{{biometrics.skinTemperature}}}°C
-- Respiratory Rate: {{{biometrics.respiratoryRate}}} bpm
-{{#if biometrics.bloodPressure}}
-- Blood Pressure: {{{biometrics.bloodPressure.systolic}}}/{{{biometrics.bloodPressure.diastolic}}} mmHg
-{{/if}}
-{{/if}}
-
-Device: {{{deviceType}}}
-Timestamp: {{{timestamp}}}
-
-As a therapeutic AI analyzing health data, provide:
-
-1. Overall Wellness Assessment:
-   - Comprehensive wellness score (0-100)
-   - Trend analysis (improving/stable/declining)
-   - Primary health concerns
-
-2. Physical Health Analysis:
-   - Cardiovascular health score based on HR, HRV, BP
-   - Sleep quality assessment and impact on mental health
-   - Activity level evaluation and recommendations
-   - Recovery status assessment
-
-3. Mental Health Indicators:
-   - Stress level analysis from HRV, sleep, activity patterns
-   - Fatigue assessment from sleep and activity data
-   - Mood indicators from biometric patterns
-   - Cognitive load estimation
-
-4. Therapeutic Insights:
-   - Emotional state inference from physiological data
-   - Stress factor identification
-   - Current coping capacity assessment
-   - Need for immediate therapeutic intervention
-
-5. Recommendations:
-   - Immediate actions (next 1-4 hours)
-   - Short-term lifestyle changes (next few days)
-   - Long-term health improvements (weeks/months)
-
-6. Health Alerts:
-   - Any concerning patterns or values
-   - Severity assessment
-   - Recommended actions
-
-Focus on therapeutic relevance and mental health implications of physical health data.`,
+  input: { schema: WearablesDataInputSchema.extend({ computedMetrics: z.string() }) },
+  output: { schema: WearablesNarrativeSchema },
+  ...promptModelOptions('wearablesAnalysis'),
+  prompt: promptTemplate('wearablesAnalysis'),
 });
 
-// Main wearables analysis flow
+// Main wearables analysis flow: deterministic scores and alerts, model-written interpretation
 const wearablesAnalysisFlow = ai.defineFlow(
   {
     name: 'wearablesAnalysisFlow',
@@ -215,8 +146,22 @@ const wearablesAnalysisFlow = ai.defineFlow(
     outputSchema: WearablesAnalysisOutputSchema,
   },
   async (input) => {
-    const { output } = await wearablesAnalysisPrompt(input);
-    return output!;
+    const metrics = computeWearableMetrics(input);
+
+    const resilience = new ResilienceLog();
+    let narrative: WearablesNarrative;
+    try {
+      narrative = await resilience.callModel('wearablesAnalysis', async model => requireOutput(
+        (await wearablesAnalysisPrompt({ ...input, computedMetrics: describeWearableMetrics(metrics) }, { model })).output,
+        'wearablesAnalysis'
+      ));
+    } catch (error) {
+      console.error('Wearables interpretation failed, using the local narrative:', error);
+      resilience.recordLocalFallback('wearablesAnalysis', error);
+      narrative = localWearablesNarrative(metrics);
+    }
+
+    return { ...assembleWearablesAnalysis(input, metrics, narrative), metadata: flowMetadata(['wearablesAnalysis'], resilience) };
   }
 );
 
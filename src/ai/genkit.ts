@@ -1,10 +1,16 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {mockModel, MOCK_MODEL_NAME} from '@/ai/plugins/mock-model';
+import {DEFAULT_MODEL, usingMockModel} from '@/ai/model-registry';
+
+// Set MITR_MODEL_PROVIDER=mock to run every flow offline against deterministic fixtures.
+// Per-prompt models are configured in model-registry.ts.
+const useMockModel = usingMockModel();
 
 // Create a performance-optimized AI client with better caching and timeout handling
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-1.5-flash', // Using a faster model for improved response time
+  plugins: useMockModel ? [mockModel()] : [googleAI()],
+  model: useMockModel ? MOCK_MODEL_NAME : DEFAULT_MODEL,
   defaultOptions: {
     maxRetries: 1, // Reduced from 2 to 1 for faster failure
     timeout: 12000, // Reduced from 15s to 12s for quicker timeout
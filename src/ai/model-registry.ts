@@ -0,0 +1,119 @@
+/**
+ * @fileOverview Model routing for every prompt
+ * Each prompt is mapped to a model, sampling settings and a fallback chain in one
+ * place, so models can be swapped, downgraded or A/B tested without editing flows.
+ *
+ * Routes can be overridden per environment with MITR_MODEL_ROUTES, a JSON object
+ * keyed by prompt name ("*" applies to every prompt), e.g.
+ *   MITR_MODEL_ROUTES='{"*":{"model":"googleai/gemini-1.5-flash"},"fastTherapist":{"temperature":0.4}}'
+ * With MITR_MODEL_PROVIDER=mock every route resolves to the local mock model.
+ */
+
+import { z } from 'zod';
+import { MOCK_MODEL_NAME } from '@/ai/plugins/mock-model';
+
+export type PromptName =
+  | 'therapeuticResponse'
+  | 'safetyAssessment'
+  | 'fastTherapist'
+  | 'contextAwareResponsePrompt'
+  | 'intentClassification'
+  | 'contextAnalysis'
+  | 'facialEmotionAnalysis'
+  | 'voiceEmotionAnalysis'
+  | 'textEmotionAnalysis'
+  | 'emotionRecommendations'
+  | 'summarizeConversation'
+  | 'wearablesAnalysis'
+  | 'avatarImage';
+
+export interface ModelRoute {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  fallbacks: string[]; // tried in order when the primary model fails
+}
+
+export const DEFAULT_MODEL = 'googleai/gemini-2.5-flash-preview-05-20';
+
+const DEFAULT_ROUTE: ModelRoute = {
+  model: DEFAULT_MODEL,
+  temperature: 0.7,
+  maxOutputTokens: 512,
+  fallbacks: ['googleai/gemini-1.5-flash'],
+};
+
+// Classification and analysis prompts run cooler than the conversational ones
+const PROMPT_ROUTES: Record<PromptName, Partial<ModelRoute>> = {
+  therapeuticResponse: { maxOutputTokens: 1024 },
+  safetyAssessment: { temperature: 0.1 },
+  fastTherapist: {},
+  contextAwareResponsePrompt: {},
+  intentClassification: { temperature: 0.1, maxOutputTokens: 256 },
+  contextAnalysis: { temperature: 0.3, maxOutputTokens: 2048 },
+  facialEmotionAnalysis: { temperature: 0.2 },
+  voiceEmotionAnalysis: { temperature: 0.2 },
+  textEmotionAnalysis: { temperature: 0.2 },
+  emotionRecommendations: { temperature: 0.5, maxOutputTokens: 256 },
+  summarizeConversation: { temperature: 0.3 },
+  wearablesAnalysis: { temperature: 0.3, maxOutputTokens: 2048 },
+  avatarImage: { model: 'googleai/gemini-2.0-flash-exp', maxOutputTokens: 8192, fallbacks: [] }, // must support image output
+};
+
+const RouteOverrideSchema = z.object({
+  model: z.string(),
+  temperature: z.number(),
+  maxOutputTokens: z.number().int().positive(),
+  fallbacks: z.array(z.string()),
+}).partial();
+
+const RouteOverridesSchema = z.record(RouteOverrideSchema);
+
+type RouteOverrides = z.infer<typeof RouteOverridesSchema>;
+
+let overrides: RouteOverrides | null = null;
+
+function loadOverrides(): RouteOverrides {
+  if (overrides) return overrides;
+  overrides = {};
+  const raw = process.env.MITR_MODEL_ROUTES;
+  if (!raw) return overrides;
+  try {
+    overrides = RouteOverridesSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error('Ignoring invalid MITR_MODEL_ROUTES:', error);
+  }
+  return overrides;
+}
+
+export function usingMockModel(): boolean {
+  return process.env.MITR_MODEL_PROVIDER === 'mock';
+}
+
+/**
+ * Resolves the route for a prompt: built-in defaults, then the "*" override,
+ * then the prompt's own override.
+ */
+export function resolveModelRoute(prompt: PromptName): ModelRoute {
+  const env = loadOverrides();
+  const route: ModelRoute = { ...DEFAULT_ROUTE, ...PROMPT_ROUTES[prompt], ...env['*'], ...env[prompt] };
+  return usingMockModel() ? { ...route, model: MOCK_MODEL_NAME, fallbacks: [] } : route;
+}
+
+/**
+ * Model and generation config for `ai.definePrompt` / `ai.generate`.
+ */
+export function promptModelOptions(prompt: PromptName) {
+  const route = resolveModelRoute(prompt);
+  return {
+    model: route.model,
+    config: { temperature: route.temperature, maxOutputTokens: route.maxOutputTokens },
+  };
+}
+
+/**
+ * Model chosen for each of the given prompts, for output metadata.
+ */
+export function routedModels(prompts: PromptName[]): Record<string, string> {
+  return Object.fromEntries(prompts.map(prompt => [prompt, resolveModelRoute(prompt).model]));
+}
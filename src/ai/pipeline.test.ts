@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { StageTracker } from './pipeline';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('StageTracker', () => {
+  it('records a stage that overruns its budget and aborts its signal', async () => {
+    const tracker = new StageTracker();
+    const sent: string[] = [];
+    let signal: AbortSignal | undefined;
+
+    const result = await tracker.run('response', 100, async settled => {
+      signal = settled;
+      for (const chunk of ['one', 'two', 'three']) {
+        await sleep(60);
+        if (!settled.aborted) sent.push(chunk);
+      }
+      return 'late';
+    });
+    await sleep(150);
+
+    expect(result).toBeNull();
+    expect(tracker.stages.response.status).toBe('timeout');
+    expect(tracker.partial).toBe(true);
+    expect(signal?.aborted).toBe(true);
+    expect(sent).toEqual(['one']);
+  });
+
+  it('returns the result of a stage within its budget', async () => {
+    const tracker = new StageTracker();
+    expect(await tracker.run('emotion', 100, async () => 'ok')).toBe('ok');
+    expect(tracker.stages.emotion.status).toBe('ok');
+  });
+
+  it('records failures and skipped stages', async () => {
+    const tracker = new StageTracker();
+    await tracker.run('context', 100, async () => { throw new Error('down'); });
+    tracker.skip('facial');
+
+    expect(tracker.stages).toMatchObject({ context: { status: 'error' }, facial: { status: 'skipped', latencyMs: 0 } });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @fileOverview Stage runner for multi-step flows
+ * Each stage runs under its own time budget and never rejects: a stage that fails
+ * or overruns resolves to null, and its status and latency are recorded so the
+ * flow can return partial results instead of failing or waiting on a slow model.
+ * Abandoned work keeps running, so each stage gets a signal that is aborted once
+ * the stage has settled; it must not stream or retry after that.
+ */
+
+export type StageStatus = 'ok' | 'timeout' | 'error' | 'skipped';
+
+export interface StageReport {
+  status: StageStatus;
+  latencyMs: number;
+}
+
+export class StageTimeoutError extends Error {
+  constructor(stage: string, budgetMs: number) {
+    super(`Stage "${stage}" exceeded its ${budgetMs}ms budget`);
+    this.name = 'StageTimeoutError';
+  }
+}
+
+/**
+ * Rejects with StageTimeoutError if the promise has not settled within the budget.
+ * The underlying work is not cancelled; its eventual result is ignored.
+ */
+export function withTimeout<T>(promise: Promise<T>, budgetMs: number, stage: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new StageTimeoutError(stage, budgetMs)), budgetMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class StageTracker {
+  private readonly reports: Record<string, StageReport> = {};
+  private readonly startedAt = Date.now();
+
+  /**
+   * Runs a stage under its budget. Resolves to null on failure or timeout, and
+   * aborts the signal passed to fn as soon as the stage settles either way.
+   */
+  async run<T>(stage: string, budgetMs: number, fn: (settled: AbortSignal) => Promise<T>): Promise<T | null> {
+    const start = Date.now();
+    const controller = new AbortController();
+    try {
+      const result = await withTimeout(fn(controller.signal), budgetMs, stage);
+      this.reports[stage] = { status: 'ok', latencyMs: Date.now() - start };
+      return result;
+    } catch (error) {
+      const timedOut = error instanceof StageTimeoutError;
+      this.reports[stage] = { status: timedOut ? 'timeout' : 'error', latencyMs: Date.now() - start };
+      if (timedOut) {
+        console.warn(error.message);
+      } else {
+        console.error(`Stage "${stage}" failed:`, error);
+      }
+      return null;
+    } finally {
+      controller.abort();
+    }
+  }
+
+  skip(stage: string): void {
+    this.reports[stage] = { status: 'skipped', latencyMs: 0 };
+  }
+
+  /**
+   * Copies reports from a nested pipeline under a prefix, e.g. "emotion.facial".
+   */
+  merge(prefix: string, reports: Record<string, StageReport>): void {
+    for (const [stage, report] of Object.entries(reports)) {
+      this.reports[`${prefix}.${stage}`] = report;
+    }
+  }
+
+  get stages(): Record<string, StageReport> {
+    return { ...this.reports };
+  }
+
+  /** True when any stage that was attempted failed or timed out. */
+  get partial(): boolean {
+    return Object.values(this.reports).some(report => report.status === 'timeout' || report.status === 'error');
+  }
+
+  get elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * @fileOverview Deterministic responses for the mock model
+ * Each prompt is recognised by its opening instruction and answered from local
+ * analysis of the user's message (sentiment analyzer, emotion fusion, safety gate,
+ * local responder),
+ * so the same request always produces the same reply. Any field a script does not
+ * fill is generated from the prompt's output schema, keeping every reply schema-valid.
+ */
+
+import { assessSafety } from '@/utils/safety-gate';
+import { analyzeTextLocally, defaultRecommendations, type FusionResult } from '@/utils/emotion-fusion';
+import { sentimentAnalyzer } from '@/utils/sentiment-analyzer';
+import { buildLocalResponse } from '@/utils/local-responder';
+
+type JsonSchema = Record<string, unknown>;
+type JsonObject = Record<string, unknown>;
+
+export interface FixtureRequest {
+  prompt: string; // text of every message in the request, joined
+  hasMedia: boolean;
+}
+
+interface ScriptedPrompt {
+  name: string;
+  matches: (prompt: string) => boolean;
+  respond: (request: FixtureRequest) => JsonObject;
+}
+
+// Quoted or sectioned user text, in the order the prompts use them
+const USER_MESSAGE_PATTERNS = [
+  /User Message: "([\s\S]*?)"\s*\n/,
+  /Current Message: "([\s\S]*?)"\s*\n/,
+  /Message: "([\s\S]*?)"\s*\n/,
+  /Text: "([\s\S]*?)"\s*\n/,
+  /Latest User Input:\n([\s\S]*?)\n\s*\n/,
+];
+
+/**
+ * Pulls the user's message out of a rendered prompt.
+ */
+export function extractUserMessage(prompt: string): string {
+  for (const pattern of USER_MESSAGE_PATTERNS) {
+    const match = prompt.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return '';
+}
+
+const INTENT_BY_EMOTION: Partial<Record<FusionResult['primary'], string>> = {
+  anxious: 'anxiety_management',
+  fearful: 'anxiety_management',
+  sad: 'depression_support',
+  lonely: 'depression_support',
+  overwhelmed: 'stress_management',
+  frustrated: 'problem_solving',
+  angry: 'relationship_issues',
+};
+
+function classifyIntent(message: string): string {
+  if (assessSafety(message).triggered) return 'crisis_intervention';
+  if (/\?\s*$/.test(message)) return 'information_seeking';
+  return INTENT_BY_EMOTION[analyzeTextLocally(message).primary] ?? 'emotional_support';
+}
+
+function safetyFields(message: string) {
+  const safety = assessSafety(message);
+  return {
+    riskLevel: safety.riskLevel,
+    concerns: safety.concerns,
+    actions: safety.actions,
+    followUp: safety.riskLevel !== 'low',
+  };
+}
+
+function textEmotionFields(message: string) {
+  const metrics = sentimentAnalyzer.analyzeText(message);
+  return {
+    primary: metrics.emotion.primary,
+    confidence: metrics.emotion.confidence,
+    emotions: { [metrics.emotion.primary]: metrics.emotion.confidence },
+    sentiment: (metrics.health.wellnessScore - 50) / 50,
+    intensity: metrics.emotion.distressLevel,
+  };
+}
+
+/**
+ * Folds the user's lines from a summarization request into a summary and memory.
+ */
+function summarizeTurns(prompt: string): JsonObject {
+  const section = prompt.split('New turns to incorporate:')[1]?.split('\n\nProvide:')[0] ?? '';
+  const userLines = section.split('\n')
+    .filter(line => line.startsWith('user: '))
+    .map(line => line.slice('user: '.length).trim())
+    .filter(Boolean);
+
+  const themes = Array.from(new Set(userLines.map(line => analyzeTextLocally(line).primary)))
+    .filter(primary => primary !== 'neutral')
+    .map(primary => `feeling ${primary}`);
+  const stressors = userLines.filter(line => analyzeTextLocally(line).distressLevel >= 0.5).slice(0, 3);
+
+  return {
+    summary: userLines.length
+      ? `The user talked about: ${userLines.map(line => line.replace(/[.!?]+$/, '')).join('; ')}.`
+      : 'No new user turns to summarize.',
+    memory: { themes, stressors, agreedActions: [] },
+  };
+}
+
+const SCRIPTED_PROMPTS: ScriptedPrompt[] = [
+  {
+    name: 'therapeuticResponse',
+    matches: prompt => prompt.includes('Generate a comprehensive therapeutic response'),
+    respond: ({ prompt }) => {
+      const message = extractUserMessage(prompt);
+      return {
+        response: buildLocalResponse(message),
+        safetyAssessment: safetyFields(message),
+        interventions: {
+          immediate: defaultRecommendations(analyzeTextLocally(message)).slice(0, 2),
+          session: ['Explore what has been weighing on you'],
+          longTerm: ['Build a routine of small restorative habits'],
+        },
+      };
+    },
+  },
+  {
+    name: 'fastTherapist',
+    matches: prompt => prompt.includes('a fast, direct, and helpful therapeutic AI companion'),
+    respond: ({ prompt }) => ({ response: buildLocalResponse(extractUserMessage(prompt)) }),
+  },
+  {
+    name: 'contextAwareResponsePrompt',
+    matches: prompt => prompt.includes('an empathetic and supportive AI therapist'),
+    respond: ({ prompt }) => ({ response: buildLocalResponse(extractUserMessage(prompt)) }),
+  },
+  {
+    name: 'safetyAssessment',
+    matches: prompt => prompt.includes('Assess safety and risk factors'),
+    respond: ({ prompt }) => {
+      const message = extractUserMessage(prompt);
+      return { ...safetyFields(message), urgentIntervention: assessSafety(message).triggered };
+    },
+  },
+  {
+    name: 'intentClassification',
+    matches: prompt => prompt.includes('Classify the therapeutic intent'),
+    respond: ({ prompt }) => ({
+      primary: classifyIntent(extractUserMessage(prompt)),
+      secondary: ['emotional_support'],
+      confidence: 0.6,
+    }),
+  },
+  {
+    name: 'contextAnalysis',
+    matches: prompt => prompt.includes('Analyze conversation context and provide therapeutic guidance'),
+    respond: ({ prompt }) => {
+      const message = extractUserMessage(prompt);
+      return {
+        therapeuticIntent: { primary: classifyIntent(message), secondary: [], confidence: 0.6 },
+        contextualFactors: {
+          emotionalState: analyzeTextLocally(message).primary,
+          urgencyLevel: assessSafety(message).riskLevel,
+          sessionPhase: 'exploration',
+          therapeuticAlliance: 50,
+        },
+      };
+    },
+  },
+  {
+    name: 'facialEmotionAnalysis',
+    matches: prompt => prompt.includes('Analyze the facial expression in this image'),
+    respond: () => ({
+      primary: 'neutral',
+      confidence: 0.6,
+      emotions: { neutral: 0.6, calm: 0.3 },
+      arousal: 0.4,
+      valence: 0.55,
+      engagement: 0.6,
+      attention: 0.7,
+    }),
+  },
+  {
+    name: 'voiceEmotionAnalysis',
+    matches: prompt => prompt.includes('Analyze voice emotional content'),
+    respond: () => ({
+      primary: 'neutral',
+      confidence: 0.5,
+      emotions: { neutral: 0.5, calm: 0.3 },
+      stress: 0.4,
+      energy: 0.5,
+    }),
+  },
+  {
+    name: 'textEmotionAnalysis',
+    matches: prompt => prompt.includes('Analyze the emotional content and sentiment of this text'),
+    respond: ({ prompt }) => textEmotionFields(extractUserMessage(prompt)),
+  },
+  {
+    name: 'emotionRecommendations',
+    matches: prompt => prompt.includes("The user's emotional state has already been assessed"),
+    respond: () => ({
+      recommendations: [
+        'Acknowledge how the user is feeling before offering suggestions',
+        'Offer a short grounding exercise',
+        'Ask an open question about what would help most right now',
+      ],
+    }),
+  },
+  {
+    name: 'summarizeConversation',
+    matches: prompt => prompt.includes('You maintain the memory of a therapeutic conversation'),
+    respond: ({ prompt }) => summarizeTurns(prompt),
+  },
+];
+
+/**
+ * Name of the scripted prompt that answers this request, if any.
+ */
+export function matchScriptedPrompt(prompt: string): string | undefined {
+  return SCRIPTED_PROMPTS.find(script => script.matches(prompt))?.name;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Subschemas that are not objects (e.g. `true`) carry no structure to generate from
+function asSchema(value: unknown): JsonSchema | undefined {
+  return isObject(value) ? value : undefined;
+}
+
+function schemaList(value: unknown): JsonSchema[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  return ref.replace(/^#\/?/, '').split('/').filter(Boolean)
+    .reduce<JsonSchema | undefined>((node, key) => asSchema(node?.[decodeURIComponent(key)]), root) ?? {};
+}
+
+function schemaType(schema: JsonSchema): string | undefined {
+  const type: unknown = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+  if (typeof type === 'string') return type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+/**
+ * Builds the same placeholder value for a JSON schema every time: enums take their
+ * first value, numbers the middle of their range, arrays a single item and
+ * open-ended records stay empty.
+ */
+export function fixtureFromSchema(schema: JsonSchema | undefined, key = 'value', root: JsonSchema = schema ?? {}): unknown {
+  if (!schema) return null;
+  if (typeof schema.$ref === 'string') return fixtureFromSchema(resolveRef(schema.$ref, root), key, root);
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length) return schema.enum[0];
+  const variants = schemaList(schema.anyOf ?? schema.oneOf);
+  if (variants.length) {
+    const variant = variants.find(v => v.type !== 'null') ?? variants[0];
+    return fixtureFromSchema(variant, key, root);
+  }
+  const parts = schemaList(schema.allOf);
+  if (parts.length) {
+    return Object.assign({}, ...parts.map(part => fixtureFromSchema(part, key, root)));
+  }
+
+  switch (schemaType(schema)) {
+    case 'object': {
+      const result: JsonObject = {};
+      for (const [name, property] of Object.entries(asSchema(schema.properties) ?? {})) {
+        result[name] = fixtureFromSchema(asSchema(property), name, root);
+      }
+      return result;
+    }
+    case 'array':
+      return [fixtureFromSchema(asSchema(schema.items), key, root)];
+    case 'number':
+    case 'integer': {
+      const min = numberOr(schema.minimum, numberOr(schema.exclusiveMinimum, 0));
+      const max = numberOr(schema.maximum, numberOr(schema.exclusiveMaximum, 1));
+      const mid = (min + max) / 2;
+      return schemaType(schema) === 'integer' ? Math.round(mid) : mid;
+    }
+    case 'boolean':
+      return false;
+    case 'string':
+      return `mock ${key}`;
+    default:
+      return null;
+  }
+}
+
+function mergeFixture(base: unknown, override: unknown): unknown {
+  if (!isObject(base) || !isObject(override)) return override === undefined ? base : override;
+  const merged: JsonObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeFixture(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Structured reply for a request: the scripted answer for a known prompt, layered
+ * over a schema-generated fixture so every required field is present.
+ */
+export function structuredFixture(request: FixtureRequest, schema?: JsonSchema): unknown {
+  const script = SCRIPTED_PROMPTS.find(candidate => candidate.matches(request.prompt));
+  const base = fixtureFromSchema(schema);
+  return script ? mergeFixture(base, script.respond(request)) : base;
+}
+
+/**
+ * Plain-text reply for requests without an output schema.
+ */
+export function textFixture(request: FixtureRequest): string {
+  return buildLocalResponse(extractUserMessage(request.prompt) || request.prompt);
+}
+
+// 1x1 transparent PNG, returned for image generation requests
+export const MOCK_IMAGE_DATA_URI =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
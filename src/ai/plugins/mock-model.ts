@@ -0,0 +1,69 @@
+/**
+ * @fileOverview Local Genkit model for offline development and tests
+ * Registers `mock/mitr`, which answers every prompt from deterministic fixtures
+ * (see mock-fixtures.ts) instead of calling a hosted model. Structured replies are
+ * streamed in small chunks so streaming flows behave as they do against a real model.
+ */
+
+import type { GenerateRequest, GenerateResponseData, Part } from 'genkit';
+import { genkitPlugin } from 'genkit/plugin';
+import { MOCK_IMAGE_DATA_URI, structuredFixture, textFixture, type FixtureRequest } from './mock-fixtures';
+
+export const MOCK_MODEL_NAME = 'mock/mitr';
+
+const STREAM_CHUNK_CHARS = 24;
+
+function toFixtureRequest(request: GenerateRequest): FixtureRequest {
+  const parts: Part[] = request.messages.flatMap(message => message.content);
+  return {
+    prompt: parts.map(part => part.text ?? '').join('\n'),
+    hasMedia: parts.some(part => !!part.media),
+  };
+}
+
+function wantsImage(request: GenerateRequest): boolean {
+  const modalities = (request.config as { responseModalities?: string[] } | undefined)?.responseModalities;
+  return !!modalities?.includes('IMAGE');
+}
+
+export function mockModel() {
+  return genkitPlugin('mock', async ai => {
+    ai.defineModel(
+      {
+        name: MOCK_MODEL_NAME,
+        label: 'Mitr mock model',
+        supports: {
+          multiturn: true,
+          media: true,
+          systemRole: true,
+          output: ['text', 'json'],
+          constrained: 'all',
+        },
+      },
+      async (request, streamingCallback): Promise<GenerateResponseData> => {
+        if (wantsImage(request)) {
+          return {
+            message: { role: 'model', content: [{ media: { url: MOCK_IMAGE_DATA_URI, contentType: 'image/png' } }] },
+            finishReason: 'stop',
+          };
+        }
+
+        const fixtureRequest = toFixtureRequest(request);
+        const text = request.output?.format === 'json' || request.output?.schema
+          ? JSON.stringify(structuredFixture(fixtureRequest, request.output?.schema))
+          : textFixture(fixtureRequest);
+
+        if (streamingCallback) {
+          for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+            streamingCallback({ index: 0, content: [{ text: text.slice(i, i + STREAM_CHUNK_CHARS) }] });
+          }
+        }
+
+        return {
+          message: { role: 'model', content: [{ text }] },
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
+}
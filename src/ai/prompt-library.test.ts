@@ -0,0 +1,31 @@
+import { readdirSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { PromptName } from '@/ai/model-registry';
+
+const SOURCE_PROMPTS = path.join(__dirname, 'prompts');
+const PROMPT_NAMES = readdirSync(SOURCE_PROMPTS)
+  .filter(entry => statSync(path.join(SOURCE_PROMPTS, entry)).isDirectory()) as PromptName[];
+
+const originalCwd = process.cwd();
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  vi.resetModules();
+});
+
+describe('prompt library', () => {
+  it('loads every template when started from another working directory', async () => {
+    process.chdir(tmpdir());
+    vi.resetModules();
+    const { PROMPTS_DIRECTORY, loadPromptTemplate } = await import('./prompt-library');
+
+    expect(PROMPTS_DIRECTORY).toBe(SOURCE_PROMPTS);
+    for (const name of PROMPT_NAMES) {
+      const prompt = loadPromptTemplate(name);
+      expect(prompt.template.length).toBeGreaterThan(0);
+      expect(prompt.version).toMatch(/^\d+$/);
+    }
+  });
+});
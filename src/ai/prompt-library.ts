@@ -0,0 +1,113 @@
+/**
+ * @fileOverview Versioned prompt templates
+ * Prompt wording lives in Dotprompt files under src/ai/prompts/<promptName>/v<version>.prompt
+ * so it can be reviewed and changed without touching the flows. Each file's
+ * frontmatter records its version, owner and changelog; the body is the Handlebars
+ * template passed to `ai.definePrompt`.
+ *
+ * The newest version of each prompt is used unless MITR_PROMPT_VERSIONS pins
+ * another, e.g. MITR_PROMPT_VERSIONS='{"therapeuticResponse":"1"}' to roll back.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ai } from '@/ai/genkit';
+import type { PromptName } from '@/ai/model-registry';
+
+/**
+ * Templates are found next to this module when it runs from source (tests, eval,
+ * Genkit dev server), whatever the working directory. Bundled by Next.js they are
+ * read from the app root instead; next.config.ts traces them into the server output.
+ */
+export const PROMPTS_DIRECTORY = [
+  path.join(__dirname, 'prompts'),
+  path.join(process.cwd(), 'src', 'ai', 'prompts'),
+].find(directory => existsSync(directory)) ?? path.join(process.cwd(), 'src', 'ai', 'prompts');
+
+const PromptFrontmatterSchema = z.object({
+  version: z.coerce.string(),
+  owner: z.string(),
+  changelog: z.array(z.object({
+    version: z.coerce.string(),
+    date: z.coerce.string(),
+    notes: z.string(),
+  })),
+});
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  owner: string;
+  changelog: z.infer<typeof PromptFrontmatterSchema>['changelog'];
+  template: string;
+}
+
+const loaded = new Map<PromptName, PromptTemplate>();
+let pins: Record<string, string> | null = null;
+
+function loadPins(): Record<string, string> {
+  if (pins) return pins;
+  pins = {};
+  const raw = process.env.MITR_PROMPT_VERSIONS;
+  if (!raw) return pins;
+  try {
+    pins = z.record(z.coerce.string()).parse(JSON.parse(raw));
+  } catch (error) {
+    console.error('Ignoring invalid MITR_PROMPT_VERSIONS:', error);
+  }
+  return pins;
+}
+
+/**
+ * Versions available for a prompt, oldest first.
+ */
+export function listPromptVersions(name: PromptName): string[] {
+  return readdirSync(path.join(PROMPTS_DIRECTORY, name))
+    .map(file => /^v(.+)\.prompt$/.exec(file)?.[1])
+    .filter((version): version is string => !!version)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Loads the pinned (or newest) version of a prompt. Throws when the prompt or the
+ * pinned version does not exist, so a bad pin fails at startup rather than mid-session.
+ */
+export function loadPromptTemplate(name: PromptName): PromptTemplate {
+  const cached = loaded.get(name);
+  if (cached) return cached;
+
+  const versions = listPromptVersions(name);
+  const version = loadPins()[name] ?? versions[versions.length - 1];
+  if (!version) {
+    throw new Error(`Prompt "${name}" has no versions in ${PROMPTS_DIRECTORY}`);
+  }
+  if (!versions.includes(version)) {
+    throw new Error(`Prompt "${name}" is pinned to version ${version}, which does not exist`);
+  }
+
+  const source = readFileSync(path.join(PROMPTS_DIRECTORY, name, `v${version}.prompt`), 'utf8');
+  const parsed = ai.registry.dotprompt.parse(source);
+  const frontmatter = PromptFrontmatterSchema.parse(parsed.raw);
+  if (frontmatter.version !== version) {
+    throw new Error(`Prompt file ${name}/v${version}.prompt declares version ${frontmatter.version}`);
+  }
+
+  const prompt: PromptTemplate = { name, ...frontmatter, template: parsed.template };
+  loaded.set(name, prompt);
+  return prompt;
+}
+
+/**
+ * Template text for `ai.definePrompt`.
+ */
+export function promptTemplate(name: PromptName): string {
+  return loadPromptTemplate(name).template;
+}
+
+/**
+ * Version in use for each of the given prompts, for output metadata.
+ */
+export function promptVersions(names: PromptName[]): Record<string, string> {
+  return Object.fromEntries(names.map(name => [name, loadPromptTemplate(name).version]));
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { ResilienceLog } from './resilience';
+
+describe('ResilienceLog', () => {
+  it('records local fallbacks', () => {
+    const log = new ResilienceLog();
+    log.recordLocalFallback('safetyAssessment', new Error('timeout'));
+
+    expect(log.degraded).toBe(true);
+    expect(log.models).toEqual({ safetyAssessment: 'local' });
+    expect(log.degradations).toEqual([{ prompt: 'safetyAssessment', fallback: 'local', reason: 'timeout' }]);
+  });
+
+  it('ignores calls that finish after it was frozen', async () => {
+    const log = new ResilienceLog();
+    let finish: (value: string) => void = () => {};
+    const late = log.callModel('therapeuticResponse', () => new Promise<string>(resolve => { finish = resolve; }));
+
+    log.freeze();
+    log.recordLocalFallback('therapeuticResponse', 'response stage timeout');
+    finish('reply');
+
+    expect(await late).toBe('reply');
+    expect(log.models).toEqual({});
+    expect(log.degraded).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileOverview Retry and fallback chain for model calls
+ * A prompt is retried with jittered backoff, then re-run on each fallback model
+ * from its route (see model-registry.ts). When the whole chain fails the caller
+ * falls back to local logic (rule-based responder, safety gate) and records it, so
+ * every degradation is reported in the flow's metadata.
+ */
+
+import { resolveModelRoute, type PromptName } from '@/ai/model-registry';
+
+export type FallbackKind = 'secondary_model' | 'local';
+
+export interface Degradation {
+  prompt: string; // a PromptName, possibly reported by a sub-flow
+  fallback: FallbackKind;
+  model?: string; // fallback model that answered, for secondary_model
+  reason: string;
+}
+
+export interface RetryOptions {
+  attempts: number; // per model, including the first call
+  baseDelayMs: number;
+  canRetry?: () => boolean; // e.g. false once streamed text has reached the client
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  attempts: 2,
+  baseDelayMs: 250,
+};
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs fn until it succeeds or the attempts run out, waiting a random
+ * ("full jitter") share of an exponentially growing delay between attempts.
+ */
+export async function withRetries<T>(fn: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < options.attempts; attempt++) {
+    if (attempt > 0) {
+      if (options.canRetry && !options.canRetry()) break;
+      await sleep(Math.random() * options.baseDelayMs * 2 ** (attempt - 1));
+    }
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Throws when a prompt returned no parsable output, so that it is retried like any other failure.
+ */
+export function requireOutput<T>(output: T | null | undefined, prompt: PromptName): T {
+  if (output == null) throw new Error(`Prompt "${prompt}" returned no output`);
+  return output;
+}
+
+export class ResilienceLog {
+  private readonly entries: Degradation[] = [];
+  private readonly used: Record<string, string> = {};
+  private frozen = false;
+
+  /**
+   * Calls a prompt on its primary model, then on each fallback model, retrying each.
+   * Rejects with the last error when the whole chain fails; the caller then falls
+   * back locally and reports it with recordLocalFallback.
+   */
+  async callModel<T>(
+    prompt: PromptName,
+    call: (model: string) => Promise<T>,
+    options: Partial<RetryOptions> = {}
+  ): Promise<T> {
+    const route = resolveModelRoute(prompt);
+    const retry = { ...DEFAULT_RETRY, ...options };
+    let lastError: unknown = new Error(`No model configured for "${prompt}"`);
+
+    for (const [index, model] of [route.model, ...route.fallbacks].entries()) {
+      if (index > 0 && retry.canRetry && !retry.canRetry()) break;
+      try {
+        const result = await withRetries(() => call(model), retry);
+        if (this.frozen) return result;
+        this.used[prompt] = model;
+        if (index > 0) {
+          this.entries.push({ prompt, fallback: 'secondary_model', model, reason: describeError(lastError) });
+        }
+        return result;
+      } catch (error) {
+        lastError = error;
+        console.warn(`Prompt "${prompt}" failed on ${model}:`, describeError(error));
+      }
+    }
+    throw lastError;
+  }
+
+  recordLocalFallback(prompt: PromptName, reason: unknown): void {
+    if (this.frozen) return;
+    this.used[prompt] = 'local';
+    this.entries.push({ prompt, fallback: 'local', reason: describeError(reason) });
+  }
+
+  /**
+   * Adopts the models and degradations a sub-flow reported in its metadata, so
+   * they also appear in the calling flow's metadata.
+   */
+  merge(metadata: { models: Record<string, string>; degradations: Degradation[] }): void {
+    if (this.frozen) return;
+    Object.assign(this.used, metadata.models);
+    this.entries.push(...metadata.degradations);
+  }
+
+  /**
+   * Stops recording, once the flow has reported its metadata. Calls from stages
+   * that were abandoned on timeout may still finish afterwards.
+   */
+  freeze(): void {
+    this.frozen = true;
+  }
+
+  get degradations(): Degradation[] {
+    return [...this.entries];
+  }
+
+  get degraded(): boolean {
+    return this.entries.length > 0;
+  }
+
+  /** Model that answered each prompt called so far ('local' when none did). */
+  get models(): Record<string, string> {
+    return { ...this.used };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Pluggable text embedders for MITR AI retrieval
+ * The local, deterministic hashing embedder works offline, in tests and in the
+ * browser; see genkit-embedder.ts for the hosted model.
+ */
+
+export interface Embedder {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'i', 'im', 'in', 'is', 'it', 'its', 'just', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this',
+  'to', 'was', 'we', 'were', 'with', 'you', 'your', 'am', 'do', 'did', 'very', 'really',
+]);
+
+// Crude suffix stripping so that "worried", "worrying" and "worries" share a feature
+function stem(word: string): string {
+  for (const suffix of ['ingly', 'ing', 'edly', 'ied', 'ies', 'ed', 'ly', 'es', 's']) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      return suffix === 'ied' || suffix === 'ies' ? `${word.slice(0, -3)}y` : word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’']/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// 32-bit FNV-1a
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Feature-hashing embedder over stemmed words, word bigrams and character trigrams.
+ * Fully deterministic and dependency-free, so retrieval works without network access.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(private readonly dimensions = 1024) {
+    this.name = `local-hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The top bit picks the sign so that collisions tend to cancel out
+      vector[h % this.dimensions] += (h & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    tokens.forEach((token, index) => {
+      add(`w:${token}`, 1);
+      if (index > 0) add(`b:${tokens[index - 1]}_${token}`, 0.5);
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
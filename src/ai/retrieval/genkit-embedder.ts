@@ -0,0 +1,38 @@
+/**
+ * @fileOverview Server-side embedder selection for MITR AI retrieval
+ */
+
+import { ai } from '@/ai/genkit';
+import { HashingEmbedder, type Embedder } from './embedder';
+
+/**
+ * Embedder backed by a Genkit embedding model (Google AI text-embedding-004 by default).
+ */
+export class GenkitEmbedder implements Embedder {
+  readonly name: string;
+
+  constructor(private readonly embedder = 'googleai/text-embedding-004') {
+    this.name = embedder;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const batch = await ai.embedMany({ embedder: this.embedder, content: texts });
+    return batch.map(item => item.embedding);
+  }
+}
+
+let defaultEmbedder: Embedder | null = null;
+
+/**
+ * Returns the configured embedder. Set MITR_EMBEDDER=googleai to use the hosted model;
+ * anything else (including unset) uses the local hashing embedder.
+ */
+export function getDefaultEmbedder(): Embedder {
+  if (!defaultEmbedder) {
+    defaultEmbedder = process.env.MITR_EMBEDDER === 'googleai'
+      ? new GenkitEmbedder(process.env.MITR_EMBEDDING_MODEL || undefined)
+      : new HashingEmbedder();
+  }
+  return defaultEmbedder;
+}
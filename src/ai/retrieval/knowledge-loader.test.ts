@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseKnowledgeJson } from './knowledge-loader';
+
+describe('parseKnowledgeJson', () => {
+  it('accepts an array or an entries object and fills in defaults', () => {
+    const entry = { topic: 'Box Breathing', content: 'Breathe in for four counts.', keywords: 'breathing' };
+
+    expect(parseKnowledgeJson(JSON.stringify([entry]), 'a.json')).toEqual([{
+      id: 'box-breathing',
+      topic: 'Box Breathing',
+      content: 'Breathe in for four counts.',
+      category: 'general',
+      keywords: [],
+      source: 'a.json',
+    }]);
+    expect(parseKnowledgeJson(JSON.stringify({ entries: [entry] }), 'b.json')).toHaveLength(1);
+  });
+
+  it('rejects files without entries and entries without a topic or content', () => {
+    expect(() => parseKnowledgeJson('{"topics": []}', 'c.json')).toThrow('c.json: expected an array of knowledge entries');
+    expect(() => parseKnowledgeJson('[{"topic": "Sleep"}]', 'd.json')).toThrow('d.json: entry 0 is missing a topic or content');
+  });
+});
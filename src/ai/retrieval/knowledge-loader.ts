@@ -0,0 +1,114 @@
+/**
+ * @fileOverview Loads therapeutic knowledge entries from JSON or Markdown files
+ *
+ * JSON files contain an array of entries (or `{ "entries": [...] }`).
+ * Markdown files contain one entry per `## Topic` heading, with optional
+ * `Category:` and `Keywords:` lines before the body text.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+export interface KnowledgeEntry {
+  id: string;
+  topic: string;
+  content: string;
+  category: string;
+  keywords: string[];
+  source: string;
+}
+
+const DEFAULT_CATEGORY = 'general';
+
+const KnowledgeFileSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ entries: z.array(z.unknown()) }).transform(file => file.entries),
+]);
+
+const KnowledgeJsonEntrySchema = z.object({
+  id: z.string().optional(),
+  topic: z.string(),
+  content: z.string(),
+  category: z.string().optional(),
+  keywords: z.array(z.string()).optional().catch(undefined),
+});
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function parseKnowledgeJson(text: string, source: string): KnowledgeEntry[] {
+  const file = KnowledgeFileSchema.safeParse(JSON.parse(text));
+  if (!file.success) {
+    throw new Error(`${source}: expected an array of knowledge entries`);
+  }
+
+  return file.data.map((raw, index) => {
+    const parsed = KnowledgeJsonEntrySchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`${source}: entry ${index} is missing a topic or content`);
+    }
+    const entry = parsed.data;
+    return {
+      id: entry.id ?? slugify(entry.topic),
+      topic: entry.topic,
+      content: entry.content,
+      category: entry.category ?? DEFAULT_CATEGORY,
+      keywords: entry.keywords ?? [],
+      source,
+    };
+  });
+}
+
+export function parseKnowledgeMarkdown(text: string, source: string): KnowledgeEntry[] {
+  const entries: KnowledgeEntry[] = [];
+  const sections = text.split(/^##\s+/m).slice(1);
+
+  for (const section of sections) {
+    const [heading, ...lines] = section.split('\n');
+    const topic = heading.trim();
+    let category = DEFAULT_CATEGORY;
+    let keywords: string[] = [];
+    const body: string[] = [];
+
+    for (const line of lines) {
+      const meta = /^(category|keywords):\s*(.+)$/i.exec(line.trim());
+      if (meta && body.length === 0) {
+        if (meta[1].toLowerCase() === 'category') {
+          category = meta[2].trim();
+        } else {
+          keywords = meta[2].split(',').map(keyword => keyword.trim()).filter(Boolean);
+        }
+      } else if (line.trim() || body.length > 0) {
+        body.push(line);
+      }
+    }
+
+    const content = body.join('\n').trim();
+    if (topic && content) {
+      entries.push({ id: slugify(topic), topic, content, category, keywords, source });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Reads every `.json` and `.md` file in a directory. Later files override earlier
+ * entries with the same id.
+ */
+export async function loadKnowledgeEntries(directory: string): Promise<KnowledgeEntry[]> {
+  const files = (await readdir(directory)).filter(file => /\.(json|md)$/i.test(file)).sort();
+  const byId = new Map<string, KnowledgeEntry>();
+
+  for (const file of files) {
+    const text = await readFile(path.join(directory, file), 'utf8');
+    const entries = file.toLowerCase().endsWith('.json')
+      ? parseKnowledgeJson(text, file)
+      : parseKnowledgeMarkdown(text, file);
+    entries.forEach(entry => byId.set(entry.id, entry));
+  }
+
+  return Array.from(byId.values());
+}
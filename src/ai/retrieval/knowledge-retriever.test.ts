@@ -0,0 +1,24 @@
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const SOURCE_KNOWLEDGE = path.join(__dirname, '..', '..', 'data', 'knowledge');
+
+const originalCwd = process.cwd();
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  vi.resetModules();
+});
+
+describe('knowledge retriever', () => {
+  it('loads the knowledge base when started from another working directory', async () => {
+    process.chdir(tmpdir());
+    vi.resetModules();
+    const { KNOWLEDGE_DIRECTORY } = await import('./knowledge-retriever');
+    const { loadKnowledgeEntries } = await import('./knowledge-loader');
+
+    expect(KNOWLEDGE_DIRECTORY).toBe(SOURCE_KNOWLEDGE);
+    expect((await loadKnowledgeEntries(KNOWLEDGE_DIRECTORY)).length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @fileOverview Embedding-based retrieval over the therapeutic knowledge base
+ */
+
+import { existsSync } from 'fs';
+import path from 'path';
+import type { Embedder } from './embedder';
+import { getDefaultEmbedder } from './genkit-embedder';
+import { loadKnowledgeEntries, type KnowledgeEntry } from './knowledge-loader';
+import { VectorIndex } from './vector-index';
+
+export interface KnowledgeMatch {
+  topic: string;
+  content: string;
+  category: string;
+  relevanceScore: number;
+}
+
+/**
+ * Found relative to this module when it runs from source, whatever the working
+ * directory; bundled by Next.js it is read from the app root, and next.config.ts
+ * traces it into the server output.
+ */
+export const KNOWLEDGE_DIRECTORY = [
+  path.join(__dirname, '..', '..', 'data', 'knowledge'),
+  path.join(process.cwd(), 'src', 'data', 'knowledge'),
+].find(directory => existsSync(directory)) ?? path.join(process.cwd(), 'src', 'data', 'knowledge');
+
+// Matches below this cosine similarity are treated as unrelated
+const DEFAULT_MIN_SCORE = 0.05;
+
+export class KnowledgeRetriever {
+  private index = new VectorIndex<KnowledgeEntry>();
+
+  constructor(private readonly embedder: Embedder) {}
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  async addEntries(entries: KnowledgeEntry[]): Promise<void> {
+    const vectors = await this.embedder.embed(
+      entries.map(entry => `${entry.topic}. ${entry.content} ${entry.keywords.join(' ')}`)
+    );
+    this.index.upsert(entries.map((entry, i) => ({ id: entry.id, vector: vectors[i], data: entry })));
+  }
+
+  async retrieve(query: string, k = 5, minScore = DEFAULT_MIN_SCORE): Promise<KnowledgeMatch[]> {
+    if (!query.trim() || this.index.size === 0) return [];
+    const [queryVector] = await this.embedder.embed([query]);
+    return this.index.search(queryVector, k, minScore).map(hit => ({
+      topic: hit.data.topic,
+      content: hit.data.content,
+      category: hit.data.category,
+      relevanceScore: Math.round(hit.score * 1000) / 1000,
+    }));
+  }
+}
+
+let defaultRetriever: Promise<KnowledgeRetriever> | null = null;
+
+/**
+ * Lazily builds the shared retriever from the knowledge directory on first use.
+ */
+export function getKnowledgeRetriever(): Promise<KnowledgeRetriever> {
+  if (!defaultRetriever) {
+    defaultRetriever = (async () => {
+      const retriever = new KnowledgeRetriever(getDefaultEmbedder());
+      await retriever.addEntries(await loadKnowledgeEntries(KNOWLEDGE_DIRECTORY));
+      return retriever;
+    })();
+    // Allow a later call to retry if loading failed
+    defaultRetriever.catch(() => { defaultRetriever = null; });
+  }
+  return defaultRetriever;
+}
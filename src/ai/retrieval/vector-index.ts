@@ -0,0 +1,67 @@
+/**
+ * @fileOverview In-process vector index with cosine top-k search
+ */
+
+export interface IndexedItem<T> {
+  id: string;
+  vector: number[];
+  data: T;
+}
+
+export interface SearchHit<T> {
+  id: string;
+  score: number; // cosine similarity, -1 to 1
+  data: T;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ (${a.length} vs ${b.length})`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export class VectorIndex<T> {
+  private items = new Map<string, IndexedItem<T>>();
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  /**
+   * Adds or replaces items by id.
+   */
+  upsert(items: IndexedItem<T>[]): void {
+    for (const item of items) {
+      this.items.set(item.id, item);
+    }
+  }
+
+  remove(id: string): void {
+    this.items.delete(id);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  /**
+   * Returns the k most similar items with a score of at least `minScore`, best first.
+   */
+  search(query: number[], k = 5, minScore = 0): SearchHit<T>[] {
+    const hits: SearchHit<T>[] = [];
+    Array.from(this.items.values()).forEach(item => {
+      const score = cosineSimilarity(query, item.vector);
+      if (score >= minScore) hits.push({ id: item.id, score, data: item.data });
+    });
+    return hits.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
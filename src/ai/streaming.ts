@@ -0,0 +1,33 @@
+/**
+ * @fileOverview Helpers for streaming structured prompt output to the client
+ */
+
+import type { GenerateResponseChunk } from 'genkit';
+
+export interface ResponseTextChunk {
+  text: string; // newly generated reply text, to be appended to what was already sent
+}
+
+interface StreamedPrompt<T> {
+  stream: AsyncIterable<GenerateResponseChunk>;
+  response: Promise<{ output: T | null }>;
+}
+
+/**
+ * Forwards the `response` field of a streaming structured prompt as text deltas
+ * while the JSON is still being generated, then resolves with the complete output.
+ */
+export async function pipeResponseText<T extends { response: string }>(
+  { stream, response }: StreamedPrompt<T>,
+  sendChunk: (chunk: ResponseTextChunk) => void
+): Promise<T | null> {
+  let sent = '';
+  for await (const chunk of stream) {
+    // Partial JSON is parsed leniently, so the field grows as tokens arrive
+    const partial = (chunk.output as Partial<T> | null)?.response;
+    if (typeof partial !== 'string' || partial.length <= sent.length || !partial.startsWith(sent)) continue;
+    sendChunk({ text: partial.slice(sent.length) });
+    sent = partial;
+  }
+  return (await response).output;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+
+async function frameDataUrl(): Promise<string> {
+  const png = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#808080' } }).png().toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+function frameRequest(image: string, forwardedFor: string): NextRequest {
+  return new NextRequest('http://localhost/api/facial-analysis', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': forwardedFor },
+    body: JSON.stringify({ image }),
+  });
+}
+
+describe('POST /api/facial-analysis', () => {
+  it('scores a frame', async () => {
+    const response = await POST(frameRequest(await frameDataUrl(), '203.0.113.1'));
+    const reading = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(typeof reading.emotion.primary).toBe('string');
+    expect(reading.facial.engagement).toBeGreaterThanOrEqual(0);
+  });
+
+  it('rejects bodies that are not image data URLs', async () => {
+    const response = await POST(frameRequest('data:text/plain;base64,aGk=', '203.0.113.2'));
+    expect(response.status).toBe(400);
+  });
+
+  it('rate limits on the trusted hop, not on client-supplied X-Forwarded-For entries', async () => {
+    const image = await frameDataUrl();
+    const statuses: number[] = [];
+    for (let i = 0; i < 21; i++) {
+      const response = await POST(frameRequest(image, `10.0.0.${i}, 198.51.100.7`));
+      statuses.push(response.status);
+    }
+
+    expect(statuses.slice(0, 20).every(status => status === 200)).toBe(true);
+    expect(statuses[20]).toBe(429);
+  });
+});
@@ -0,0 +1,120 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import sharp from 'sharp';
+import { z } from 'zod';
+import { analyzeFacialFrame } from '@/ai/flows/emotion-analysis';
+import type { FacialReading } from '@/utils/facial-expression';
+import { RateLimiter } from '@/utils/rate-limiter';
+
+// Scores one camera frame with the facial emotion model, for browsers that cannot
+// run the on-device analyzer (NEXT_PUBLIC_FACIAL_ANALYSIS_MODE=server)
+
+export const runtime = 'nodejs';
+
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+const MAX_INPUT_PIXELS = 4096 * 4096;
+// Frames are downscaled to this longer edge before they reach the model
+const FRAME_MAX_EDGE = 512;
+
+const DATA_URL_PATTERN = /^data:image\/(jpeg|png|webp);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+const FacialAnalysisRequestSchema = z.object({
+  image: z.string().max(Math.ceil(MAX_IMAGE_BYTES / 3) * 4 + 32),
+});
+
+// Frames per client per minute; the client sends one every NEXT_PUBLIC_FACIAL_ANALYSIS_INTERVAL_MS
+const limiter = new RateLimiter({
+  limit: Number(process.env.FACIAL_ANALYSIS_RATE_LIMIT) || 20,
+  windowMs: 60 * 1000,
+});
+
+// A header the hosting platform sets to the client address (e.g. cf-connecting-ip),
+// trusted over X-Forwarded-For when configured
+const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER?.toLowerCase();
+// Reverse proxies in front of the app that append to X-Forwarded-For. Without a
+// proxy Next.js fills the header with the socket address, which counts as one hop.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+
+/**
+ * The client address as seen by the outermost trusted proxy. X-Forwarded-For
+ * entries to its left come from the client itself and could be forged.
+ */
+function clientKey(request: NextRequest): string {
+  const platformAddress = CLIENT_IP_HEADER && request.headers.get(CLIENT_IP_HEADER)?.trim();
+  if (platformAddress) return platformAddress;
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || 'unknown';
+}
+
+function errorResponse(status: number, error: string, headers?: Record<string, string>) {
+  return NextResponse.json({ error, facial: null }, { status, headers });
+}
+
+export async function POST(request: NextRequest) {
+  const rateLimit = limiter.check(clientKey(request));
+  if (!rateLimit.allowed) {
+    return errorResponse(429, 'Too many frames, slow down', {
+      'Retry-After': String(Math.ceil(rateLimit.retryAfterMs / 1000)),
+    });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'Request body must be JSON');
+  }
+
+  const parsed = FacialAnalysisRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(parsed.error.issues.some(issue => issue.code === 'too_big') ? 413 : 400, 'Expected { image: <data URL> } of at most 4 MB');
+  }
+  const match = DATA_URL_PATTERN.exec(parsed.data.image);
+  if (!match) {
+    return errorResponse(400, 'image must be a base64 JPEG, PNG or WebP data URL');
+  }
+
+  let frame: Buffer;
+  try {
+    frame = await sharp(Buffer.from(match[2], 'base64'), { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(FRAME_MAX_EDGE, FRAME_MAX_EDGE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch {
+    return errorResponse(400, 'image could not be decoded');
+  }
+
+  const result = await analyzeFacialFrame(`data:image/jpeg;base64,${frame.toString('base64')}`)
+    .catch(error => {
+      console.error('Facial analysis failed:', error);
+      return undefined;
+    });
+  if (!result) {
+    return errorResponse(503, 'Facial analysis is unavailable right now');
+  }
+
+  const emotions = Object.fromEntries(
+    Object.entries(result.emotions).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+  );
+  // Prompt versions before 2 report neither engagement nor attention; arousal and confidence stand in
+  const reading: FacialReading = {
+    facial: {
+      emotions,
+      engagement: Math.round((result.engagement ?? result.arousal) * 100),
+      attention: Math.round((result.attention ?? result.confidence) * 100),
+      timestamp: new Date().toISOString(),
+    },
+    emotion: {
+      primary: result.primary,
+      confidence: result.confidence,
+      emotions,
+      arousal: result.arousal,
+      valence: result.valence,
+    },
+  };
+  return NextResponse.json(reading, { headers: { 'X-RateLimit-Remaining': String(rateLimit.remaining) } });
+}
@@ -0,0 +1,5 @@
+import { appRoute } from '@genkit-ai/next';
+import { fastMitrFlow } from '@/ai/flows/fast-mitr-ai';
+
+// Streams reply text chunks as they are generated, followed by the full structured result
+export const POST = appRoute(fastMitrFlow);
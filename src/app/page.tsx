@@ -5,7 +5,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { EnhancedChatInterface } from '@/components/mitr-ai/enhanced-chat-interface';
+import { EscalationHistory } from '@/components/mitr-ai/escalation-history';
 import { HealthDashboard } from '@/components/mitr-ai/health-dashboard';
+import { ProfileEditor } from '@/components/mitr-ai/profile-editor';
+import { QuestionnaireCheckIn } from '@/components/mitr-ai/questionnaire-check-in';
 import { 
   MessageCircle, 
   Heart, 
@@ -15,7 +18,9 @@ import {
   Sparkles,
   Mic,
   Camera,
-  Watch
+  Watch,
+  User,
+  ClipboardList
 } from 'lucide-react';
 
 export default function Home() {
@@ -69,7 +74,7 @@ export default function Home() {
 
         {/* Main Content */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-8">
+          <TabsList className="grid w-full grid-cols-4 mb-8">
             <TabsTrigger value="chat" className="flex items-center gap-2">
               <MessageCircle className="w-4 h-4" />
               Therapeutic Chat
@@ -78,6 +83,14 @@ export default function Home() {
               <Heart className="w-4 h-4" />
               Health Dashboard
             </TabsTrigger>
+            <TabsTrigger value="check-in" className="flex items-center gap-2">
+              <ClipboardList className="w-4 h-4" />
+              Mood Check-in
+            </TabsTrigger>
+            <TabsTrigger value="profile" className="flex items-center gap-2">
+              <User className="w-4 h-4" />
+              My Profile
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="chat" className="space-y-6">
@@ -233,6 +246,42 @@ export default function Home() {
               </Card>
             </div>
           </TabsContent>
+
+          <TabsContent value="check-in" className="space-y-6">
+            <Card className="bg-white/50 backdrop-blur-sm border-0 shadow-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardList className="w-5 h-5 text-teal-600" />
+                  Mood Check-in
+                </CardTitle>
+                <p className="text-muted-foreground">
+                  Take the PHQ-9, GAD-7 and WHO-5 every couple of weeks to follow your mood, anxiety
+                  and wellbeing over time.
+                </p>
+              </CardHeader>
+              <CardContent className="flex justify-center">
+                <QuestionnaireCheckIn />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="profile" className="space-y-6">
+            <Card className="bg-white/50 backdrop-blur-sm border-0 shadow-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <User className="w-5 h-5 text-purple-600" />
+                  Your Therapeutic Profile
+                </CardTitle>
+                <p className="text-muted-foreground">
+                  Share your goals, triggers and coping strategies so Mitr AI can tailor its support to you.
+                </p>
+              </CardHeader>
+              <CardContent className="flex flex-col items-center gap-4">
+                <ProfileEditor />
+                <EscalationHistory />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         {/* Footer */}
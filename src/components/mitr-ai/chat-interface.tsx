@@ -10,6 +10,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { SendHorizonal as SendIcon, User, Bot, Mic, MicOff } from 'lucide-react';
 import { contextAwareResponse, type ContextAwareResponseInput } from '@/ai/flows/context-aware-response';
 import { useToast } from '@/hooks/use-toast';
+import { formatTurns, selectContextWindow } from '@/utils/context-window';
 
 interface Message {
   id: string;
@@ -172,7 +173,11 @@ export function ChatInterface() {
     const relevantHistory = history.length === 1 && history[0].text === "Hello! I'm Mitr AI. How can I help you today?" 
       ? [] 
       : history;
-    return relevantHistory.map(msg => `${msg.speaker === 'user' ? 'User' : 'AI'}: ${msg.text}`).join('\n');
+    // Only the most recent turns that fit the token budget are sent
+    const { recent } = selectContextWindow(
+      relevantHistory.map(msg => ({ speaker: msg.speaker === 'user' ? 'User' : 'AI', message: msg.text }))
+    );
+    return formatTurns(recent);
   };
 
   const handleSendMessage = async () => {
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ChevronDown, ChevronUp, MessageSquare, Phone, Globe, Siren } from 'lucide-react';
+import {
+  FALLBACK_REGION,
+  getCrisisDirectory,
+  listCrisisRegions,
+  type CrisisResourceType,
+} from '@/utils/crisis-resources';
+
+export interface CrisisEscalation {
+  riskLevel: string;
+  concerns: string[];
+  timestamp: string;
+}
+
+interface CrisisEscalationCardProps {
+  escalation: CrisisEscalation;
+  region: string;
+  onRegionChange: (region: string) => void;
+}
+
+const getResourceIcon = (type: CrisisResourceType) => {
+  switch (type) {
+    case 'emergency': return <Siren className="w-4 h-4 text-red-600 flex-shrink-0" />;
+    case 'text': return <MessageSquare className="w-4 h-4 text-primary flex-shrink-0" />;
+    case 'web': return <Globe className="w-4 h-4 text-primary flex-shrink-0" />;
+    default: return <Phone className="w-4 h-4 text-primary flex-shrink-0" />;
+  }
+};
+
+/**
+ * Persistent card shown above the chat once a high or critical risk has been detected.
+ * It stays visible for the rest of the session and can only be collapsed, not dismissed.
+ */
+export function CrisisEscalationCard({ escalation, region, onRegionChange }: CrisisEscalationCardProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const directory = getCrisisDirectory(region);
+  const isCritical = escalation.riskLevel === 'critical';
+
+  return (
+    <Card
+      className={`w-full border-2 shadow-lg ${isCritical ? 'border-red-500 bg-red-50' : 'border-orange-400 bg-orange-50'}`}
+      role="alert"
+      aria-live="assertive"
+    >
+      <CardHeader className="p-3 pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <AlertTriangle className={`w-5 h-5 ${isCritical ? 'text-red-600' : 'text-orange-600'}`} />
+            You don&apos;t have to face this alone
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Badge className={isCritical ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}>
+              {escalation.riskLevel.toUpperCase()} RISK
+            </Badge>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setIsCollapsed(!isCollapsed)}
+              aria-label={isCollapsed ? 'Show crisis resources' : 'Hide crisis resources'}
+            >
+              {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {!isCollapsed && (
+        <CardContent className="p-3 pt-0 space-y-3">
+          <p className="text-sm">
+            If you are in immediate danger, call <span className="font-semibold">{directory.emergency}</span> now.
+            These services are free and confidential:
+          </p>
+          <ul className="space-y-2">
+            {directory.resources.map((resource) => (
+              <li key={`${resource.name}-${resource.contact}`} className="flex items-start gap-2 text-sm">
+                {getResourceIcon(resource.type)}
+                <div>
+                  <span className="font-medium">{resource.name}</span>
+                  <span className="text-muted-foreground"> — {resource.contact}</span>
+                  {resource.hours && <span className="text-xs text-muted-foreground"> ({resource.hours})</span>}
+                  {resource.description && <p className="text-xs text-muted-foreground">{resource.description}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Showing resources for</span>
+            <Select value={directory.region} onValueChange={onRegionChange}>
+              <SelectTrigger className="h-7 w-[180px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FALLBACK_REGION} className="text-xs">International</SelectItem>
+                {listCrisisRegions().map(({ region: code, name }) => (
+                  <SelectItem key={code} value={code} className="text-xs">{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { CartesianGrid, LabelList, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { Button } from '@/components/ui/button';
+import { TrendingUp } from 'lucide-react';
+import { buildEmotionTimeline, type EmotionTimelinePoint, type TimelineMessage } from '@/utils/emotion-timeline';
+
+type TimelineView = 'fused' | 'modalities';
+
+interface EmotionTimelineProps {
+  messages: TimelineMessage[];
+  onSelectMessage: (messageId: string) => void;
+}
+
+interface TimelineRow {
+  turn: number;
+  valence: number;
+  arousal: number;
+  distress: number | null;
+  facial: number | null;
+  voice: number | null;
+  text: number | null;
+  point: EmotionTimelinePoint;
+}
+
+const FUSED_CONFIG = {
+  valence: { label: 'Valence', color: 'hsl(var(--chart-2))' },
+  arousal: { label: 'Arousal', color: 'hsl(var(--chart-4))' },
+  distress: { label: 'Distress', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+// Valence of each modality on its own
+const MODALITY_CONFIG = {
+  facial: { label: 'Facial', color: 'hsl(var(--chart-3))' },
+  voice: { label: 'Voice', color: 'hsl(var(--chart-5))' },
+  text: { label: 'Text', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+// Primary emotions are written above the points only while they fit
+const MAX_LABELLED_TURNS = 8;
+
+const percent = (value: number | null | undefined) => (value === null || value === undefined ? null : Math.round(value * 100));
+
+function TimelineTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: TimelineRow }> }) {
+  const row = payload?.[0]?.payload;
+  if (!active || !row) return null;
+  const { point } = row;
+
+  return (
+    <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl space-y-1 max-w-[220px]">
+      <div className="font-medium">
+        Turn {point.turn}: {point.primary}
+      </div>
+      <div className="text-muted-foreground">
+        Valence {percent(point.valence)}% · Arousal {percent(point.arousal)}%
+        {point.distress !== null && ` · Distress ${percent(point.distress)}%`}
+      </div>
+      {Object.values(point.modalities).map(reading => reading && (
+        <div key={reading.modality} className="text-muted-foreground">
+          {MODALITY_CONFIG[reading.modality].label}: {reading.primary} ({percent(reading.weight)}% weight)
+        </div>
+      ))}
+      {point.escalation && (
+        <div className="text-destructive">
+          {point.escalation.riskLevel.toUpperCase()} risk escalation
+        </div>
+      )}
+      {point.interventions.length > 0 && (
+        <div className="text-green-700">Suggested: {point.interventions.join(', ')}</div>
+      )}
+      <div className="text-muted-foreground italic">Click to jump to the message</div>
+    </div>
+  );
+}
+
+export function EmotionTimeline({ messages, onSelectMessage }: EmotionTimelineProps) {
+  const [view, setView] = useState<TimelineView>('fused');
+  const points = useMemo(() => buildEmotionTimeline(messages), [messages]);
+  const hasModalities = points.some(point => Object.keys(point.modalities).length > 0);
+
+  const rows: TimelineRow[] = points.map(point => ({
+    turn: point.turn,
+    valence: percent(point.valence)!,
+    arousal: percent(point.arousal)!,
+    distress: percent(point.distress),
+    facial: percent(point.modalities.facial?.valence),
+    voice: percent(point.modalities.voice?.valence),
+    text: percent(point.modalities.text?.valence),
+    point,
+  }));
+
+  if (rows.length === 0) return null;
+  const activeView = hasModalities ? view : 'fused';
+  const config = activeView === 'fused' ? FUSED_CONFIG : MODALITY_CONFIG;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <TrendingUp className="w-4 h-4" />
+          Emotion Timeline
+        </h4>
+        {hasModalities && (
+          <div className="flex gap-1">
+            <Button
+              variant={activeView === 'fused' ? 'default' : 'outline'}
+              size="sm"
+              className="text-xs h-6 px-2"
+              onClick={() => setView('fused')}
+            >
+              Fused
+            </Button>
+            <Button
+              variant={activeView === 'modalities' ? 'default' : 'outline'}
+              size="sm"
+              className="text-xs h-6 px-2"
+              onClick={() => setView('modalities')}
+            >
+              By modality
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ChartContainer config={config} className="aspect-auto h-[180px] w-full">
+        <LineChart
+          data={rows}
+          margin={{ top: 16, right: 8, bottom: 0, left: -24 }}
+          onClick={state => {
+            const row = (state?.activePayload?.[0]?.payload as TimelineRow | undefined);
+            if (row) onSelectMessage(row.point.messageId);
+          }}
+          className="cursor-pointer"
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="turn" tickLine={false} axisLine={false} tickMargin={4} allowDecimals={false} />
+          <YAxis domain={[0, 100]} ticks={[0, 50, 100]} tickLine={false} axisLine={false} />
+          <ChartTooltip cursor={false} content={<TimelineTooltip />} />
+
+          {points.filter(point => point.escalation).map(point => (
+            <ReferenceLine key={`escalation-${point.turn}`} x={point.turn} stroke="hsl(var(--destructive))" strokeWidth={2} />
+          ))}
+          {points.filter(point => point.interventions.length > 0 && !point.escalation).map(point => (
+            <ReferenceLine key={`intervention-${point.turn}`} x={point.turn} stroke="#16a34a" strokeDasharray="3 3" />
+          ))}
+
+          {activeView === 'fused' ? (
+            <>
+              <Line dataKey="valence" stroke="var(--color-valence)" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false}>
+                {rows.length <= MAX_LABELLED_TURNS && (
+                  <LabelList
+                    position="top"
+                    offset={6}
+                    className="fill-muted-foreground"
+                    fontSize={9}
+                    valueAccessor={(entry: { payload: TimelineRow }) => entry.payload.point.primary}
+                  />
+                )}
+              </Line>
+              <Line dataKey="arousal" stroke="var(--color-arousal)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              <Line dataKey="distress" stroke="var(--color-distress)" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+            </>
+          ) : (
+            (Object.keys(MODALITY_CONFIG) as Array<keyof typeof MODALITY_CONFIG>).map(modality => (
+              <Line
+                key={modality}
+                dataKey={modality}
+                stroke={`var(--color-${modality})`}
+                strokeWidth={1.5}
+                dot={{ r: 2 }}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))
+          )}
+        </LineChart>
+      </ChartContainer>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-muted-foreground">
+        {Object.entries(config).map(([key, item]) => (
+          <span key={key} className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: item.color }} />
+            {activeView === 'modalities' ? `${item.label} valence` : item.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-0.5 bg-destructive" /> Escalation
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-0.5 bg-green-600" /> Intervention
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -28,13 +28,41 @@ import {
   Activity,
   AlertTriangle,
   CheckCircle,
-  Info
+  Info,
+  Zap,
+  Layers,
+  Play
 } from 'lucide-react';
-import { processFastMitrRequest, type FastMitrInput, type FastMitrOutput } from '@/ai/flows/fast-mitr-ai';
-import { captureImageFromVideo, extractAudioFeatures } from '@/utils/multimodal-helpers';
+import { streamFlow } from '@genkit-ai/next/client';
+import type { FastMitrInput, FastMitrOutput, fastMitrFlow } from '@/ai/flows/fast-mitr-ai';
+import type { ComprehensiveMitrInput, ComprehensiveMitrOutput, comprehensiveMitrFlow } from '@/ai/flows/comprehensive-mitr-ai';
+import { extractAudioFeatures } from '@/utils/multimodal-helpers';
+import { facialAnalyzer } from '@/utils/facial-analyzer';
 import { useToast } from '@/hooks/use-toast';
 import { clientCache } from '@/utils/client-cache';
 import { performanceMonitor } from '@/utils/performance-monitor';
+import { getCrisisDirectory, getPreferredRegion, setPreferredRegion } from '@/utils/crisis-resources';
+import { getSessionEscalation, logEscalation } from '@/utils/escalation-audit';
+import { maxRiskLevel } from '@/utils/safety-gate';
+import { getFlowAssessments } from '@/utils/questionnaire-store';
+import { getUserProfile, queueProfileSuggestions, subscribeToProfile, toFlowProfile, type UserProfile } from '@/utils/user-profile';
+import {
+  appendTurn,
+  createSession,
+  getActiveSessionId,
+  getSession,
+  getSessionTurns,
+  setActiveSessionId as storeActiveSessionId,
+} from '@/utils/chat-sessions';
+import { CrisisEscalationCard, type CrisisEscalation } from './crisis-escalation-card';
+import { SessionSidebar } from './session-sidebar';
+import { EmotionTimeline } from './emotion-timeline';
+import { ExercisePlayer } from './exercise-player';
+import { GUIDED_EXERCISES, isExerciseId, type ExerciseId } from '@/utils/guided-exercises';
+import { recallRelevantTurns } from '@/utils/conversation-recall';
+import { compactSessionMemory, getSessionContext, unsummarizedTurns, withPendingTurns } from '@/utils/conversation-memory';
+import { selectContextWindow } from '@/utils/context-window';
+import { getChatHealthContext, type ChatHealthContext } from '@/utils/health-baselines';
 
 // Use dynamic import for lazy loading the analysis panel
 const LazyAnalysisPanel = dynamic(
@@ -67,9 +95,19 @@ interface EnhancedMessage {
   timestamp: string;
   emotions?: Record<string, number>;
   intent?: string;
-  analysis?: FastMitrOutput;
+  analysis?: FastMitrOutput | ComprehensiveMitrOutput;
 }
 
+// Guided exercises the flow matched to this reply's immediate interventions
+const suggestedExercises = (msg: EnhancedMessage): ExerciseId[] =>
+  (msg.analysis?.interventions.exercises ?? []).filter(isExerciseId);
+
+type AnalysisMode = 'fast' | 'comprehensive';
+type DataSource = 'real' | 'estimated';
+type AnalysisSources = Record<'emotion' | 'health' | 'context' | 'safety', DataSource>;
+
+const ANALYSIS_MODE_KEY = 'mitr_ai_analysis_mode';
+
 interface HealthAlert {
   type: string;
   severity: string;
@@ -77,6 +115,8 @@ interface HealthAlert {
 }
 
 interface AnalysisData {
+  mode?: AnalysisMode;
+  sources?: AnalysisSources;
   emotion: {
     primary: string;
     confidence: number;
@@ -112,25 +152,122 @@ interface AnalysisData {
   };
 }
 
-const BACKEND_URL = 'http://localhost:5000';
+// Marks whether a panel section was computed from the user's data or is a placeholder
+function DataSourceBadge({ source }: { source?: DataSource }) {
+  if (!source) return null;
+  return (
+    <Badge
+      variant={source === 'real' ? 'secondary' : 'outline'}
+      className="ml-auto text-[10px] font-normal"
+      title={source === 'real' ? "Computed from your own data" : "Placeholder estimate, not measured from your data"}
+    >
+      {source === 'real' ? 'Real' : 'Estimated'}
+    </Badge>
+  );
+}
+
+const createGreeting = (): EnhancedMessage => ({
+  id: crypto.randomUUID(),
+  speaker: 'ai',
+  text: "Hello! I'm Mitr AI, your fast-responding therapeutic companion. How can I help you today?",
+  timestamp: new Date().toISOString(),
+});
 
 export function EnhancedChatInterface() {
   const [userInput, setUserInput] = useState('');
-  const [conversationHistory, setConversationHistory] = useState<EnhancedMessage[]>([
-    { 
-      id: crypto.randomUUID(), 
-      speaker: 'ai', 
-      text: "Hello! I'm Mitr AI, your fast-responding therapeutic companion. How can I help you today?",
-      timestamp: new Date().toISOString(),
-    }
-  ]);
+  const [conversationHistory, setConversationHistory] = useState<EnhancedMessage[]>(() => [createGreeting()]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentAnalysis, setCurrentAnalysis] = useState<AnalysisData | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [escalation, setEscalation] = useState<CrisisEscalation | null>(null);
+  const [region, setRegion] = useState<string>('INTL');
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('fast');
+
+  useEffect(() => {
+    setRegion(getPreferredRegion());
+    try {
+      if (localStorage.getItem(ANALYSIS_MODE_KEY) === 'comprehensive') setAnalysisMode('comprehensive');
+    } catch {
+      // Storage unavailable; keep the default mode
+    }
+  }, []);
+
+  const handleAnalysisModeChange = (mode: AnalysisMode) => {
+    setAnalysisMode(mode);
+    try {
+      localStorage.setItem(ANALYSIS_MODE_KEY, mode);
+    } catch (error) {
+      console.warn('Failed to store analysis mode:', error);
+    }
+  };
+
+  // Load a stored session into the chat, replacing the current conversation
+  const handleSelectSession = useCallback(async (id: string) => {
+    try {
+      const session = await getSession(id);
+      if (!session) {
+        storeActiveSessionId(null);
+        return;
+      }
+      const [turns, sessionEscalation] = await Promise.all([getSessionTurns(id), getSessionEscalation(id)]);
+      setConversationHistory([
+        createGreeting(),
+        ...turns.map(turn => ({
+          id: turn.id,
+          speaker: turn.speaker,
+          text: turn.text,
+          timestamp: turn.timestamp,
+          emotions: turn.emotions,
+          intent: turn.intent,
+        })),
+      ]);
+      setActiveSessionId(id);
+      storeActiveSessionId(id);
+      // Crisis resources shown earlier in the session stay visible when it is reopened
+      setEscalation(sessionEscalation);
+      setCurrentAnalysis(null);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load session', error);
+    }
+  }, []);
+
+  // The next session is only created once the user sends a message
+  const handleNewSession = useCallback(() => {
+    setConversationHistory([createGreeting()]);
+    setActiveSessionId(null);
+    storeActiveSessionId(null);
+    setEscalation(null);
+    setCurrentAnalysis(null);
+    setError(null);
+  }, []);
+
+  // Resume the last active session after a refresh
+  useEffect(() => {
+    const storedId = getActiveSessionId();
+    if (storedId) handleSelectSession(storedId);
+  }, [handleSelectSession]);
+
+  // Keep the confirmed profile in sync with edits made on the profile tab
+  useEffect(() => {
+    const loadProfile = () => { getUserProfile().then(setUserProfile); };
+    loadProfile();
+    return subscribeToProfile(loadProfile);
+  }, []);
+
+  const handleRegionChange = (newRegion: string) => {
+    setRegion(newRegion);
+    setPreferredRegion(newRegion);
+  };
+
   // Auto-update for metrics every 5 seconds
   useEffect(() => {
-    if (!currentAnalysis || !sentimentAnalyzer) return;
+    // Comprehensive results come from the full pipeline and must not be overwritten by keyword estimates
+    if (!currentAnalysis || !sentimentAnalyzer || currentAnalysis.mode === 'comprehensive') return;
 
     const interval = setInterval(() => {
       // Get latest user message for sentiment analysis each time interval runs
@@ -177,6 +314,8 @@ export function EnhancedChatInterface() {
   const [enableFacialAnalysis, setEnableFacialAnalysis] = useState(true);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [activeExercise, setActiveExercise] = useState<{ exerciseId: ExerciseId; messageId: string } | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const facialAnalysisIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
@@ -215,6 +354,9 @@ export function EnhancedChatInterface() {
   const [microphonePermission, setMicrophonePermission] = useState<'granted' | 'denied' | 'prompt'>('prompt');
   const speechTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const noSpeechTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // The latest dictation is recorded so the message it produced can be analysed acoustically
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordedAudioRef = useRef<Blob | null>(null);
 
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -380,6 +522,8 @@ export function EnhancedChatInterface() {
             });
           }
           
+          if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+
           // Reset for next session
           hasDetectedSpeech = false;
           setIsListening(false);
@@ -404,6 +548,9 @@ export function EnhancedChatInterface() {
 
     // Cleanup function
     return () => {
+      if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
       if (noSpeechTimeoutRef.current) {
         clearTimeout(noSpeechTimeoutRef.current);
         noSpeechTimeoutRef.current = null;
@@ -472,6 +619,7 @@ export function EnhancedChatInterface() {
           return;
         }
 
+        if (enableVoiceAnalysis) await startVoiceRecording();
         speechRecognitionRef.current.start();
         toast({
           title: "Listening",
@@ -479,6 +627,7 @@ export function EnhancedChatInterface() {
         });
       } catch (e) {
         console.error("Error starting speech recognition:", e);
+        if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
         toast({ 
           variant: "destructive", 
           title: "Microphone Error", 
@@ -489,11 +638,43 @@ export function EnhancedChatInterface() {
     }
   };
 
-  // Simplified multimodal data capture - ultra fast, no processing
-  const captureMultimodalData = useCallback(async (): Promise<Partial<FastMitrInput>> => {
-    // Only return the essential data for the fastest possible response
-    return {};
-  }, []);
+  // Records the microphone until speech recognition ends; without MediaRecorder or
+  // microphone access the message is sent without voice analysis
+  const startVoiceRecording = async () => {
+    if (typeof MediaRecorder === 'undefined' || mediaRecorderRef.current) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = event => chunks.push(event.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        recordedAudioRef.current = chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType }) : null;
+        mediaRecorderRef.current = null;
+      };
+      recorder.start();
+      mediaRecorderRef.current = recorder;
+    } catch (error) {
+      console.warn('Voice recording unavailable:', error);
+    }
+  };
+
+  // Acoustic features of the dictated message, decoded at the recording's own sample rate.
+  // The recording is used for one message only.
+  const captureMultimodalData = useCallback(async (): Promise<Pick<ComprehensiveMitrInput, 'audioFeatures'>> => {
+    const recording = recordedAudioRef.current;
+    recordedAudioRef.current = null;
+    if (!recording || !enableVoiceAnalysis) return {};
+
+    try {
+      if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+      const audio = await audioContextRef.current.decodeAudioData(await recording.arrayBuffer());
+      return { audioFeatures: extractAudioFeatures(audio.getChannelData(0).slice().buffer, audio.sampleRate) };
+    } catch (error) {
+      console.error('Failed to decode the recorded voice:', error);
+      return {};
+    }
+  }, [enableVoiceAnalysis]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -527,7 +708,15 @@ export function EnhancedChatInterface() {
       context: {
         ...(prev?.context || {}),
         alliance: sentimentMetrics.context.alliance
-      }
+      },
+      // Provisional text-only estimate until the flow's results arrive
+      mode: 'fast',
+      sources: {
+        emotion: 'real',
+        health: 'estimated',
+        context: 'estimated',
+        safety: prev?.sources?.safety ?? 'estimated',
+      },
     }));
 
     const newUserMessage: EnhancedMessage = { 
@@ -539,40 +728,120 @@ export function EnhancedChatInterface() {
     
     setConversationHistory(prev => [...prev, newUserMessage]);
     setUserInput('');
+
+    // Propose profile entries from the message; the user confirms them on the profile tab
+    queueProfileSuggestions(newUserMessage.text).then(suggestions => {
+      if (suggestions.length > 0) {
+        toast({
+          title: 'Profile suggestion',
+          description: `Review ${suggestions.length === 1 ? 'a suggested entry' : `${suggestions.length} suggested entries`} in My Profile.`,
+        });
+      }
+    });
     setIsLoading(true);
     setIsAnalyzing(true);
     setError(null);
 
+    // Saving the conversation is best-effort: without IndexedDB (private mode, full quota)
+    // the chat still works, it just is not kept
+    let sessionId = activeSessionId;
+    if (!sessionId) {
+      try {
+        sessionId = (await createSession()).id;
+        setActiveSessionId(sessionId);
+        storeActiveSessionId(sessionId);
+      } catch (error) {
+        console.error('Failed to create chat session, continuing without saving', error);
+      }
+    }
+    if (sessionId) {
+      await appendTurn({
+        id: newUserMessage.id,
+        sessionId,
+        speaker: 'user',
+        text: newUserMessage.text,
+        timestamp: newUserMessage.timestamp,
+      });
+    }
+
     try {
-      // Capture minimal data - we're going ultra-fast
+
+      // Voice features of a dictated message, for the comprehensive pipeline
       const multimodalData = await captureMultimodalData();
 
-      // Prepare fast minimal input
-      const fastInput: FastMitrInput = {
-        userMessage: newUserMessage.text,
-        conversationHistory: conversationHistory.map(msg => ({
+      // Recall similar earlier turns; the ones already in the prompt window are skipped
+      const relevantHistory = await recallRelevantTurns(newUserMessage.text, {
+        excludeIds: [...conversationHistory.slice(-6).map(msg => msg.id), newUserMessage.id],
+      });
+
+      // Older turns reach the model through the rolling summary; only the recent window is sent verbatim.
+      // Turns that have left the window but not yet been summarized ride along with the summary.
+      const { conversationSummary: rollingSummary, sessionMemory, summarizedThrough } = await getSessionContext(sessionId);
+      const { recent: recentHistory, older: pendingTurns } = selectContextWindow(
+        unsummarizedTurns(conversationHistory, summarizedThrough).map(msg => ({
           speaker: msg.speaker,
           message: msg.text,
           timestamp: msg.timestamp,
-        })),
+        }))
+      );
+      const conversationSummary = withPendingTurns(rollingSummary, pendingTurns);
+
+      // Recent imported wearable readings and how they compare with the user's own baselines
+      const { wearablesData, healthDeviations } = await getChatHealthContext().catch((error): ChatHealthContext => {
+        console.error('Failed to load wearable health context', error);
+        return {};
+      });
+
+      // Latest questionnaire scores; a recent PHQ-9 item 9 answer also informs the safety gate
+      const assessments = await getFlowAssessments();
+
+      // Prepare fast minimal input
+      const fastInput: FastMitrInput = {
+        userMessage: newUserMessage.text,
+        conversationHistory: recentHistory,
+        region,
+        userProfile: toFlowProfile(userProfile, assessments),
+        relevantHistory,
+        conversationSummary,
+        sessionMemory,
+        healthDeviations,
+      };
+
+      // Fast mode analyses the text locally; comprehensive mode runs the full multimodal pipeline
+      // Facial scores come from the camera analyzer, so no frame is attached to the message
+      const facialEmotions = enableFacialAnalysis ? facialAnalyzer.getSummary()?.emotion : undefined;
+      const comprehensiveInput: ComprehensiveMitrInput = {
+        ...fastInput,
+        ...multimodalData,
+        facialEmotions,
+        wearablesData,
+        sessionContext: { sessionId: sessionId ?? undefined },
       };
 
-      // Process with fast MITR AI
-      const aiOutput = await processFastMitrRequest(fastInput);
+      // Render the reply as it streams in
+      const { stream, output } = analysisMode === 'comprehensive'
+        ? streamFlow<typeof comprehensiveMitrFlow>({ url: '/api/mitr/comprehensive', input: comprehensiveInput })
+        : streamFlow<typeof fastMitrFlow>({ url: '/api/mitr/fast', input: fastInput });
+      for await (const chunk of stream) {
+        setStreamingText(prev => prev + chunk.text);
+      }
+      const aiOutput = await output;
 
-      // Update analysis state
-      setCurrentAnalysis({
+      // Update analysis state; the facial reading comes from the camera, not the reply
+      setCurrentAnalysis(prev => ({
+        mode: aiOutput.metadata.analysisMode,
+        sources: aiOutput.metadata.dataSources,
         emotion: {
           primary: aiOutput.emotionAnalysis.primary,
           confidence: aiOutput.emotionAnalysis.confidence,
           distressLevel: aiOutput.emotionAnalysis.distressLevel,
         },
-        health: {
+        health: aiOutput.healthAnalysis ? {
           wellnessScore: aiOutput.healthAnalysis.wellnessScore,
           stressLevel: aiOutput.healthAnalysis.stressLevel,
           alerts: aiOutput.healthAnalysis.alerts,
-        },
-        facial: undefined,
+        } : undefined,
+        facial: prev?.facial,
         voice: undefined,
         context: {
           intent: aiOutput.contextualInsights.therapeuticIntent,
@@ -583,7 +852,7 @@ export function EnhancedChatInterface() {
           riskLevel: aiOutput.safetyAssessment.riskLevel,
           concerns: aiOutput.safetyAssessment.concerns,
         },
-      });
+      }));
 
       // Create AI response message - simplified for speed
       const aiMessage: EnhancedMessage = { 
@@ -597,6 +866,37 @@ export function EnhancedChatInterface() {
       };
 
       setConversationHistory(prev => [...prev, aiMessage]);
+      if (sessionId) {
+        const savedSessionId = sessionId;
+        appendTurn({
+          id: aiMessage.id,
+          sessionId: savedSessionId,
+          speaker: 'ai',
+          text: aiMessage.text,
+          timestamp: aiMessage.timestamp,
+          emotions: aiMessage.emotions,
+          intent: aiMessage.intent,
+        }).then(() => compactSessionMemory(savedSessionId));
+      }
+
+      // Escalate high and critical risk: the card persists for the rest of the session
+      const { riskLevel, concerns, actions } = aiOutput.safetyAssessment;
+      if (riskLevel === 'high' || riskLevel === 'critical') {
+        setEscalation(prev => ({
+          riskLevel: maxRiskLevel(prev?.riskLevel, riskLevel),
+          concerns,
+          timestamp: aiMessage.timestamp,
+        }));
+        logEscalation({
+          riskLevel,
+          concerns,
+          actions,
+          region,
+          resourcesShown: getCrisisDirectory(region).resources.map(resource => resource.name),
+          messageId: newUserMessage.id,
+          sessionId: sessionId ?? undefined,
+        });
+      }
 
       // Only show critical alerts
       if (aiOutput.safetyAssessment.riskLevel === 'critical') {
@@ -608,7 +908,7 @@ export function EnhancedChatInterface() {
       }
 
     } catch (err) {
-      console.error("Error calling comprehensive MITR AI:", err);
+      console.error(`Error calling ${analysisMode} MITR AI:`, err);
       const errorMessageText = "Sorry, I couldn't process your message right now. Please try again later.";
       setError(errorMessageText);
       const errorMessage: EnhancedMessage = { 
@@ -621,9 +921,22 @@ export function EnhancedChatInterface() {
     } finally {
       setIsLoading(false);
       setIsAnalyzing(false);
+      setStreamingText('');
     }
   };
 
+  // Scrolls a message into view and briefly highlights it, e.g. from the emotion timeline
+  const jumpToMessage = useCallback((messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+  }, []);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   const handleSubmitForm = (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     handleSendMessage();
@@ -685,50 +998,34 @@ export function EnhancedChatInterface() {
     };
   }, [hasMounted, enableFacialAnalysis]);
 
-  // Facial analysis interval effect
+  // Facial analysis of the camera preview (on the device unless configured otherwise)
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    if (hasMounted && enableFacialAnalysis && cameraDiskRef.current) {
-      interval = setInterval(() => {
-        const video = cameraDiskRef.current;
-        if (video && video.readyState >= 2) {
-          // Capture image as base64
-          const canvas = document.createElement('canvas');
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-            const dataUrl = canvas.toDataURL('image/jpeg');
-            // Send to backend
-            fetch(`${BACKEND_URL}/api/facial-analysis`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ image: dataUrl })
-            })
-            .then(res => res.json())
-            .then(data => {
-              if (data && data.facial) {
-                setCurrentAnalysis(prev => ({
-                  ...(prev || {
-                    emotion: { primary: '', confidence: 0, distressLevel: 0 },
-                    health: { wellnessScore: 0, stressLevel: 0, alerts: [] },
-                    voice: undefined, // Or a default voice object if you have one
-                    context: { intent: '', urgency: '', alliance: 0 },
-                    safety: { riskLevel: '', concerns: [] }
-                  }),
-                  facial: data.facial
-                }));
-              }
-            });
-          }
-        }
-      }, 5000);
-    }
+    const video = cameraDiskRef.current;
+    if (!hasMounted || !enableFacialAnalysis || !video) return;
+
+    const unsubscribe = facialAnalyzer.subscribe(summary => {
+      setCurrentAnalysis(prev => ({
+        ...(prev || {
+          emotion: { primary: '', confidence: 0, distressLevel: 0 },
+          context: { intent: '', urgency: '', alliance: 0 },
+          safety: { riskLevel: '', concerns: [] }
+        }),
+        facial: summary?.facial,
+      }));
+    });
+    facialAnalyzer.start(video).catch(error => {
+      console.error('Facial analysis unavailable:', error);
+      toast({
+        title: "Facial analysis unavailable",
+        description: "The expression model could not be loaded in this browser.",
+      });
+    });
+
     return () => {
-      if (interval) clearInterval(interval);
+      unsubscribe();
+      facialAnalyzer.stop();
     };
-  }, [hasMounted, enableFacialAnalysis]);
+  }, [hasMounted, enableFacialAnalysis, toast]);
 
   // Add debounced analysis for typing
   useEffect(() => {
@@ -798,6 +1095,13 @@ export function EnhancedChatInterface() {
 
   return (
     <div className="w-full h-full flex flex-col lg:flex-row gap-4 p-4 max-w-7xl mx-auto">
+      {/* Session History */}
+      <SessionSidebar
+        activeSessionId={activeSessionId}
+        onSelectSession={handleSelectSession}
+        onNewSession={handleNewSession}
+      />
+
       {/* Main Chat Interface */}
       <Card className="flex-1 min-w-0 shadow-xl bg-card flex flex-col h-[500px] lg:h-[600px]">
         <CardHeader className="flex-shrink-0 p-4">
@@ -805,23 +1109,33 @@ export function EnhancedChatInterface() {
             Enhanced Mitr AI Conversation
           </CardTitle>
         </CardHeader>
+        {escalation && (
+          <div className="px-4 flex-shrink-0">
+            <CrisisEscalationCard
+              escalation={escalation}
+              region={region}
+              onRegionChange={handleRegionChange}
+            />
+          </div>
+        )}
         <CardContent className="flex-grow overflow-hidden p-4 relative">
           <ScrollArea className="h-full w-full pr-2">
             <div className="space-y-4">
               {conversationHistory.map((msg) => (
                 <div
                   key={msg.id}
+                  id={`message-${msg.id}`}
                   className={`flex items-end gap-2.5 animate-fadeIn ${
                     msg.speaker === 'user' ? 'justify-end' : 'justify-start'
                   }`}
                 >
                   {msg.speaker === 'ai' && <Bot className="w-6 h-6 text-primary flex-shrink-0 mb-1" aria-label="AI icon" />}
                   <div
-                    className={`p-3 rounded-xl max-w-[85%] lg:max-w-[80%] shadow ${
+                    className={`p-3 rounded-xl max-w-[85%] lg:max-w-[80%] shadow transition-shadow ${
                       msg.speaker === 'user'
                         ? 'bg-primary text-primary-foreground rounded-br-none'
                         : 'bg-accent text-accent-foreground rounded-bl-none'
-                    }`}
+                    } ${highlightedMessageId === msg.id ? 'ring-2 ring-offset-2 ring-ring' : ''}`}
                   >
                     <p className="text-sm leading-relaxed break-words">{msg.text}</p>
                     {msg.emotions && (
@@ -838,6 +1152,23 @@ export function EnhancedChatInterface() {
                         {msg.intent}
                       </Badge>
                     )}
+                    {suggestedExercises(msg).length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {suggestedExercises(msg).map(exerciseId => (
+                          <Button
+                            key={exerciseId}
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => setActiveExercise({ exerciseId, messageId: msg.id })}
+                          >
+                            <Play className="w-3 h-3 mr-1" />
+                            {GUIDED_EXERCISES[exerciseId].name}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   {msg.speaker === 'user' && <User className="w-6 h-6 text-muted-foreground flex-shrink-0 mb-1" aria-label="User icon" />}
                 </div>
@@ -846,9 +1177,13 @@ export function EnhancedChatInterface() {
                 <div className="flex items-end gap-2.5 justify-start animate-fadeIn">
                   <Bot className="w-6 h-6 text-primary flex-shrink-0 mb-1" />
                   <div className="p-3 rounded-xl bg-accent text-accent-foreground max-w-[85%] lg:max-w-[80%] shadow rounded-bl-none">
-                    <p className="text-sm italic">
-                      {isAnalyzing ? 'Processing your message...' : 'Mitr AI is thinking...'}
-                    </p>
+                    {streamingText ? (
+                      <p className="text-sm leading-relaxed break-words">{streamingText}</p>
+                    ) : (
+                      <p className="text-sm italic">
+                        {isAnalyzing ? 'Processing your message...' : 'Mitr AI is thinking...'}
+                      </p>
+                    )}
                   </div>
                 </div>
               )}
@@ -930,6 +1265,38 @@ export function EnhancedChatInterface() {
         <CardContent className="flex-grow overflow-hidden p-3">
           <ScrollArea className="h-full">
             <div className="space-y-3 pr-2">
+              {/* Analysis Mode */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Analysis Mode</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant={analysisMode === 'fast' ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleAnalysisModeChange('fast')}
+                    className="text-xs h-7"
+                    disabled={isLoading}
+                  >
+                    <Zap className="w-3 h-3 mr-1" />
+                    Fast
+                  </Button>
+                  <Button
+                    variant={analysisMode === 'comprehensive' ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleAnalysisModeChange('comprehensive')}
+                    className="text-xs h-7"
+                    disabled={isLoading}
+                  >
+                    <Layers className="w-3 h-3 mr-1" />
+                    Comprehensive
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {analysisMode === 'fast'
+                    ? 'Quick replies. Emotion and safety are analysed from your message text only.'
+                    : 'Slower replies. Runs the full emotion, context and safety pipeline, including the camera when enabled.'}
+                </p>
+              </div>
+
               {/* Analysis Toggles */}
               <div className="space-y-2">
                 <h4 className="text-sm font-medium">Analysis Features</h4>
@@ -981,6 +1348,7 @@ export function EnhancedChatInterface() {
                     <h4 className="text-sm font-medium flex items-center gap-2">
                       <Brain className="w-4 h-4" />
                       Emotional State
+                      <DataSourceBadge source={currentAnalysis.sources?.emotion} />
                     </h4>
                     <div className="space-y-2">
                       <div className="flex justify-between items-center">
@@ -1010,6 +1378,7 @@ export function EnhancedChatInterface() {
                       <h4 className="text-sm font-medium flex items-center gap-2">
                         <Heart className="w-4 h-4" />
                         Health Metrics
+                        <DataSourceBadge source={currentAnalysis.sources?.health} />
                       </h4>
                       <div className="space-y-2">
                         <div className="space-y-1">
@@ -1130,6 +1499,7 @@ export function EnhancedChatInterface() {
                     <h4 className="text-sm font-medium flex items-center gap-2">
                       <Activity className="w-4 h-4" />
                       Context
+                      <DataSourceBadge source={currentAnalysis.sources?.context} />
                     </h4>
                     <div className="space-y-2">
                       <div className="flex justify-between items-center">
@@ -1159,6 +1529,7 @@ export function EnhancedChatInterface() {
                         <AlertTriangle className="w-4 h-4 text-orange-600" />
                       )}
                       Safety
+                      <DataSourceBadge source={currentAnalysis.sources?.safety} />
                     </h4>
                     <div className="space-y-2">
                       <Badge className={getRiskLevelColor(currentAnalysis.safety.riskLevel)}>
@@ -1180,10 +1551,23 @@ export function EnhancedChatInterface() {
                   </div>
                 </>
               )}
+
+              {/* Emotion Timeline */}
+              <EmotionTimeline messages={conversationHistory} onSelectMessage={jumpToMessage} />
             </div>
           </ScrollArea>
         </CardContent>
       </Card>
+
+      {activeExercise && (
+        <ExercisePlayer
+          key={`${activeExercise.messageId}-${activeExercise.exerciseId}`}
+          exerciseId={activeExercise.exerciseId}
+          messageId={activeExercise.messageId}
+          sessionId={activeSessionId ?? undefined}
+          onClose={() => setActiveExercise(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Download, ShieldAlert } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  exportEscalations,
+  getEscalations,
+  subscribeToEscalations,
+  type EscalationAuditEntry,
+} from '@/utils/escalation-audit';
+
+const RISK_STYLES: Record<string, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+};
+
+const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * Lists the times crisis resources were shown, newest first, and exports the
+ * audit trail as a JSON file the user can share with a clinician.
+ */
+export function EscalationHistory() {
+  const [entries, setEntries] = useState<EscalationAuditEntry[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadEntries = () => {
+      getEscalations().then(setEntries);
+    };
+    loadEntries();
+    return subscribeToEscalations(loadEntries);
+  }, []);
+
+  const handleExport = async () => {
+    try {
+      const blob = new Blob([await exportEscalations()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `mitr-escalations-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export escalations', error);
+      toast({ variant: 'destructive', title: 'Safety history', description: 'Could not export the history. Please try again.' });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-3xl">
+      <CardHeader className="p-4 pb-2 flex flex-row items-start justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <ShieldAlert className="w-4 h-4 text-red-600" />
+            Safety history
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Each time crisis resources were shown to you, and why. Stored only in this browser.
+          </p>
+        </div>
+        <Button type="button" size="sm" variant="outline" onClick={handleExport} disabled={entries.length === 0}>
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-2">
+        {entries.length === 0 && (
+          <p className="text-xs text-muted-foreground italic">Crisis resources have not been shown.</p>
+        )}
+        {entries.map(entry => (
+          <div key={entry.id} className="rounded-md border p-2 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className={RISK_STYLES[entry.riskLevel] ?? 'bg-yellow-100 text-yellow-800'}>
+                {entry.riskLevel.toUpperCase()}
+              </Badge>
+              <span className="text-sm font-medium">{formatTimestamp(entry.timestamp)}</span>
+              <span className="text-xs text-muted-foreground">Region {entry.region}</span>
+            </div>
+            {entry.concerns.length > 0 && (
+              <p className="text-xs">{entry.concerns.join('; ')}</p>
+            )}
+            {entry.resourcesShown.length > 0 && (
+              <p className="text-xs text-muted-foreground">Resources shown: {entry.resourcesShown.join(', ')}</p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Pause, Play, SkipForward, Volume2, VolumeX } from 'lucide-react';
+import { speechSynthesis } from '@/utils/speech-synthesis';
+import { recordExerciseSession } from '@/utils/exercise-store';
+import {
+  GUIDED_EXERCISES,
+  exerciseDurationSeconds,
+  type ExerciseId,
+  type ExercisePhase,
+} from '@/utils/guided-exercises';
+
+type PlayerStage = 'before' | 'playing' | 'after' | 'done';
+
+interface ExercisePlayerProps {
+  exerciseId: ExerciseId;
+  onClose: () => void;
+  messageId?: string;
+  sessionId?: string;
+}
+
+// Size of the guide circle for each phase; holds keep the size of the phase before them
+const PHASE_SCALE: Record<Exclude<ExercisePhase, 'hold'>, number> = {
+  inhale: 1,
+  exhale: 0.5,
+  tense: 0.9,
+  release: 0.6,
+  neutral: 0.7,
+};
+
+const PHASE_COLOR: Record<ExercisePhase, string> = {
+  inhale: 'bg-blue-400',
+  hold: 'bg-indigo-400',
+  exhale: 'bg-teal-400',
+  tense: 'bg-orange-400',
+  release: 'bg-green-400',
+  neutral: 'bg-primary/60',
+};
+
+const DEFAULT_MOOD = 5;
+
+const voiceSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+function MoodRating({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">{label}</p>
+      <Slider min={0} max={10} step={1} value={[value]} onValueChange={([next]) => onChange(next)} aria-label={label} />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>0 · Very low</span>
+        <span className="font-semibold text-foreground">{value}</span>
+        <span>10 · Very good</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Plays a guided exercise step by step with a countdown and spoken prompts,
+ * asking for a mood rating before and after. Every session that gets past the
+ * first rating is recorded, including ones closed early.
+ */
+export function ExercisePlayer({ exerciseId, onClose, messageId, sessionId }: ExercisePlayerProps) {
+  const exercise = GUIDED_EXERCISES[exerciseId];
+  const { steps } = exercise;
+
+  const [stage, setStage] = useState<PlayerStage>('before');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [remaining, setRemaining] = useState(steps[0].durationSeconds);
+  const [paused, setPaused] = useState(false);
+  const [voiceEnabled, setVoiceEnabled] = useState(voiceSupported);
+  const [moodBefore, setMoodBefore] = useState<number | null>(null);
+  const [moodDraft, setMoodDraft] = useState(DEFAULT_MOOD);
+  const [moodAfter, setMoodAfter] = useState<number | null>(null);
+  const startedAtRef = useRef<string | null>(null);
+  const runIdRef = useRef(crypto.randomUUID());
+  const recordedRef = useRef(false);
+
+  const step = steps[stepIndex];
+
+  // Count down the current step while playing
+  useEffect(() => {
+    if (stage !== 'playing' || paused) return;
+    const timer = setInterval(() => setRemaining(seconds => seconds - 1), 1000);
+    return () => clearInterval(timer);
+  }, [stage, paused]);
+
+  // Move on when the step's time is up
+  useEffect(() => {
+    if (stage !== 'playing' || remaining > 0) return;
+    if (stepIndex + 1 < steps.length) {
+      setStepIndex(stepIndex + 1);
+      setRemaining(steps[stepIndex + 1].durationSeconds);
+    } else {
+      setStage('after');
+    }
+  }, [stage, remaining, stepIndex, steps]);
+
+  // Read each step's prompt aloud once
+  useEffect(() => {
+    if (stage !== 'playing' || paused || !voiceEnabled) return;
+    speechSynthesis.speak(steps[stepIndex].voicePrompt, `${runIdRef.current}-${stepIndex}`)
+      .catch(error => console.warn('Exercise voice prompt failed:', error));
+  }, [stage, paused, voiceEnabled, stepIndex, steps]);
+
+  // Stop speaking when the player closes
+  useEffect(() => () => {
+    if (voiceSupported()) speechSynthesis.stop();
+  }, []);
+
+  const record = (completed: boolean, after: number | null) => {
+    if (recordedRef.current || !startedAtRef.current) return;
+    recordedRef.current = true;
+    recordExerciseSession({
+      exerciseId,
+      startedAt: startedAtRef.current,
+      endedAt: new Date().toISOString(),
+      completed,
+      stepsCompleted: completed ? steps.length : stepIndex,
+      totalSteps: steps.length,
+      moodBefore,
+      moodAfter: after,
+      messageId,
+      sessionId,
+    });
+  };
+
+  const handleStart = (mood: number | null) => {
+    setMoodBefore(mood);
+    setMoodDraft(mood ?? DEFAULT_MOOD);
+    startedAtRef.current = new Date().toISOString();
+    setStage('playing');
+  };
+
+  const handleFinish = (mood: number | null) => {
+    setMoodAfter(mood);
+    record(true, mood);
+    setStage('done');
+  };
+
+  const handleClose = () => {
+    record(stage === 'after' || stage === 'done', moodAfter);
+    onClose();
+  };
+
+  const handleSkipStep = () => {
+    if (voiceSupported()) speechSynthesis.stop();
+    setRemaining(0);
+  };
+
+  const togglePause = () => {
+    if (!paused && voiceSupported()) speechSynthesis.stop();
+    setPaused(!paused);
+  };
+
+  const toggleVoice = () => {
+    if (voiceEnabled) speechSynthesis.stop();
+    setVoiceEnabled(!voiceEnabled);
+  };
+
+  const lastSizedPhase = steps.slice(0, stepIndex + 1).reverse().find(candidate => candidate.phase !== 'hold')?.phase;
+  const scale = PHASE_SCALE[lastSizedPhase && lastSizedPhase !== 'hold' ? lastSizedPhase : 'neutral'];
+  const totalSeconds = exerciseDurationSeconds(exercise);
+  const elapsedSeconds = steps.slice(0, stepIndex).reduce((total, done) => total + done.durationSeconds, 0)
+    + step.durationSeconds - Math.max(0, remaining);
+
+  return (
+    <Dialog open onOpenChange={open => { if (!open) handleClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{exercise.name}</DialogTitle>
+          <DialogDescription>
+            {exercise.description} About {Math.round(totalSeconds / 60) || 1} min.
+          </DialogDescription>
+        </DialogHeader>
+
+        {stage === 'before' && (
+          <div className="space-y-6">
+            <MoodRating label="How are you feeling right now?" value={moodDraft} onChange={setMoodDraft} />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => handleStart(null)}>Skip rating</Button>
+              <Button onClick={() => handleStart(moodDraft)}>
+                <Play className="w-4 h-4 mr-2" />
+                Start
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {stage === 'playing' && (
+          <div className="space-y-6">
+            <div className="flex h-48 items-center justify-center" aria-hidden="true">
+              <div
+                className={`h-40 w-40 rounded-full opacity-80 transition-transform ease-in-out ${PHASE_COLOR[step.phase]}`}
+                style={{ transform: `scale(${scale})`, transitionDuration: `${step.durationSeconds}s` }}
+              />
+            </div>
+            <div className="text-center space-y-1" aria-live="polite">
+              <p className="text-lg font-medium">{step.instruction}</p>
+              <p className="text-3xl font-bold tabular-nums">{Math.max(0, remaining)}</p>
+            </div>
+            <Progress value={(elapsedSeconds / totalSeconds) * 100} />
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" size="icon" onClick={togglePause} aria-label={paused ? 'Resume' : 'Pause'}>
+                {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+              </Button>
+              <Button variant="outline" size="icon" onClick={handleSkipStep} aria-label="Next step">
+                <SkipForward className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={toggleVoice}
+                disabled={!voiceSupported()}
+                aria-label={voiceEnabled ? 'Mute voice guidance' : 'Turn on voice guidance'}
+              >
+                {voiceEnabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {stage === 'after' && (
+          <div className="space-y-6">
+            <p className="text-sm text-muted-foreground">Well done for taking this time for yourself.</p>
+            <MoodRating label="How are you feeling now?" value={moodDraft} onChange={setMoodDraft} />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => handleFinish(null)}>Skip rating</Button>
+              <Button onClick={() => handleFinish(moodDraft)}>Finish</Button>
+            </div>
+          </div>
+        )}
+
+        {stage === 'done' && (
+          <div className="space-y-4">
+            {moodBefore !== null && moodAfter !== null ? (
+              <p className="text-sm">
+                Your mood went from <span className="font-semibold">{moodBefore}</span> to{' '}
+                <span className="font-semibold">{moodAfter}</span>.
+                {moodAfter > moodBefore && ' It sounds like this helped.'}
+                {moodAfter <= moodBefore && ' Not every exercise helps every time, and that is okay.'}
+              </p>
+            ) : (
+              <p className="text-sm">Exercise complete.</p>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={handleClose}>Back to the conversation</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,10 +18,20 @@ import {
   Zap,
   Target,
   Clock,
-  BarChart3
+  BarChart3,
+  Upload,
+  ClipboardList
 } from 'lucide-react';
 import { generateMockWearablesData } from '@/utils/multimodal-helpers';
 import type { WearablesDataInput } from '@/ai/flows/wearables-analysis';
+import type { WearableSource } from '@/utils/wearable-timeseries';
+import { getLatestWearablesSnapshot, saveWearableSamples, subscribeToWearableData } from '@/utils/wearable-store';
+import { loadHealthBaselineReport, MIN_BASELINE_DAYS, type BaselineMetric, type HealthAnomaly, type HealthBaselineReport } from '@/utils/health-baselines';
+import { importWearableFile, WEARABLE_IMPORT_ACCEPT, WEARABLE_SOURCE_LABELS } from '@/utils/wearable-importers';
+import { computeWearableMetrics, statusForScore, type WearableMetrics } from '@/utils/wearable-metrics';
+import { getQuestionnaireResults, subscribeToQuestionnaireResults } from '@/utils/questionnaire-store';
+import { QUESTIONNAIRES, QUESTIONNAIRE_IDS, type QuestionnaireResult } from '@/utils/questionnaires';
+import { CONCERN_STYLES } from './questionnaire-check-in';
 
 // Interface definitions (HealthMetrics, HealthAlert)
 interface HealthMetrics {
@@ -51,15 +61,14 @@ interface HealthMetrics {
     goal: number;
   };
   stress: {
-    level: number;
+    level?: number;
     trend: 'increasing' | 'decreasing' | 'stable';
-    recovery: number;
+    recovery?: number;
   };
   wellness: {
-    score: number;
-    energy: number;
-    mood: number;
-    readiness: number;
+    score?: number;
+    energy?: number;
+    readiness?: number;
   };
 }
 
@@ -72,6 +81,11 @@ interface HealthAlert {
   priority: 'low' | 'medium' | 'high' | 'critical';
 }
 
+// Where the figures on screen come from: the newest imported day, or generated demo values
+type DataSource =
+  | { kind: 'imported'; source?: WearableSource; asOf: string }
+  | { kind: 'demo' };
+
 // Helper Functions (defined only once at the top level of the module)
 const getScoreColor = (score: number | undefined) => {
   if (score === undefined) return 'text-gray-400';
@@ -108,6 +122,13 @@ const getSleepStageColor = (stage: keyof HealthMetrics['sleep']) => {
   }
 };
 
+const BASELINE_ANOMALY_ADVICE: Record<BaselineMetric, string> = {
+  resting_heart_rate: 'A sustained rise can follow illness, poor sleep, alcohol or stress; go easy today',
+  hrv: 'Lower HRV often means your body is under strain; prioritise rest and recovery',
+  sleep_duration: 'Shorter sleep than usual; protect your next night if you can',
+  stress: 'More stress than usual; a short breathing exercise or walk can help',
+};
+
 const getAlertBorderColor = (type: HealthAlert['type']) => {
   switch (type) {
     case 'error': return 'border-red-500';
@@ -197,24 +218,22 @@ export function HealthDashboard() {
   const [alerts, setAlerts] = useState<HealthAlert[]>([]);
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<string>('');
+  const [dataSource, setDataSource] = useState<DataSource>({ kind: 'demo' });
+  const [baselineReport, setBaselineReport] = useState<HealthBaselineReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importStatus, setImportStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [questionnaireResults, setQuestionnaireResults] = useState<QuestionnaireResult[]>([]);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Generate comprehensive health metrics from wearables data
-  const generateHealthMetrics = (wearablesData: WearablesDataInput): HealthMetrics => {
+  // Generate comprehensive health metrics from wearables data; scores come from the shared engine
+  const generateHealthMetrics = (wearablesData: WearablesDataInput, scores: WearableMetrics): HealthMetrics => {
     const heartRateZones = {
       fat_burn: Math.round((wearablesData.heartRate?.current || 70) * 0.6),
       cardio: Math.round((wearablesData.heartRate?.current || 70) * 0.7),
       peak: Math.round((wearablesData.heartRate?.current || 70) * 0.85),
     };
 
-    const getQualityString = (quality?: number): 'poor' | 'fair' | 'good' | 'excellent' => {
-      if (!quality) return 'fair';
-      if (quality >= 80) return 'excellent';
-      if (quality >= 60) return 'good';
-      if (quality >= 40) return 'fair';
-      return 'poor';
-    };
-
     const getStressTrend = (level?: number): 'increasing' | 'decreasing' | 'stable' => {
       if (!level) return 'stable';
       if (level > 70) return 'increasing';
@@ -235,7 +254,7 @@ export function HealthDashboard() {
         remSleep: parseFloat((wearablesData.sleep?.remSleep || 1.5).toFixed(1)),
         lightSleep: parseFloat(((wearablesData.sleep?.duration || 7) - (wearablesData.sleep?.deepSleep || 1.5) - (wearablesData.sleep?.remSleep || 1.5)).toFixed(1)),
         efficiency: parseFloat((wearablesData.sleep?.efficiency || 85).toFixed(1)),
-        quality: getQualityString(wearablesData.sleep?.quality),
+        quality: scores.sleep ? statusForScore(scores.sleep.score) : 'fair',
       },
       activity: {
         steps: Math.round(wearablesData.activity?.steps || 8000),
@@ -245,23 +264,38 @@ export function HealthDashboard() {
         goal: 10000,
       },
       stress: {
-        level: parseFloat((wearablesData.stress?.level || 30).toFixed(1)),
-        trend: getStressTrend(wearablesData.stress?.level),
-        recovery: parseFloat(Math.max(0, 100 - (wearablesData.stress?.level || 30)).toFixed(1)),
+        level: scores.stress?.score,
+        trend: getStressTrend(scores.stress?.score),
+        recovery: scores.recovery?.readiness,
       },
       wellness: {
-        score: parseFloat(((100 - (wearablesData.stress?.level || 30) + (wearablesData.sleep?.efficiency || 85)) / 2).toFixed(1)),
-        energy: parseFloat(((100 - (wearablesData.stress?.level || 30) * 0.8)).toFixed(1)),
-        mood: parseFloat((85 + Math.random() * 15).toFixed(1)),
-        readiness: parseFloat((((wearablesData.sleep?.efficiency || 85) + (100 - (wearablesData.stress?.level || 30))) / 2).toFixed(1)),
+        score: scores.wellnessScore ?? undefined,
+        energy: scores.sleep?.score,
+        readiness: scores.recovery?.readiness,
       },
     };
   };
 
-  // Generate health alerts based on metrics
-  const generateHealthAlerts = (metrics: HealthMetrics): HealthAlert[] => {
-    const alerts: HealthAlert[] = [];
+  // Generate health alerts: deviations from the personal baseline, then the engine's
+  // threshold alerts, then dashboard hints
+  const generateHealthAlerts = (metrics: HealthMetrics, scores: WearableMetrics, anomalies: HealthAnomaly[]): HealthAlert[] => {
     const now = new Date().toISOString();
+    const anomalyAlerts: HealthAlert[] = anomalies.map(anomaly => ({
+      id: crypto.randomUUID(),
+      type: anomaly.severity === 'high' ? 'error' : 'warning',
+      title: anomaly.message,
+      message: BASELINE_ANOMALY_ADVICE[anomaly.metric],
+      timestamp: now,
+      priority: anomaly.severity,
+    }));
+    const alerts: HealthAlert[] = anomalyAlerts.concat(scores.alerts.map(alert => ({
+      id: crypto.randomUUID(),
+      type: alert.severity === 'critical' || alert.severity === 'high' ? 'error' : 'warning',
+      title: alert.message,
+      message: alert.action,
+      timestamp: now,
+      priority: alert.severity,
+    })));
 
     // Heart rate alerts
     if (metrics.heartRate.current > metrics.heartRate.max * 0.9) {
@@ -310,20 +344,8 @@ export function HealthDashboard() {
       });
     }
 
-    // Stress alerts
-    if (metrics.stress.level > 80) {
-      alerts.push({
-        id: crypto.randomUUID(),
-        type: 'warning',
-        title: 'High Stress Level',
-        message: 'Consider stress management techniques',
-        timestamp: now,
-        priority: 'high',
-      });
-    }
-
     // Wellness alerts
-    if (metrics.wellness.score < 60) {
+    if (metrics.wellness.score !== undefined && metrics.wellness.score < 60) {
       alerts.push({
         id: crypto.randomUUID(),
         type: 'warning',
@@ -337,17 +359,64 @@ export function HealthDashboard() {
     return alerts;
   };
 
+  // Load the most recent imported day, falling back to demo values until something is imported
+  const loadWearablesData = async (): Promise<{ data: WearablesDataInput; source: DataSource; baselines: HealthBaselineReport | null }> => {
+    try {
+      const snapshot = await getLatestWearablesSnapshot();
+      if (snapshot) {
+        return {
+          data: snapshot.data,
+          source: { kind: 'imported', source: snapshot.data.deviceType as WearableSource | undefined, asOf: snapshot.asOf },
+          baselines: await loadHealthBaselineReport(),
+        };
+      }
+    } catch (error) {
+      console.error('Failed to load imported wearable data', error);
+    }
+    return { data: generateMockWearablesData(), source: { kind: 'demo' }, baselines: null };
+  };
+
   // Update health data
-  const updateHealthData = () => {
-    const wearablesData = generateMockWearablesData();
-    const metrics = generateHealthMetrics(wearablesData);
-    const newAlerts = generateHealthAlerts(metrics);
+  const updateHealthData = async () => {
+    const { data: wearablesData, source, baselines } = await loadWearablesData();
+    const restingBaseline = baselines?.metrics.find(metric => metric.metric === 'resting_heart_rate')?.days30?.mean;
+    const scores = computeWearableMetrics(wearablesData, { restingHeartRate: restingBaseline });
+    const metrics = generateHealthMetrics(wearablesData, scores);
+    const newAlerts = generateHealthAlerts(metrics, scores, baselines?.anomalies ?? []);
     
     setHealthData(metrics);
     setAlerts(newAlerts);
+    setBaselineReport(baselines);
+    setDataSource(source);
     setLastUpdate(new Date().toLocaleTimeString());
   };
 
+  // Parse the chosen export files and store their samples; the store notifies the dashboard
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    setImportStatus(null);
+    const imported: string[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const { format, samples } = await importWearableFile(file);
+        await saveWearableSamples(samples);
+        imported.push(`${samples.length.toLocaleString()} samples from ${WEARABLE_SOURCE_LABELS[format]} (${file.name})`);
+      } catch (error) {
+        console.error('Failed to import wearable export', error);
+        failed.push(error instanceof Error ? error.message : `${file.name} could not be read`);
+      }
+    }
+    setIsImporting(false);
+    setImportStatus(failed.length
+      ? { type: 'error', message: [...imported.map(line => `Imported ${line}.`), ...failed].join(' ') }
+      : { type: 'success', message: `Imported ${imported.join(', ')}.` });
+  };
+
   // Toggle monitoring
   const toggleMonitoring = () => {
     if (isMonitoring) {
@@ -372,21 +441,57 @@ export function HealthDashboard() {
     };
   }, []);
 
-  // Initial data load
+  // Initial data load, and reload whenever an import changes the stored data
   useEffect(() => {
     updateHealthData();
+    return subscribeToWearableData(() => {
+      updateHealthData();
+    });
+  }, []);
+
+  // Self-report scores sit alongside the wearable data
+  useEffect(() => {
+    const loadResults = () => {
+      getQuestionnaireResults()
+        .then(setQuestionnaireResults)
+        .catch(error => console.error('Failed to load questionnaire results', error));
+    };
+    loadResults();
+    return subscribeToQuestionnaireResults(loadResults);
   }, []);
 
+  const importControls = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={WEARABLE_IMPORT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={handleImport}
+      />
+      <Button onClick={() => fileInputRef.current?.click()} variant="outline" disabled={isImporting} className="shadow-md">
+        <Upload className="mr-2 h-4 w-4" />
+        {isImporting ? 'Importing…' : 'Import Data'}
+      </Button>
+    </>
+  );
+
+  const sourceDescription = dataSource.kind === 'imported'
+    ? `Imported${dataSource.source ? ` from ${WEARABLE_SOURCE_LABELS[dataSource.source]}` : ''} · 24 hours to ${new Date(dataSource.asOf).toLocaleString()}`
+    : 'Showing demo data. Import an Apple Health, Google Fit, Health Connect, Fitbit or Garmin export to see your own.';
+
   if (!healthData && !isMonitoring) {
     return (
       <div className="p-4 md:p-6 space-y-6 bg-slate-50 min-h-screen flex flex-col">
         <div className="flex flex-col md:flex-row justify-between items-center gap-4">
           <div>
             <h1 className="text-3xl font-bold text-gray-800">Health Dashboard</h1>
-            <p className="text-sm text-gray-500">Real-time monitoring of your health and wellness metrics</p>
+            <p className="text-sm text-gray-500">{sourceDescription}</p>
           </div>
           <div className="flex items-center gap-4">
             {lastUpdate && <p className="text-xs text-gray-400">Last updated: {lastUpdate}</p>}
+            {importControls}
             <Button onClick={toggleMonitoring} variant={isMonitoring ? "destructive" : "default"} className="shadow-md">
               <Clock className="mr-2 h-4 w-4" />
               {isMonitoring ? 'Stop Monitoring' : 'Start Monitoring'}
@@ -406,10 +511,11 @@ export function HealthDashboard() {
       <div className="flex flex-col md:flex-row justify-between items-center gap-4">
         <div>
           <h1 className="text-3xl font-bold text-gray-800">Health Dashboard</h1>
-          <p className="text-sm text-gray-500">Real-time monitoring of your health and wellness metrics</p>
+          <p className="text-sm text-gray-500">{sourceDescription}</p>
         </div>
         <div className="flex items-center gap-4">
           {lastUpdate && <p className="text-xs text-gray-400">Last updated: {lastUpdate}</p>}
+          {importControls}
           <Button onClick={toggleMonitoring} variant={isMonitoring ? "destructive" : "default"} className="shadow-md">
             <Clock className="mr-2 h-4 w-4" />
             {isMonitoring ? 'Stop Monitoring' : 'Start Monitoring'}
@@ -417,6 +523,12 @@ export function HealthDashboard() {
         </div>
       </div>
 
+      {importStatus && (
+        <Alert variant={importStatus.type === 'error' ? 'destructive' : 'default'}>
+          <AlertDescription>{importStatus.message}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Top Metrics Row */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
         <MetricCard title="Wellness Score" value={healthData?.wellness?.score} icon={Target} unit="" trend={healthData?.stress?.trend} />
@@ -527,6 +639,85 @@ export function HealthDashboard() {
         </Card>
       ) : <CardSkeleton fullWidth />}
 
+      {/* Personal Baselines Card */}
+      {baselineReport && (
+        <Card className="shadow-lg rounded-xl overflow-hidden">
+          <CardHeader className="bg-gradient-to-br from-slate-600 to-slate-800 text-white p-5">
+            <CardTitle className="flex items-center text-xl">
+              <TrendingUp className="mr-3 h-7 w-7" />
+              Your Baselines
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-5 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
+            {baselineReport.metrics.map(metric => (
+              <div key={metric.metric} className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-500">{metric.label}</p>
+                <p className="text-2xl font-bold text-gray-800">
+                  {metric.latest ? metric.latest.value : '-'} <span className="text-base font-normal text-gray-500">{metric.unit}</span>
+                </p>
+                {metric.days30 ? (
+                  <>
+                    <p className="text-xs text-gray-500 mt-1">
+                      14-day {metric.days14 ? metric.days14.mean.toFixed(1) : '-'} · 30-day {metric.days30.mean.toFixed(1)} ± {metric.days30.sd.toFixed(1)}
+                    </p>
+                    {metric.zScore !== null && (
+                      <Badge variant="secondary" className="mt-2 text-xs">
+                        {metric.zScore > 0 ? '+' : ''}{metric.zScore}σ vs your baseline
+                      </Badge>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-xs text-gray-400 mt-1">Baseline after {MIN_BASELINE_DAYS} days of data</p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Self-Report Questionnaires Card */}
+      {questionnaireResults.length > 0 && (
+        <Card className="shadow-lg rounded-xl overflow-hidden">
+          <CardHeader className="bg-gradient-to-br from-teal-500 to-cyan-600 text-white p-5">
+            <CardTitle className="flex items-center text-xl">
+              <ClipboardList className="mr-3 h-7 w-7" />
+              Self-Report Scores
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-5 grid grid-cols-1 md:grid-cols-3 gap-5">
+            {QUESTIONNAIRE_IDS.map(id => {
+              const definition = QUESTIONNAIRES[id];
+              const history = questionnaireResults.filter(result => result.questionnaireId === id);
+              const latest = history[history.length - 1];
+              const previous = history[history.length - 2];
+              if (!latest) return null;
+              const change = previous ? latest.score - previous.score : 0;
+              const improved = definition.higherIsBetter ? change > 0 : change < 0;
+
+              return (
+                <div key={id} className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm font-medium text-gray-500">{definition.shortName} · {definition.measures}</p>
+                  <p className="text-2xl font-bold text-gray-800">
+                    {latest.score} <span className="text-base font-normal text-gray-500">/ {definition.maxScore}</span>
+                  </p>
+                  <Badge className={`mt-1 text-xs ${CONCERN_STYLES[latest.concern]}`}>{latest.severity}</Badge>
+                  <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+                    {change !== 0 && (
+                      improved
+                        ? <TrendingUp className="h-3 w-3 text-green-600" />
+                        : <TrendingDown className="h-3 w-3 text-red-600" />
+                    )}
+                    {previous
+                      ? `${change > 0 ? '+' : ''}${change} since ${new Date(previous.completedAt).toLocaleDateString()}`
+                      : `Taken ${new Date(latest.completedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Alerts Section */}
       {alerts.length > 0 && (
         <div className="space-y-3">
@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent, type ReactNode } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Lightbulb, Plus, Target, X, Zap, Shield } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PROFILE_FIELD_LABELS,
+  acceptProfileSuggestion,
+  createEmptyProfile,
+  dismissProfileSuggestion,
+  getProfileSuggestions,
+  getUserProfile,
+  saveUserProfile,
+  subscribeToProfile,
+  type ProfileField,
+  type ProfileSuggestion,
+  type UserProfile,
+} from '@/utils/user-profile';
+
+const FIELD_DETAILS: Record<ProfileField, { icon: ReactNode; placeholder: string; description: string }> = {
+  therapeuticGoals: {
+    icon: <Target className="w-4 h-4 text-blue-600" />,
+    placeholder: 'e.g. sleep better',
+    description: 'What you would like to work towards.',
+  },
+  triggers: {
+    icon: <Zap className="w-4 h-4 text-orange-600" />,
+    placeholder: 'e.g. crowded places',
+    description: 'Situations that tend to make you feel worse.',
+  },
+  copingStrategies: {
+    icon: <Shield className="w-4 h-4 text-green-600" />,
+    placeholder: 'e.g. going for a walk',
+    description: 'Things that help you feel better.',
+  },
+};
+
+const FIELDS = Object.keys(FIELD_DETAILS) as ProfileField[];
+
+interface ProfileListEditorProps {
+  field: ProfileField;
+  items: string[];
+  onChange: (items: string[]) => void;
+}
+
+function ProfileListEditor({ field, items, onChange }: ProfileListEditorProps) {
+  const [draft, setDraft] = useState('');
+  const details = FIELD_DETAILS[field];
+
+  const handleAdd = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onChange([...items, draft.trim()]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h3 className="text-sm font-semibold flex items-center gap-2">
+          {details.icon}
+          {PROFILE_FIELD_LABELS[field]}
+        </h3>
+        <p className="text-xs text-muted-foreground">{details.description}</p>
+      </div>
+      <div className="flex flex-wrap gap-2 min-h-[28px]">
+        {items.length === 0 && <span className="text-xs text-muted-foreground italic">Nothing added yet</span>}
+        {items.map(item => (
+          <Badge key={item} variant="secondary" className="flex items-center gap-1 pr-1">
+            {item}
+            <button
+              type="button"
+              onClick={() => onChange(items.filter(existing => existing !== item))}
+              className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+              aria-label={`Remove ${item}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={details.placeholder}
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={!draft.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+/**
+ * Lets the user review and edit the profile that is sent with every chat request,
+ * and confirm or dismiss entries suggested from their conversations.
+ */
+export function ProfileEditor() {
+  const [profile, setProfile] = useState<UserProfile>(createEmptyProfile());
+  const [suggestions, setSuggestions] = useState<ProfileSuggestion[]>([]);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    const [storedProfile, pending] = await Promise.all([getUserProfile(), getProfileSuggestions()]);
+    setProfile(storedProfile);
+    setSuggestions(pending);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToProfile(refresh);
+  }, [refresh]);
+
+  const handleFieldChange = async (field: ProfileField, items: string[]) => {
+    try {
+      setProfile(await saveUserProfile({ ...profile, [field]: items }));
+    } catch (error) {
+      console.error('Failed to save profile', error);
+      toast({ variant: 'destructive', title: 'Profile', description: 'Could not save your profile. Please try again.' });
+    }
+  };
+
+  const handleAccept = async (suggestion: ProfileSuggestion) => {
+    try {
+      await acceptProfileSuggestion(suggestion);
+    } catch (error) {
+      console.error('Failed to accept profile suggestion', error);
+    }
+  };
+
+  const handleDismiss = async (suggestion: ProfileSuggestion) => {
+    try {
+      await dismissProfileSuggestion(suggestion.id);
+    } catch (error) {
+      console.error('Failed to dismiss profile suggestion', error);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl space-y-4">
+      {suggestions.length > 0 && (
+        <Card className="border-blue-200 bg-blue-50/60">
+          <CardHeader className="p-4 pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Lightbulb className="w-4 h-4 text-blue-600" />
+              Suggested from your conversations
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Nothing is added to your profile until you confirm it.
+            </p>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 space-y-2">
+            {suggestions.map(suggestion => (
+              <div key={suggestion.id} className="flex items-center justify-between gap-2 rounded-md bg-white p-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{PROFILE_FIELD_LABELS[suggestion.field]}</Badge>
+                    <span className="text-sm font-medium">{suggestion.value}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">&ldquo;{suggestion.sourceMessage}&rdquo;</p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleAccept(suggestion)} aria-label="Add to profile">
+                    <Check className="w-4 h-4 text-green-600" />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDismiss(suggestion)} aria-label="Dismiss suggestion">
+                    <X className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-4 space-y-6">
+          {FIELDS.map(field => (
+            <ProfileListEditor
+              key={field}
+              field={field}
+              items={profile[field]}
+              onChange={(items) => handleFieldChange(field, items)}
+            />
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Your profile is stored only in this browser and is shared with Mitr AI to personalise its responses.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
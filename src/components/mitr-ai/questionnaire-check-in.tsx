@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ClipboardList, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getCrisisDirectory, getPreferredRegion, setPreferredRegion } from '@/utils/crisis-resources';
+import { logEscalation } from '@/utils/escalation-audit';
+import { assessSafety, maxRiskLevel } from '@/utils/safety-gate';
+import {
+  getQuestionnaireResults,
+  saveQuestionnaireResult,
+  subscribeToQuestionnaireResults,
+} from '@/utils/questionnaire-store';
+import {
+  QUESTIONNAIRES,
+  QUESTIONNAIRE_IDS,
+  isCurrentResult,
+  selfHarmResponse,
+  type QuestionnaireConcern,
+  type QuestionnaireId,
+  type QuestionnaireResult,
+} from '@/utils/questionnaires';
+import { CrisisEscalationCard, type CrisisEscalation } from './crisis-escalation-card';
+import { QuestionnaireForm } from './questionnaire-form';
+
+const HISTORY_LENGTH = 5;
+
+export const CONCERN_STYLES: Record<QuestionnaireConcern, string> = {
+  none: 'bg-green-100 text-green-800',
+  mild: 'bg-yellow-100 text-yellow-800',
+  moderate: 'bg-orange-100 text-orange-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+/**
+ * Lets the user complete the PHQ-9, GAD-7 and WHO-5 and follow their scores over
+ * time. A positive answer to PHQ-9 item 9 always brings up crisis resources.
+ */
+export function QuestionnaireCheckIn() {
+  const [results, setResults] = useState<QuestionnaireResult[]>([]);
+  const [activeId, setActiveId] = useState<QuestionnaireId | null>(null);
+  const [escalation, setEscalation] = useState<CrisisEscalation | null>(null);
+  const [region, setRegion] = useState<string>(() => getPreferredRegion());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadResults = () => {
+      getQuestionnaireResults()
+        .then(setResults)
+        .catch(error => console.error('Failed to load questionnaire results', error));
+    };
+    loadResults();
+    return subscribeToQuestionnaireResults(loadResults);
+  }, []);
+
+  const handleRegionChange = (newRegion: string) => {
+    setRegion(newRegion);
+    setPreferredRegion(newRegion);
+  };
+
+  const handleSubmit = async (questionnaireId: QuestionnaireId, answers: number[]) => {
+    let result: QuestionnaireResult;
+    try {
+      result = await saveQuestionnaireResult(questionnaireId, answers);
+    } catch (error) {
+      console.error('Failed to save questionnaire result', error);
+      toast({ title: 'Could not save your answers', description: 'Please try again.', variant: 'destructive' });
+      return;
+    }
+
+    const definition = QUESTIONNAIRES[questionnaireId];
+    setActiveId(null);
+    toast({
+      title: `${definition.shortName}: ${result.score}/${definition.maxScore}`,
+      description: result.severity,
+    });
+
+    const selfHarm = selfHarmResponse(result);
+    if (selfHarm) {
+      const gate = assessSafety('', region, selfHarm);
+      const riskLevel = maxRiskLevel(gate.riskLevel, 'medium');
+      setEscalation({ riskLevel, concerns: gate.concerns, timestamp: result.completedAt });
+      logEscalation({
+        riskLevel,
+        concerns: gate.concerns,
+        actions: gate.actions,
+        region,
+        resourcesShown: getCrisisDirectory(region).resources.map(resource => resource.name),
+      });
+    }
+  };
+
+  const active = activeId ? QUESTIONNAIRES[activeId] : null;
+
+  return (
+    <div className="w-full max-w-4xl space-y-4">
+      {escalation && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Thank you for answering honestly. You mentioned thoughts of being better off dead or of hurting
+            yourself — please consider talking to someone today.
+          </p>
+          <CrisisEscalationCard escalation={escalation} region={region} onRegionChange={handleRegionChange} />
+        </div>
+      )}
+
+      {active ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ClipboardList className="w-5 h-5 text-blue-600" />
+              {active.shortName} — {active.name}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <QuestionnaireForm
+              questionnaire={active}
+              onSubmit={answers => handleSubmit(active.id, answers)}
+              onCancel={() => setActiveId(null)}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {QUESTIONNAIRE_IDS.map(id => {
+            const definition = QUESTIONNAIRES[id];
+            const history = results.filter(result => result.questionnaireId === id);
+            const latest = history[history.length - 1];
+
+            return (
+              <Card key={id}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center justify-between">
+                    {definition.shortName}
+                    <span className="text-xs font-normal text-muted-foreground">{definition.measures}</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {latest ? (
+                    <div className="space-y-1">
+                      <div className="flex items-baseline gap-1">
+                        <span className="text-2xl font-bold">{latest.score}</span>
+                        <span className="text-sm text-muted-foreground">/ {definition.maxScore}</span>
+                      </div>
+                      <Badge className={CONCERN_STYLES[latest.concern]}>{latest.severity}</Badge>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(latest.completedAt)}
+                        {!isCurrentResult(latest) && ' · due for a retake'}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">Not taken yet</p>
+                  )}
+
+                  {history.length > 1 && (
+                    <div className="space-y-1">
+                      <h4 className="text-xs font-medium flex items-center gap-1">
+                        <History className="w-3 h-3" />
+                        Earlier scores
+                      </h4>
+                      {history.slice(-HISTORY_LENGTH - 1, -1).reverse().map(result => (
+                        <div key={result.id} className="flex justify-between text-xs text-muted-foreground">
+                          <span>{formatDate(result.completedAt)}</span>
+                          <span>{result.score} · {result.severity}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <Button size="sm" className="w-full" onClick={() => setActiveId(id)}>
+                    {latest ? 'Take again' : 'Start'}
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground text-center">
+        These questionnaires are screening tools, not a diagnosis. Answers are stored on this device;
+        your latest scores are shared with Mitr AI so it can tailor its support.
+      </p>
+    </div>
+  );
+}
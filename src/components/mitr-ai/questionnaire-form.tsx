@@ -0,0 +1,86 @@
+"use client";
+
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import type { QuestionnaireDefinition } from '@/utils/questionnaires';
+
+type QuestionnaireAnswers = Record<string, string>;
+
+interface QuestionnaireFormProps {
+  questionnaire: QuestionnaireDefinition;
+  onSubmit: (answers: number[]) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Renders one questionnaire with a radio group per item. Every item must be
+ * answered before the answers, in item order, are submitted.
+ */
+export function QuestionnaireForm({ questionnaire, onSubmit, onCancel }: QuestionnaireFormProps) {
+  const schema = useMemo(() => z.object(Object.fromEntries(
+    questionnaire.items.map(item => [item.id, z.string({ required_error: 'Please choose an answer' })])
+  )), [questionnaire]);
+
+  const form = useForm<QuestionnaireAnswers>({ resolver: zodResolver(schema) });
+
+  const handleSubmit = (values: QuestionnaireAnswers) =>
+    onSubmit(questionnaire.items.map(item => Number(values[item.id])));
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-5">
+        <p className="text-sm text-muted-foreground">{questionnaire.instructions}</p>
+
+        {questionnaire.items.map((item, index) => (
+          <FormField
+            key={item.id}
+            control={form.control}
+            name={item.id}
+            render={({ field }) => (
+              <FormItem className="space-y-2 rounded-lg border p-3">
+                <FormLabel className="text-sm leading-snug">
+                  {index + 1}. {item.text}
+                </FormLabel>
+                <FormControl>
+                  <RadioGroup
+                    value={field.value ?? ''}
+                    onValueChange={field.onChange}
+                    className="grid gap-2 sm:grid-cols-2"
+                  >
+                    {questionnaire.options.map(option => {
+                      const id = `${item.id}-${option.value}`;
+                      return (
+                        <div key={option.value} className="flex items-center gap-2">
+                          <RadioGroupItem value={String(option.value)} id={id} />
+                          <Label htmlFor={id} className="text-xs font-normal cursor-pointer">
+                            {option.label}
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </RadioGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            Submit
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
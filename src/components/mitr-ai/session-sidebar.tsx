@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+} from '@/components/ui/sidebar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MessageSquarePlus, Pencil, Search, Trash2 } from 'lucide-react';
+import {
+  deleteSession,
+  listSessions,
+  renameSession,
+  searchSessions,
+  subscribeToSessions,
+  type ChatSession,
+  type SessionSearchResult,
+} from '@/utils/chat-sessions';
+
+interface SessionSidebarProps {
+  activeSessionId: string | null;
+  onSelectSession: (id: string) => void;
+  onNewSession: () => void;
+}
+
+const formatSessionDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/**
+ * Lists past conversations so they can be resumed, renamed, deleted or searched.
+ */
+export function SessionSidebar({ activeSessionId, onSelectSession, onNewSession }: SessionSidebarProps) {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SessionSearchResult[] | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ChatSession | null>(null);
+
+  const refresh = useCallback(async () => {
+    setSessions(await listSessions());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToSessions(refresh);
+  }, [refresh]);
+
+  // Debounce the full-text search while typing
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      searchSessions(query).then(setResults);
+    }, 250);
+    return () => clearTimeout(timeout);
+  }, [query, sessions]);
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setRenameDraft(session.title);
+  };
+
+  const handleRename = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (renamingId) await renameSession(renamingId, renameDraft);
+    setRenamingId(null);
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const { id } = pendingDelete;
+    setPendingDelete(null);
+    await deleteSession(id);
+    if (id === activeSessionId) onNewSession();
+  };
+
+  const renderSession = (session: ChatSession, matches?: SessionSearchResult['matches']) => (
+    <SidebarMenuItem key={session.id}>
+      {renamingId === session.id ? (
+        <form onSubmit={handleRename} className="p-1">
+          <Input
+            autoFocus
+            value={renameDraft}
+            onChange={(e) => setRenameDraft(e.target.value)}
+            onBlur={() => setRenamingId(null)}
+            onKeyDown={(e) => e.key === 'Escape' && setRenamingId(null)}
+            className="h-7 text-sm"
+            aria-label="Session title"
+          />
+        </form>
+      ) : (
+        <>
+          <SidebarMenuButton
+            isActive={session.id === activeSessionId}
+            onClick={() => onSelectSession(session.id)}
+            className="h-auto flex-col items-start gap-0.5 py-2 pr-14"
+          >
+            <span className="w-full truncate font-medium">{session.title}</span>
+            <span className="w-full truncate text-xs text-muted-foreground">
+              {formatSessionDate(session.updatedAt)} · {session.messageCount} messages
+            </span>
+            {matches?.map(match => (
+              <span key={match.turnId} className="w-full text-xs text-muted-foreground line-clamp-2 whitespace-normal">
+                {match.speaker === 'user' ? 'You' : 'Mitr'}: {match.snippet}
+              </span>
+            ))}
+          </SidebarMenuButton>
+          <SidebarMenuAction showOnHover className="right-7" onClick={() => startRename(session)} aria-label="Rename session">
+            <Pencil />
+          </SidebarMenuAction>
+          <SidebarMenuAction showOnHover onClick={() => setPendingDelete(session)} aria-label="Delete session">
+            <Trash2 />
+          </SidebarMenuAction>
+        </>
+      )}
+    </SidebarMenuItem>
+  );
+
+  return (
+    <SidebarProvider className="min-h-0 w-full lg:w-64 flex-shrink-0">
+      <Sidebar collapsible="none" className="w-full h-[300px] lg:h-[600px] rounded-lg border shadow-xl">
+        <SidebarHeader className="gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onNewSession} className="w-full justify-start gap-2">
+            <MessageSquarePlus className="w-4 h-4" />
+            New conversation
+          </Button>
+          <div className="relative">
+            <Search className="pointer-events-none absolute left-2 top-1/2 w-4 h-4 -translate-y-1/2 text-muted-foreground" />
+            <SidebarInput
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search past messages..."
+              className="pl-8"
+              aria-label="Search conversations"
+            />
+          </div>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>{results ? `${results.length} matching conversations` : 'Conversations'}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {results
+                  ? results.map(result => renderSession(result.session, result.matches))
+                  : sessions.map(session => renderSession(session))}
+                {(results ?? sessions).length === 0 && (
+                  <p className="px-2 py-4 text-xs text-muted-foreground text-center">
+                    {results ? 'No messages match your search.' : 'Your conversations will appear here.'}
+                  </p>
+                )}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &ldquo;{pendingDelete?.title}&rdquo; and all of its messages will be permanently removed from this device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </SidebarProvider>
+  );
+}
@@ -5,13 +5,21 @@
 
 // Cache constants
 const DB_NAME = 'mitr_ai_cache';
-const DB_VERSION = 1;
+const DB_VERSION = 7;
 const ANALYSIS_STORE = 'analysis_results';
 const MESSAGE_STORE = 'message_cache';
+export const ESCALATION_STORE = 'escalation_audit';
+export const PROFILE_STORE = 'user_profile';
+export const PROFILE_SUGGESTION_STORE = 'profile_suggestions';
+export const SESSION_STORE = 'chat_sessions';
+export const TURN_STORE = 'chat_turns';
+export const WEARABLE_STORE = 'wearable_samples';
+export const QUESTIONNAIRE_STORE = 'questionnaire_results';
+export const EXERCISE_STORE = 'exercise_sessions';
 const CACHE_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
 
 // Initialize the database
-async function initDB(): Promise<IDBDatabase> {
+export async function initDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     
@@ -38,7 +46,191 @@ async function initDB(): Promise<IDBDatabase> {
         const store = db.createObjectStore(MESSAGE_STORE, { keyPath: 'id' });
         store.createIndex('timestamp', 'timestamp', { unique: false });
       }
+
+      // Create escalation audit store (never expires)
+      if (!db.objectStoreNames.contains(ESCALATION_STORE)) {
+        const store = db.createObjectStore(ESCALATION_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      // Create user profile and pending suggestion stores (never expire)
+      if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+        db.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(PROFILE_SUGGESTION_STORE)) {
+        const store = db.createObjectStore(PROFILE_SUGGESTION_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      // Create chat session and turn stores (never expire)
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(TURN_STORE)) {
+        const store = db.createObjectStore(TURN_STORE, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId', { unique: false });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      // Create imported wearable time-series store (never expires)
+      if (!db.objectStoreNames.contains(WEARABLE_STORE)) {
+        const store = db.createObjectStore(WEARABLE_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+        store.createIndex('metric_timestamp', ['metric', 'timestamp'], { unique: false });
+      }
+
+      // Create self-report questionnaire results store (never expires)
+      if (!db.objectStoreNames.contains(QUESTIONNAIRE_STORE)) {
+        const store = db.createObjectStore(QUESTIONNAIRE_STORE, { keyPath: 'id' });
+        store.createIndex('completedAt', 'completedAt', { unique: false });
+        store.createIndex('questionnaireId', 'questionnaireId', { unique: false });
+      }
+
+      // Create guided exercise sessions store (never expires)
+      if (!db.objectStoreNames.contains(EXERCISE_STORE)) {
+        const store = db.createObjectStore(EXERCISE_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt', { unique: false });
+        store.createIndex('exerciseId', 'exerciseId', { unique: false });
+      }
+    };
+  });
+}
+
+// Put a record into a durable store
+export async function putRecord<T extends { id: string }>(storeName: string, record: T): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Put many records into a durable store in one transaction
+export async function putRecords<T extends { id: string }>(storeName: string, records: T[]): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    records.forEach(record => store.put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Read a record and write back its update in one readwrite transaction, so fields
+// written by other callers in the meantime are not overwritten with stale values.
+// Resolves to the stored record, or null when there is none.
+export async function updateRecord<T extends { id: string }>(
+  storeName: string,
+  id: string,
+  update: (record: T) => T
+): Promise<T | null> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    let updated: T | null = null;
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result === undefined) return;
+      updated = update(request.result as T);
+      store.put(updated);
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Get all records from a durable store
+export async function getAllRecords<T>(storeName: string): Promise<T[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Get a single record from a durable store
+export async function getRecord<T>(storeName: string, id: string): Promise<T | null> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(id);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Get all records from a durable store whose index matches a value
+export async function getRecordsByIndex<T>(storeName: string, indexName: string, value: IDBValidKey): Promise<T[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName).getAll(value);
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Get all records from a durable store whose index falls in a key range
+export async function getRecordsInRange<T>(storeName: string, indexName: string, range: IDBKeyRange): Promise<T[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName).getAll(range);
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Get the record with the highest index value from a durable store
+export async function getLastRecordByIndex<T>(storeName: string, indexName: string): Promise<T | null> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName).openCursor(null, 'prev');
+    request.onsuccess = () => resolve((request.result?.value as T | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Delete all records from a durable store
+export async function clearRecords(storeName: string): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Delete a record from a durable store
+export async function deleteRecord(storeName: string, id: string): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Delete all records from a durable store whose index matches a value
+export async function deleteRecordsByIndex(storeName: string, indexName: string, value: IDBValidKey): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).index(indexName).openKeyCursor(IDBKeyRange.only(value));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        transaction.objectStore(storeName).delete(cursor.primaryKey);
+        cursor.continue();
+      }
     };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
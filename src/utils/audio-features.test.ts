@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAcousticFeatures, estimatePitchYin, fft } from './audio-features';
+
+const SAMPLE_RATE = 16000;
+
+function sine(frequency: number, seconds: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+}
+
+// Linear sweep from `from` to `to` Hz over the whole signal
+function chirp(from: number, to: number, seconds: number, amplitude = 0.5): Float32Array {
+  const rate = (to - from) / seconds;
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => {
+    const t = i / SAMPLE_RATE;
+    return amplitude * Math.sin(2 * Math.PI * (from * t + (rate * t * t) / 2));
+  });
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const result = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+describe('fft', () => {
+  it('puts a pure tone in its frequency bin', () => {
+    const size = 64;
+    const real = Float64Array.from({ length: size }, (_, i) => Math.cos((2 * Math.PI * 5 * i) / size));
+    const imag = new Float64Array(size);
+    fft(real, imag);
+
+    const magnitudes = Array.from(real, (value, k) => Math.hypot(value, imag[k]));
+    expect(magnitudes[5]).toBeCloseTo(size / 2, 6);
+    expect(magnitudes[size - 5]).toBeCloseTo(size / 2, 6);
+    magnitudes.forEach((magnitude, k) => {
+      if (k !== 5 && k !== size - 5) expect(magnitude).toBeLessThan(1e-9);
+    });
+  });
+
+  it('turns an impulse into a flat spectrum', () => {
+    const real = new Float64Array(16);
+    const imag = new Float64Array(16);
+    real[0] = 1;
+    fft(real, imag);
+    real.forEach((value, k) => expect(Math.hypot(value, imag[k])).toBeCloseTo(1, 9));
+  });
+});
+
+describe('estimatePitchYin', () => {
+  it.each([100, 220, 440])('finds the period of a %d Hz sine', frequency => {
+    const frame = sine(frequency, 0.064);
+    expect(estimatePitchYin(frame, SAMPLE_RATE)).toBeCloseTo(frequency, 0);
+  });
+
+  it('returns 0 for silence', () => {
+    expect(estimatePitchYin(new Float32Array(1024), SAMPLE_RATE)).toBe(0);
+  });
+});
+
+describe('analyzeAcousticFeatures', () => {
+  it('describes a steady sine', () => {
+    const features = analyzeAcousticFeatures(sine(200, 1), { sampleRate: SAMPLE_RATE });
+
+    expect(features.duration).toBeCloseTo(1, 6);
+    expect(features.pitch).toBeCloseTo(200, 0);
+    expect(features.energy).toBeCloseTo(0.5 / Math.SQRT2, 3);
+    expect(features.spectralCentroid).toBeGreaterThan(150);
+    expect(features.spectralCentroid).toBeLessThan(300);
+    expect(features.jitter).toBeLessThan(0.001);
+    expect(features.shimmer).toBeLessThan(0.01);
+    expect(features.pauseRatio).toBe(0);
+    expect(features.mfcc).toHaveLength(13);
+  });
+
+  it('tracks the middle of a rising chirp', () => {
+    const features = analyzeAcousticFeatures(chirp(150, 300, 1), { sampleRate: SAMPLE_RATE });
+    const steady = analyzeAcousticFeatures(sine(150, 1), { sampleRate: SAMPLE_RATE });
+
+    expect(features.pitch).toBeGreaterThan(210);
+    expect(features.pitch).toBeLessThan(240);
+    expect(features.spectralCentroid).toBeGreaterThan(steady.spectralCentroid);
+    expect(features.jitter).toBeGreaterThan(steady.jitter);
+  });
+
+  it('scales the centroid with frequency', () => {
+    const low = analyzeAcousticFeatures(sine(200, 0.5), { sampleRate: SAMPLE_RATE });
+    const high = analyzeAcousticFeatures(sine(2000, 0.5), { sampleRate: SAMPLE_RATE });
+
+    expect(high.spectralCentroid).toBeGreaterThan(1800);
+    expect(high.spectralCentroid).toBeLessThan(2200);
+    expect(high.spectralCentroid).toBeGreaterThan(low.spectralCentroid * 5);
+    // Out of the default 60-500 Hz pitch range
+    expect(high.pitch).toBe(0);
+  });
+
+  it('counts silent stretches as pauses', () => {
+    const samples = concat(sine(200, 0.5), new Float32Array(SAMPLE_RATE / 2));
+    const features = analyzeAcousticFeatures(samples, { sampleRate: SAMPLE_RATE });
+
+    expect(features.pauseRatio).toBeGreaterThan(0.4);
+    expect(features.pauseRatio).toBeLessThan(0.6);
+    expect(features.pitch).toBeCloseTo(200, 0);
+  });
+
+  it('returns empty features for silence and for clips shorter than a frame', () => {
+    for (const samples of [new Float32Array(SAMPLE_RATE), sine(200, 0.01)]) {
+      const features = analyzeAcousticFeatures(samples, { sampleRate: SAMPLE_RATE });
+      expect(features.pitch).toBe(0);
+      expect(features.spectralCentroid).toBe(0);
+      expect(features.speakingRate).toBe(0);
+      expect(features.pauseRatio).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * @fileOverview Acoustic feature extraction for voice emotion analysis
+ * Pure DSP over mono PCM samples: YIN pitch tracking, RMS energy, spectral centroid,
+ * MFCCs, jitter, shimmer, speaking rate and pause ratio. No browser APIs are used,
+ * so the same code runs in the client, on the server and in offline scripts.
+ */
+
+export interface AcousticFeatures {
+  pitch: number;            // Median fundamental frequency of voiced frames (Hz), 0 if unvoiced
+  energy: number;           // RMS amplitude of the whole signal (0-1 for normalized PCM)
+  spectralCentroid: number; // Mean spectral centroid of non-silent frames (Hz)
+  mfcc: number[];           // Mean of 13 MFCCs over non-silent frames
+  duration: number;         // Seconds
+  jitter: number;           // Relative mean absolute difference of consecutive pitch periods
+  shimmer: number;          // Relative mean absolute difference of consecutive peak amplitudes
+  speakingRate: number;     // Estimated syllable nuclei per second of non-silent audio
+  pauseRatio: number;       // Fraction of frames below the silence threshold (0-1)
+}
+
+export interface AcousticAnalysisOptions {
+  sampleRate?: number;
+  minPitch?: number;
+  maxPitch?: number;
+}
+
+const DEFAULT_SAMPLE_RATE = 16000;
+const FRAME_DURATION = 0.032; // seconds, rounded up to a power of two in samples
+const HOP_DURATION = 0.01;
+const MFCC_COUNT = 13;
+const MEL_FILTER_COUNT = 26;
+const YIN_THRESHOLD = 0.15;
+const SILENCE_RATIO = 0.1; // frames quieter than 10% of the loudest frame (-20 dB) count as pauses
+const MIN_SILENCE_RMS = 1e-3;
+const MIN_SYLLABLE_GAP = 0.1; // seconds between syllable nuclei
+
+function nextPowerOfTwo(value: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(2, value)));
+}
+
+function rms(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length);
+}
+
+function peakAmplitude(frame: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < frame.length; i++) peak = Math.max(peak, Math.abs(frame[i]));
+  return peak;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Relative mean absolute difference between consecutive values, the standard
+ * "local" definition used for both jitter (periods) and shimmer (amplitudes).
+ */
+function relativePerturbation(values: number[]): number {
+  if (values.length < 2) return 0;
+  let diffSum = 0;
+  for (let i = 1; i < values.length; i++) diffSum += Math.abs(values[i] - values[i - 1]);
+  const average = mean(values);
+  return average > 0 ? diffSum / (values.length - 1) / average : 0;
+}
+
+/**
+ * In-place iterative radix-2 FFT. `real` and `imag` must have a power-of-two length.
+ */
+export function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curReal = 1;
+      let curImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const tReal = curReal * real[oddIndex] - curImag * imag[oddIndex];
+        const tImag = curReal * imag[oddIndex] + curImag * real[oddIndex];
+        real[oddIndex] = real[evenIndex] - tReal;
+        imag[oddIndex] = imag[evenIndex] - tImag;
+        real[evenIndex] += tReal;
+        imag[evenIndex] += tImag;
+        const nextReal = curReal * wReal - curImag * wImag;
+        curImag = curReal * wImag + curImag * wReal;
+        curReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Power spectrum (bins 0..N/2) of a Hann-windowed frame.
+ */
+function powerSpectrum(frame: Float32Array, window: Float64Array): Float64Array {
+  const n = frame.length;
+  const real = new Float64Array(n);
+  const imag = new Float64Array(n);
+  for (let i = 0; i < n; i++) real[i] = frame[i] * window[i];
+  fft(real, imag);
+  const power = new Float64Array(n / 2 + 1);
+  for (let k = 0; k <= n / 2; k++) power[k] = real[k] * real[k] + imag[k] * imag[k];
+  return power;
+}
+
+/**
+ * YIN fundamental frequency estimate (de Cheveigné & Kawahara, 2002).
+ * Returns 0 when no period below the aperiodicity threshold is found.
+ */
+export function estimatePitchYin(
+  frame: Float32Array,
+  sampleRate: number,
+  minPitch = 60,
+  maxPitch = 500
+): number {
+  const windowSize = Math.floor(frame.length / 2);
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxPitch));
+  const tauMax = Math.min(windowSize - 1, Math.ceil(sampleRate / minPitch));
+  if (tauMax <= tauMin) return 0;
+
+  // Difference function and cumulative mean normalized difference
+  const cmnd = new Float64Array(tauMax + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let diff = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const delta = frame[j] - frame[j + tau];
+      diff += delta * delta;
+    }
+    runningSum += diff;
+    cmnd[tau] = runningSum > 0 ? (diff * tau) / runningSum : 1;
+  }
+
+  // First dip below the threshold, then walk down to its local minimum
+  let tauEstimate = -1;
+  for (let tau = tauMin; tau <= tauMax; tau++) {
+    if (cmnd[tau] < YIN_THRESHOLD) {
+      while (tau + 1 <= tauMax && cmnd[tau + 1] < cmnd[tau]) tau++;
+      tauEstimate = tau;
+      break;
+    }
+  }
+  if (tauEstimate < 0) return 0;
+
+  // Parabolic interpolation for sub-sample precision
+  let refinedTau = tauEstimate;
+  if (tauEstimate > 1 && tauEstimate < tauMax) {
+    const s0 = cmnd[tauEstimate - 1];
+    const s1 = cmnd[tauEstimate];
+    const s2 = cmnd[tauEstimate + 1];
+    const denominator = 2 * (2 * s1 - s2 - s0);
+    if (denominator !== 0) refinedTau = tauEstimate + (s2 - s0) / denominator;
+  }
+
+  return sampleRate / refinedTau;
+}
+
+function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+  return 700 * (10 ** (mel / 2595) - 1);
+}
+
+/**
+ * Triangular mel filterbank over the bins of an `fftSize`-point spectrum.
+ */
+function createMelFilterbank(fftSize: number, sampleRate: number, filterCount: number): Float64Array[] {
+  const binCount = fftSize / 2 + 1;
+  const lowMel = hzToMel(20);
+  const highMel = hzToMel(Math.min(8000, sampleRate / 2));
+  const melPoints = Array.from({ length: filterCount + 2 }, (_, i) => lowMel + ((highMel - lowMel) * i) / (filterCount + 1));
+  const binPoints = melPoints.map(mel => Math.floor(((fftSize + 1) * melToHz(mel)) / sampleRate));
+
+  return Array.from({ length: filterCount }, (_, m) => {
+    const filter = new Float64Array(binCount);
+    const [left, center, right] = [binPoints[m], binPoints[m + 1], binPoints[m + 2]];
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(1, center - left);
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(1, right - center);
+    return filter;
+  });
+}
+
+/**
+ * MFCCs of one frame's power spectrum: log mel energies followed by a DCT-II.
+ */
+function mfccFromPower(power: Float64Array, filterbank: Float64Array[], count: number): number[] {
+  const logEnergies = filterbank.map(filter => {
+    let energy = 0;
+    for (let k = 0; k < filter.length; k++) energy += filter[k] * power[k];
+    return Math.log(energy + 1e-10);
+  });
+
+  const m = logEnergies.length;
+  return Array.from({ length: count }, (_, n) => {
+    let sum = 0;
+    for (let k = 0; k < m; k++) sum += logEnergies[k] * Math.cos((Math.PI * n * (k + 0.5)) / m);
+    return sum * Math.sqrt((n === 0 ? 1 : 2) / m);
+  });
+}
+
+/**
+ * Counts syllable nuclei as prominent peaks of the frame energy envelope (in dB)
+ * inside non-silent stretches, at least MIN_SYLLABLE_GAP apart.
+ */
+function countSyllableNuclei(frameRms: number[], silenceThreshold: number, hopSeconds: number): number {
+  const envelope = frameRms.map(value => 20 * Math.log10(value + 1e-10));
+  const smoothed = envelope.map((_, i) => mean(envelope.slice(Math.max(0, i - 2), i + 3)));
+  const minGapFrames = Math.max(1, Math.round(MIN_SYLLABLE_GAP / hopSeconds));
+  const prominence = 2; // dB above the surrounding valleys
+
+  let count = 0;
+  let lastPeak = -Infinity;
+  for (let i = 1; i < smoothed.length - 1; i++) {
+    if (frameRms[i] < silenceThreshold) continue;
+    if (smoothed[i] < smoothed[i - 1] || smoothed[i] < smoothed[i + 1]) continue;
+    if (i - lastPeak < minGapFrames) continue;
+
+    const leftValley = Math.min(...smoothed.slice(Math.max(0, i - minGapFrames), i));
+    const rightValley = Math.min(...smoothed.slice(i + 1, i + 1 + minGapFrames));
+    if (smoothed[i] - Math.max(leftValley, rightValley) >= prominence) {
+      count++;
+      lastPeak = i;
+    }
+  }
+  return count;
+}
+
+/**
+ * Extracts acoustic features from mono PCM samples in the range [-1, 1].
+ */
+export function analyzeAcousticFeatures(
+  samples: Float32Array,
+  options: AcousticAnalysisOptions = {}
+): AcousticFeatures {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const minPitch = options.minPitch ?? 60;
+  const maxPitch = options.maxPitch ?? 500;
+  const duration = samples.length / sampleRate;
+
+  const frameSize = nextPowerOfTwo(FRAME_DURATION * sampleRate);
+  const hopSize = Math.max(1, Math.round(HOP_DURATION * sampleRate));
+  const empty: AcousticFeatures = {
+    pitch: 0,
+    energy: 0,
+    spectralCentroid: 0,
+    mfcc: new Array(MFCC_COUNT).fill(0),
+    duration,
+    jitter: 0,
+    shimmer: 0,
+    speakingRate: 0,
+    pauseRatio: 1,
+  };
+  if (samples.length < frameSize) return empty;
+
+  const frames: Float32Array[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    frames.push(samples.subarray(start, start + frameSize));
+  }
+
+  const frameRms = frames.map(rms);
+  const silenceThreshold = Math.max(MIN_SILENCE_RMS, Math.max(...frameRms) * SILENCE_RATIO);
+  const activeIndices = frameRms
+    .map((value, index) => (value >= silenceThreshold ? index : -1))
+    .filter(index => index >= 0);
+  if (activeIndices.length === 0) return { ...empty, energy: rms(samples) };
+
+  const window = Float64Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1)));
+  const filterbank = createMelFilterbank(frameSize, sampleRate, MEL_FILTER_COUNT);
+  const binHz = sampleRate / frameSize;
+
+  const centroids: number[] = [];
+  const mfccSums = new Array(MFCC_COUNT).fill(0);
+  const pitches: number[] = [];
+  const periods: number[] = [];
+  const amplitudes: number[] = [];
+  let previousVoiced = false;
+
+  for (const index of activeIndices) {
+    const frame = frames[index];
+    const power = powerSpectrum(frame, window);
+
+    let weighted = 0;
+    let total = 0;
+    for (let k = 0; k < power.length; k++) {
+      const magnitude = Math.sqrt(power[k]);
+      weighted += k * binHz * magnitude;
+      total += magnitude;
+    }
+    if (total > 0) centroids.push(weighted / total);
+
+    mfccFromPower(power, filterbank, MFCC_COUNT).forEach((value, i) => { mfccSums[i] += value; });
+
+    const f0 = estimatePitchYin(frame, sampleRate, minPitch, maxPitch);
+    const voiced = f0 >= minPitch && f0 <= maxPitch;
+    if (voiced) {
+      pitches.push(f0);
+      // Perturbation measures only compare contiguous voiced frames
+      if (!previousVoiced && periods.length > 0) {
+        periods.push(NaN);
+        amplitudes.push(NaN);
+      }
+      periods.push(1 / f0);
+      amplitudes.push(peakAmplitude(frame));
+    }
+    previousVoiced = voiced;
+  }
+
+  const segmentPerturbation = (values: number[]) => {
+    const segments: number[][] = [[]];
+    values.forEach(value => (Number.isNaN(value) ? segments.push([]) : segments[segments.length - 1].push(value)));
+    const scored = segments.filter(segment => segment.length >= 2);
+    return mean(scored.map(relativePerturbation));
+  };
+
+  const activeSeconds = activeIndices.length * (hopSize / sampleRate);
+  const syllables = countSyllableNuclei(frameRms, silenceThreshold, hopSize / sampleRate);
+
+  return {
+    pitch: median(pitches),
+    energy: rms(samples),
+    spectralCentroid: mean(centroids),
+    mfcc: mfccSums.map(sum => sum / activeIndices.length),
+    duration,
+    jitter: segmentPerturbation(periods),
+    shimmer: segmentPerturbation(amplitudes),
+    speakingRate: activeSeconds > 0 ? syllables / activeSeconds : 0,
+    pauseRatio: 1 - activeIndices.length / frames.length,
+  };
+}
@@ -0,0 +1,42 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { appendTurn, createSession, getSession, saveSessionMemory, type ChatTurn } from './chat-sessions';
+
+const turn = (sessionId: string, speaker: ChatTurn['speaker'], text: string, timestamp: string): ChatTurn => ({
+  id: crypto.randomUUID(),
+  sessionId,
+  speaker,
+  text,
+  timestamp,
+});
+
+const MEMORY = { themes: ['work'], stressors: ['deadlines'], agreedActions: [] };
+
+describe('chat sessions', () => {
+  it('keeps every field when appends and a memory update run concurrently', async () => {
+    const { id } = await createSession();
+
+    await Promise.all([
+      appendTurn(turn(id, 'user', 'Work has been really stressful lately', '2026-03-01T10:00:00.000Z')),
+      appendTurn(turn(id, 'ai', 'That sounds hard. What is weighing on you most?', '2026-03-01T10:00:05.000Z')),
+      saveSessionMemory(id, { rollingSummary: 'Talked about work', summarizedThrough: '2026-03-01T09:00:00.000Z', memory: MEMORY }),
+    ]);
+
+    const session = await getSession(id);
+    expect(session?.messageCount).toBe(2);
+    expect(session?.title).toBe('Work has been really stressful lately');
+    expect(session?.summary).toBe('Work has been really stressful lately');
+    expect(session?.endedAt).toBe('2026-03-01T10:00:05.000Z');
+    expect(session?.rollingSummary).toBe('Talked about work');
+    expect(session?.memory).toEqual(MEMORY);
+  });
+
+  it('does not let a late compaction replace a newer summary', async () => {
+    const { id } = await createSession();
+
+    await saveSessionMemory(id, { rollingSummary: 'newer', summarizedThrough: '2026-03-01T12:00:00.000Z', memory: MEMORY });
+    await saveSessionMemory(id, { rollingSummary: 'older', summarizedThrough: '2026-03-01T11:00:00.000Z', memory: MEMORY });
+
+    expect((await getSession(id))?.rollingSummary).toBe('newer');
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * @fileOverview Durable multi-session conversation history for MITR AI
+ * Sessions and their turns live in IndexedDB so conversations survive a refresh
+ * and can be resumed, renamed, deleted and searched later.
+ */
+
+import {
+  SESSION_STORE,
+  TURN_STORE,
+  deleteRecord,
+  deleteRecordsByIndex,
+  getAllRecords,
+  getRecord,
+  getRecordsByIndex,
+  putRecord,
+  updateRecord,
+} from '@/utils/analysis-cache';
+import { HashingEmbedder } from '@/ai/retrieval/embedder';
+import type { SessionMemory } from '@/utils/context-window';
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  startedAt: string;
+  endedAt?: string;
+  updatedAt: string;
+  summary: string;
+  messageCount: number;
+  rollingSummary?: string; // model-written summary of turns that left the context window
+  summarizedThrough?: string; // timestamp of the last turn folded into rollingSummary
+  memory?: SessionMemory;
+}
+
+export interface ChatTurn {
+  id: string;
+  sessionId: string;
+  speaker: 'user' | 'ai';
+  text: string;
+  timestamp: string;
+  emotions?: Record<string, number>;
+  intent?: string;
+  embedding?: number[]; // computed by turnEmbedder when the turn is stored
+  embedder?: string;
+}
+
+export interface SessionSearchMatch {
+  turnId: string;
+  speaker: 'user' | 'ai';
+  snippet: string;
+  timestamp: string;
+}
+
+export interface SessionSearchResult {
+  session: ChatSession;
+  matches: SessionSearchMatch[];
+}
+
+export const DEFAULT_SESSION_TITLE = 'New conversation';
+const ACTIVE_SESSION_KEY = 'mitr_ai_active_session';
+const TITLE_MAX_LENGTH = 48;
+const SUMMARY_MAX_LENGTH = 160;
+const SNIPPET_RADIUS = 40;
+const MAX_MATCHES_PER_SESSION = 3;
+
+// Turns are embedded locally so recall works offline and nothing extra leaves the device
+export const turnEmbedder = new HashingEmbedder();
+
+// The sidebar and chat subscribe so changes made in one appear in the other
+type SessionListener = () => void;
+const listeners = new Set<SessionListener>();
+
+export function subscribeToSessions(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifySessionChange(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Reads the id of the session the user was last in, so it can be resumed after a refresh.
+ */
+export function getActiveSessionId(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(ACTIVE_SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveSessionId(id: string | null): void {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_SESSION_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_SESSION_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to store active session:', error);
+  }
+}
+
+export async function createSession(): Promise<ChatSession> {
+  const now = new Date().toISOString();
+  const session: ChatSession = {
+    id: crypto.randomUUID(),
+    title: DEFAULT_SESSION_TITLE,
+    startedAt: now,
+    updatedAt: now,
+    summary: '',
+    messageCount: 0,
+  };
+  await putRecord(SESSION_STORE, session);
+  notifySessionChange();
+  return session;
+}
+
+export async function getSession(id: string): Promise<ChatSession | null> {
+  return getRecord<ChatSession>(SESSION_STORE, id);
+}
+
+/**
+ * Returns all sessions, most recently active first.
+ */
+export async function listSessions(): Promise<ChatSession[]> {
+  try {
+    const sessions = await getAllRecords<ChatSession>(SESSION_STORE);
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error('Failed to list sessions', error);
+    return [];
+  }
+}
+
+/**
+ * Returns every stored turn across all sessions.
+ */
+export async function getAllTurns(): Promise<ChatTurn[]> {
+  return getAllRecords<ChatTurn>(TURN_STORE);
+}
+
+/**
+ * Returns a session's turns in chronological order.
+ */
+export async function getSessionTurns(sessionId: string): Promise<ChatTurn[]> {
+  const turns = await getRecordsByIndex<ChatTurn>(TURN_STORE, 'sessionId', sessionId);
+  return turns.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+function deriveTitle(text: string): string {
+  const title = text.replace(/\s+/g, ' ').trim();
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : title;
+}
+
+/**
+ * Extractive summary: the opening sentence of the first few user messages.
+ */
+export function summarizeTurns(turns: ChatTurn[]): string {
+  const sentences = turns
+    .filter(turn => turn.speaker === 'user')
+    .map(turn => turn.text.trim().match(/^[^.!?]*[.!?]?/)?.[0] ?? '')
+    .filter(sentence => sentence.split(' ').length >= 3);
+
+  let summary = '';
+  for (const sentence of sentences) {
+    const next = summary ? `${summary} ${sentence}` : sentence;
+    if (next.length > SUMMARY_MAX_LENGTH) break;
+    summary = next;
+  }
+  return summary || deriveTitle(sentences[0] ?? turns.find(turn => turn.speaker === 'user')?.text ?? '');
+}
+
+const later = (a: string | undefined, b: string) => (a && a > b ? a : b);
+
+/**
+ * Appends a turn (with its embedding) and updates the session's title, end time, count and summary.
+ * The session is patched in place, so appends that finish out of order, or a
+ * memory update in between, do not overwrite each other.
+ */
+export async function appendTurn(turn: ChatTurn): Promise<void> {
+  try {
+    await putRecord(TURN_STORE, {
+      ...turn,
+      embedding: turnEmbedder.embedOne(turn.text),
+      embedder: turnEmbedder.name,
+    });
+
+    // The summary is drawn from user turns only, so AI turns leave it as it is
+    const summary = turn.speaker === 'user' ? summarizeTurns(await getSessionTurns(turn.sessionId)) : undefined;
+    const session = await updateRecord<ChatSession>(SESSION_STORE, turn.sessionId, stored => ({
+      ...stored,
+      title: stored.title === DEFAULT_SESSION_TITLE && turn.speaker === 'user' ? deriveTitle(turn.text) : stored.title,
+      updatedAt: later(stored.updatedAt, turn.timestamp),
+      endedAt: later(stored.endedAt, turn.timestamp),
+      messageCount: stored.messageCount + 1,
+      summary: summary ?? stored.summary,
+    }));
+    if (session) notifySessionChange();
+  } catch (error) {
+    console.error('Failed to store chat turn', error);
+  }
+}
+
+/**
+ * Stores the rolling summary and session memory after older turns have been folded in.
+ */
+export async function saveSessionMemory(
+  id: string,
+  update: Pick<ChatSession, 'rollingSummary' | 'summarizedThrough' | 'memory'>
+): Promise<void> {
+  // A compaction that finished late must not replace a newer summary
+  const session = await updateRecord<ChatSession>(SESSION_STORE, id, stored =>
+    stored.summarizedThrough && update.summarizedThrough && stored.summarizedThrough > update.summarizedThrough
+      ? stored
+      : { ...stored, ...update }
+  );
+  if (session) notifySessionChange();
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  if (!title.trim()) return;
+  const session = await updateRecord<ChatSession>(SESSION_STORE, id, stored => ({ ...stored, title: title.trim() }));
+  if (session) notifySessionChange();
+}
+
+/**
+ * Deletes a session together with all of its turns.
+ */
+export async function deleteSession(id: string): Promise<void> {
+  await deleteRecordsByIndex(TURN_STORE, 'sessionId', id);
+  await deleteRecord(SESSION_STORE, id);
+  if (getActiveSessionId() === id) setActiveSessionId(null);
+  notifySessionChange();
+}
+
+function buildSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Full-text search across every stored message. A turn matches when it contains
+ * every query term; sessions whose title or summary match are included too.
+ */
+export async function searchSessions(query: string): Promise<SessionSearchResult[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  try {
+    const [sessions, turns] = await Promise.all([listSessions(), getAllRecords<ChatTurn>(TURN_STORE)]);
+    const matchesBySession = new Map<string, SessionSearchMatch[]>();
+
+    for (const turn of turns.sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+      const text = turn.text.toLowerCase();
+      if (!terms.every(term => text.includes(term))) continue;
+
+      const matches = matchesBySession.get(turn.sessionId) ?? [];
+      matches.push({
+        turnId: turn.id,
+        speaker: turn.speaker,
+        snippet: buildSnippet(turn.text, text.indexOf(terms[0]), terms[0].length),
+        timestamp: turn.timestamp,
+      });
+      matchesBySession.set(turn.sessionId, matches);
+    }
+
+    return sessions
+      .filter(session => {
+        const meta = `${session.title} ${session.summary} ${session.rollingSummary ?? ''}`.toLowerCase();
+        return matchesBySession.has(session.id) || terms.every(term => meta.includes(term));
+      })
+      .map(session => ({
+        session,
+        matches: (matchesBySession.get(session.id) ?? []).slice(0, MAX_MATCHES_PER_SESSION),
+      }));
+  } catch (error) {
+    console.error('Failed to search sessions', error);
+    return [];
+  }
+}
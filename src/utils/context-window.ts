@@ -0,0 +1,87 @@
+/**
+ * @fileOverview Token-budgeted conversation windowing shared by the client and all flows
+ * Recent turns are kept verbatim up to a token budget; anything older is represented
+ * by the session's rolling summary and structured session memory instead.
+ */
+
+export interface SessionMemory {
+  themes: string[];
+  stressors: string[];
+  agreedActions: string[];
+}
+
+export interface WindowTurn {
+  speaker: string;
+  message: string;
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 1500;
+const TOKENS_PER_TURN_OVERHEAD = 4; // speaker label and separators
+
+/**
+ * Rough token estimate (about four characters per token for English text).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function turnTokens(turn: WindowTurn): number {
+  return estimateTokens(turn.message) + TOKENS_PER_TURN_OVERHEAD;
+}
+
+/**
+ * Splits turns into the most recent ones that fit the budget and the older remainder.
+ * The newest turn is always kept, truncated if it alone exceeds the budget.
+ */
+export function selectContextWindow<T extends WindowTurn>(
+  turns: T[],
+  budget = DEFAULT_CONTEXT_TOKEN_BUDGET
+): { recent: T[]; older: T[] } {
+  let used = 0;
+  let start = turns.length;
+
+  while (start > 0) {
+    const cost = turnTokens(turns[start - 1]);
+    if (used + cost > budget && start < turns.length) break;
+    used += cost;
+    start--;
+  }
+
+  const recent = turns.slice(start);
+  if (recent.length === 1 && used > budget) {
+    const maxChars = Math.max(0, (budget - TOKENS_PER_TURN_OVERHEAD) * 4);
+    recent[0] = { ...recent[0], message: `…${recent[0].message.slice(-maxChars)}` };
+  }
+
+  return { recent, older: turns.slice(0, start) };
+}
+
+/**
+ * Keeps the end of an already-formatted transcript within the budget, cutting at a line break.
+ */
+export function trimToTokenBudget(text: string, budget = DEFAULT_CONTEXT_TOKEN_BUDGET): string {
+  if (estimateTokens(text) <= budget) return text;
+  const tail = text.slice(-budget * 4);
+  const lineStart = tail.indexOf('\n');
+  return lineStart >= 0 && lineStart < tail.length - 1 ? tail.slice(lineStart + 1) : tail;
+}
+
+/**
+ * Renders turns as "speaker: message" lines.
+ */
+export function formatTurns(turns: WindowTurn[]): string {
+  return turns.map(turn => `${turn.speaker}: ${turn.message}`).join('\n');
+}
+
+/**
+ * Renders the session memory for a prompt, or undefined when it is empty.
+ */
+export function formatSessionMemory(memory?: SessionMemory | null): string | undefined {
+  if (!memory) return undefined;
+  const lines = [
+    memory.themes.length ? `Themes: ${memory.themes.join('; ')}` : '',
+    memory.stressors.length ? `Disclosed stressors: ${memory.stressors.join('; ')}` : '',
+    memory.agreedActions.length ? `Agreed actions: ${memory.agreedActions.join('; ')}` : '',
+  ].filter(Boolean);
+  return lines.length ? lines.join('\n') : undefined;
+}
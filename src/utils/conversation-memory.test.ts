@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { withPendingTurns } from './conversation-memory';
+
+describe('withPendingTurns', () => {
+  it('leaves the summary alone when nothing is pending', () => {
+    expect(withPendingTurns('Talked about work', [])).toBe('Talked about work');
+    expect(withPendingTurns(undefined, [])).toBeUndefined();
+  });
+
+  it('appends turns that left the window before being summarized', () => {
+    const summary = withPendingTurns('Talked about work', [
+      { speaker: 'user', message: 'My sister is visiting' },
+      { speaker: 'ai', message: 'How do you feel about that?' },
+    ]);
+
+    expect(summary).toBe(
+      'Talked about work\n\nEarlier turns not yet summarized:\nuser: My sister is visiting\nai: How do you feel about that?'
+    );
+  });
+
+  it('keeps the newest pending turns within budget', () => {
+    const pending = Array.from({ length: 3 }, (_, index) => ({ speaker: 'user', message: `${index} ${'x'.repeat(800)}` }));
+    const summary = withPendingTurns(undefined, pending)!;
+
+    expect(summary).toContain('user: 2 ');
+    expect(summary).not.toContain('user: 0 ');
+    expect(summary.length).toBeLessThan(1400);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @fileOverview Rolling summarization memory for chat sessions
+ * Once turns scroll out of the token-budgeted context window they are folded into
+ * the session's rolling summary and structured memory, which every flow receives
+ * alongside the recent turns.
+ */
+
+import { summarizeConversation } from '@/ai/flows/summarize-conversation';
+import { getSession, getSessionTurns, saveSessionMemory } from '@/utils/chat-sessions';
+import {
+  formatTurns,
+  selectContextWindow,
+  trimToTokenBudget,
+  type SessionMemory,
+  type WindowTurn,
+} from '@/utils/context-window';
+
+export interface SessionContext {
+  conversationSummary?: string;
+  sessionMemory?: SessionMemory;
+  summarizedThrough?: string;
+}
+
+// Summarize in batches rather than after every aged-out turn
+const MIN_TURNS_TO_SUMMARIZE = 4;
+
+// Budget for the aged-out turns still waiting for the next batch
+const PENDING_TURNS_TOKEN_BUDGET = 300;
+
+const inFlight = new Set<string>();
+
+/**
+ * Loads the summary and memory to send with the next request.
+ */
+export async function getSessionContext(sessionId: string | null): Promise<SessionContext> {
+  if (!sessionId) return {};
+  try {
+    const session = await getSession(sessionId);
+    return {
+      conversationSummary: session?.rollingSummary || undefined,
+      sessionMemory: session?.memory,
+      summarizedThrough: session?.summarizedThrough,
+    };
+  } catch (error) {
+    console.error('Failed to load session memory', error);
+    return {};
+  }
+}
+
+/**
+ * Drops turns already covered by the rolling summary.
+ */
+export function unsummarizedTurns<T extends { timestamp: string }>(turns: T[], summarizedThrough?: string): T[] {
+  return summarizedThrough ? turns.filter(turn => turn.timestamp > summarizedThrough) : turns;
+}
+
+/**
+ * The rolling summary followed by the turns that have left the context window
+ * but are not summarized yet, trimmed to a small budget. Without them those
+ * turns would reach the model in neither the window nor the summary.
+ */
+export function withPendingTurns(summary: string | undefined, pending: WindowTurn[]): string | undefined {
+  if (pending.length === 0) return summary;
+  const transcript = trimToTokenBudget(formatTurns(pending), PENDING_TURNS_TOKEN_BUDGET);
+  return [summary, `Earlier turns not yet summarized:\n${transcript}`].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Folds turns that no longer fit the context window into the session's rolling
+ * summary and memory. Safe to call after every reply; it is a no-op until enough
+ * turns have aged out.
+ */
+export async function compactSessionMemory(sessionId: string): Promise<void> {
+  if (inFlight.has(sessionId)) return;
+  inFlight.add(sessionId);
+
+  try {
+    const session = await getSession(sessionId);
+    if (!session) return;
+
+    const pending = unsummarizedTurns(await getSessionTurns(sessionId), session.summarizedThrough)
+      .map(turn => ({ speaker: turn.speaker, message: turn.text, timestamp: turn.timestamp }));
+    const { older } = selectContextWindow(pending);
+    if (older.length < MIN_TURNS_TO_SUMMARIZE) return;
+
+    const { summary, memory } = await summarizeConversation({
+      previousSummary: session.rollingSummary,
+      previousMemory: session.memory,
+      turns: older,
+    });
+
+    await saveSessionMemory(sessionId, {
+      rollingSummary: summary,
+      summarizedThrough: older[older.length - 1].timestamp,
+      memory,
+    });
+  } catch (error) {
+    // The turns stay unsummarized and are retried after the next reply
+    console.error('Failed to update session memory', error);
+  } finally {
+    inFlight.delete(sessionId);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Semantic recall over past conversation turns
+ * Finds the stored user turns, from any session, most similar to the current
+ * message so the flows can ground references like "last week you mentioned…".
+ */
+
+import { VectorIndex } from '@/ai/retrieval/vector-index';
+import { getAllTurns, listSessions, turnEmbedder, type ChatTurn } from '@/utils/chat-sessions';
+
+export interface RecalledTurn {
+  content: string;
+  relevanceScore: number; // cosine similarity, 0-1
+  timestamp: string;
+  sessionId: string;
+  sessionTitle?: string;
+}
+
+export interface RecallOptions {
+  k?: number;
+  minScore?: number;
+  excludeIds?: string[]; // turns already visible in the current conversation
+}
+
+const DEFAULT_K = 3;
+const DEFAULT_MIN_SCORE = 0.12;
+const MIN_WORDS = 3;
+
+/**
+ * Returns the k most similar earlier user turns with their similarity scores.
+ */
+export async function recallRelevantTurns(query: string, options: RecallOptions = {}): Promise<RecalledTurn[]> {
+  const { k = DEFAULT_K, minScore = DEFAULT_MIN_SCORE, excludeIds = [] } = options;
+  if (!query.trim()) return [];
+
+  try {
+    const excluded = new Set(excludeIds);
+    const [turns, sessions] = await Promise.all([getAllTurns(), listSessions()]);
+    const titles = new Map(sessions.map(session => [session.id, session.title]));
+
+    const index = new VectorIndex<ChatTurn>();
+    index.upsert(
+      turns
+        .filter(turn => turn.speaker === 'user' && !excluded.has(turn.id) && turn.text.split(/\s+/).length >= MIN_WORDS)
+        .map(turn => ({
+          id: turn.id,
+          // Turns stored by an older or different embedder are re-embedded on the fly
+          vector: turn.embedding && turn.embedder === turnEmbedder.name ? turn.embedding : turnEmbedder.embedOne(turn.text),
+          data: turn,
+        }))
+    );
+
+    return index.search(turnEmbedder.embedOne(query), k, minScore).map(hit => ({
+      content: hit.data.text,
+      relevanceScore: Math.round(hit.score * 1000) / 1000,
+      timestamp: hit.data.timestamp,
+      sessionId: hit.data.sessionId,
+      sessionTitle: titles.get(hit.data.sessionId),
+    }));
+  } catch (error) {
+    console.error('Conversation recall failed', error);
+    return [];
+  }
+}
+
+/**
+ * Describes when a turn happened relative to now, e.g. "yesterday" or "last week".
+ */
+export function describeWhen(timestamp: string, now = new Date()): string {
+  const then = new Date(timestamp);
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const days = Math.round((startOfDay(now) - startOfDay(then)) / (24 * 60 * 60 * 1000));
+
+  if (days <= 0) return 'earlier today';
+  if (days === 1) return 'yesterday';
+  if (days < 7) return `${days} days ago`;
+  if (days < 14) return 'last week';
+  if (days < 31) return `${Math.floor(days / 7)} weeks ago`;
+  return `on ${then.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`;
+}
+
+/**
+ * Renders recalled turns as prompt lines the model can cite.
+ */
+export function formatRecalledTurns(turns: Array<Pick<RecalledTurn, 'content' | 'relevanceScore' | 'timestamp'>>, now = new Date()): string {
+  return turns
+    .map(turn => `- ${describeWhen(turn.timestamp, now)} (${turn.timestamp.slice(0, 10)}, relevance ${turn.relevanceScore.toFixed(2)}), the user said: "${turn.content}"`)
+    .join('\n');
+}
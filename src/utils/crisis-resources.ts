@@ -0,0 +1,97 @@
+/**
+ * @fileOverview Region-aware crisis resource directory for MITR AI
+ * Wraps the bundled, versioned dataset in `src/data/crisis-resources.json`
+ * and resolves the right hotlines, text lines and emergency numbers for a region.
+ */
+
+import dataset from '@/data/crisis-resources.json';
+
+export type CrisisResourceType = 'emergency' | 'hotline' | 'text' | 'web';
+
+export interface RegionalCrisisResource {
+  type: CrisisResourceType;
+  name: string;
+  contact: string;
+  description?: string;
+  hours?: string;
+}
+
+export interface CrisisDirectoryEntry {
+  region: string; // ISO 3166-1 alpha-2 code, or 'INTL' for the fallback
+  name: string;
+  locales: string[];
+  emergency: string;
+  resources: RegionalCrisisResource[];
+}
+
+interface CrisisDataset {
+  version: string;
+  updatedAt: string;
+  fallback: Omit<CrisisDirectoryEntry, 'region'>;
+  regions: Record<string, Omit<CrisisDirectoryEntry, 'region'>>;
+}
+
+const DATA = dataset as CrisisDataset;
+const REGION_STORAGE_KEY = 'mitr_ai_region';
+
+export const CRISIS_DATASET_VERSION = DATA.version;
+export const FALLBACK_REGION = 'INTL';
+
+/**
+ * Returns the crisis directory for a region, falling back to international resources.
+ */
+export function getCrisisDirectory(region?: string): CrisisDirectoryEntry {
+  const code = region?.toUpperCase();
+  const entry = code ? DATA.regions[code] : undefined;
+  return entry
+    ? { region: code!, ...entry }
+    : { region: FALLBACK_REGION, ...DATA.fallback };
+}
+
+/**
+ * Lists all regions in the dataset, sorted by display name.
+ */
+export function listCrisisRegions(): Array<{ region: string; name: string }> {
+  return Object.entries(DATA.regions)
+    .map(([region, entry]) => ({ region, name: entry.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Maps a BCP 47 locale (e.g. 'en-GB', 'hi-IN') to a supported region code.
+ */
+export function resolveRegionFromLocale(locale?: string): string {
+  if (!locale) return FALLBACK_REGION;
+
+  for (const [region, entry] of Object.entries(DATA.regions)) {
+    if (entry.locales.some(candidate => candidate.toLowerCase() === locale.toLowerCase())) {
+      return region;
+    }
+  }
+
+  const countryPart = locale.split('-')[1]?.toUpperCase();
+  return countryPart && DATA.regions[countryPart] ? countryPart : FALLBACK_REGION;
+}
+
+/**
+ * Reads the user's configured region, defaulting to the browser locale.
+ */
+export function getPreferredRegion(): string {
+  if (typeof window === 'undefined') return FALLBACK_REGION;
+  try {
+    return localStorage.getItem(REGION_STORAGE_KEY) || resolveRegionFromLocale(navigator.language);
+  } catch {
+    return resolveRegionFromLocale(navigator.language);
+  }
+}
+
+/**
+ * Persists the user's configured region.
+ */
+export function setPreferredRegion(region: string): void {
+  try {
+    localStorage.setItem(REGION_STORAGE_KEY, region);
+  } catch (error) {
+    console.warn('Failed to store preferred region:', error);
+  }
+}
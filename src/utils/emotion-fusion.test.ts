@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeTextLocally,
+  defaultRecommendations,
+  fuseEmotions,
+  type FacialEmotionResult,
+  type TextEmotionResult,
+  type VoiceEmotionResult,
+} from './emotion-fusion';
+
+const facial = (primary: string, confidence: number, valence: number, arousal: number): FacialEmotionResult => ({
+  primary,
+  confidence,
+  emotions: { [primary]: 1 },
+  valence,
+  arousal,
+});
+
+const voice = (primary: string, confidence: number, stress: number, energy: number): VoiceEmotionResult => ({
+  primary,
+  confidence,
+  emotions: { [primary]: 1 },
+  stress,
+  energy,
+});
+
+const text = (primary: string, confidence: number, sentiment: number): TextEmotionResult => ({
+  primary,
+  confidence,
+  emotions: { [primary]: 1 },
+  sentiment,
+  intensity: 0.5,
+});
+
+describe('fuseEmotions', () => {
+  it('weights equally confident modalities by their priors', () => {
+    const result = fuseEmotions({
+      facial: facial('happy', 1, 0.9, 0.6),
+      voice: voice('happy', 1, 0.2, 0.6),
+      text: text('sad', 1, 0.2),
+    });
+
+    expect(result.modalityWeights).toEqual({ facial: 0.4, voice: 0.35, text: 0.25 });
+    expect(result.primary).toBe('happy');
+    expect(result.emotions.happy).toBe(0.75);
+    expect(result.emotions.sad).toBe(0.25);
+  });
+
+  it('scales each weight by the modality\'s own confidence', () => {
+    const result = fuseEmotions({
+      facial: facial('happy', 0.5, 0.9, 0.6),
+      text: text('sad', 1, 0.4),
+    });
+
+    // 0.4 × 0.5 against 0.25 × 1
+    expect(result.modalityWeights).toEqual({ facial: 0.444, voice: 0, text: 0.556 });
+    expect(result.primary).toBe('sad');
+    expect(result.incongruence.detected).toBe(false);
+    expect(result.confidence).toBeCloseTo(0.444 * 0.5 + 0.556 * 1, 2);
+  });
+
+  it('falls back to the priors when every modality reports zero confidence', () => {
+    const result = fuseEmotions({
+      facial: facial('happy', 0, 0.9, 0.6),
+      text: text('sad', 0, -0.8),
+    });
+
+    expect(result.modalityWeights.facial).toBeCloseTo(0.4 / 0.65, 3);
+    expect(result.modalityWeights.text).toBeCloseTo(0.25 / 0.65, 3);
+    expect(result.confidence).toBe(0);
+  });
+
+  it('uses measured valence and arousal where a modality reports them', () => {
+    const result = fuseEmotions({
+      facial: facial('happy', 1, 0.9, 0.6),
+      text: text('sad', 1, -0.8),
+    });
+
+    // Facial valence 0.9 and arousal 0.6; text valence from sentiment (0.1), arousal from "sad" (0.25)
+    expect(result.readings).toEqual([
+      { modality: 'facial', primary: 'happy', weight: 0.615, valence: 0.9, arousal: 0.6 },
+      { modality: 'text', primary: 'sad', weight: 0.385, valence: 0.1, arousal: 0.25 },
+    ]);
+    expect(result.valence).toBeCloseTo((0.4 * 0.9 + 0.25 * 0.1) / 0.65, 3);
+    expect(result.arousal).toBeCloseTo((0.4 * 0.6 + 0.25 * 0.25) / 0.65, 3);
+  });
+
+  it('takes voice arousal from the higher of energy and stress', () => {
+    const result = fuseEmotions({ voice: voice('anxious', 0.9, 0.9, 0.5) });
+
+    expect(result.arousal).toBe(0.9);
+    expect(result.valence).toBe(0.2);
+  });
+
+  it('flags a smiling face over despairing text and discounts confidence', () => {
+    const result = fuseEmotions({
+      facial: facial('happy', 0.9, 0.9, 0.6),
+      text: text('sad', 0.9, -0.8),
+    });
+
+    expect(result.incongruence).toEqual({
+      detected: true,
+      score: 0.8,
+      pairs: [{
+        modalities: ['facial', 'text'],
+        valenceGap: 0.8,
+        description: 'Facial expression suggests happy while text suggests sad',
+      }],
+    });
+    expect(result.confidence).toBe(0.54);
+    expect(result.avatarExpression.expression).toBe('empathetic');
+  });
+
+  it('ignores a mismatch when either modality is unsure', () => {
+    const result = fuseEmotions({
+      facial: facial('happy', 0.3, 0.9, 0.6),
+      text: text('sad', 0.9, -0.8),
+    });
+
+    expect(result.incongruence).toEqual({ detected: false, score: 0, pairs: [] });
+  });
+
+  it('passes a single modality through unchanged', () => {
+    const result = fuseEmotions({ text: text('anxious', 0.7, -0.6) });
+
+    expect(result.modalityWeights).toEqual({ facial: 0, voice: 0, text: 1 });
+    expect(result.primary).toBe('anxious');
+    expect(result.confidence).toBe(0.7);
+    expect(result.valence).toBe(0.2);
+    expect(result.arousal).toBe(0.75);
+    expect(result.incongruence.detected).toBe(false);
+  });
+
+  it('is neutral when no modality is available', () => {
+    const result = fuseEmotions({});
+
+    expect(result.primary).toBe('neutral');
+    expect(result.emotions.neutral).toBe(1);
+    expect(result.readings).toEqual([]);
+    expect(result.confidence).toBe(0);
+  });
+});
+
+describe('analyzeTextLocally', () => {
+  it('reads distress from negative text', () => {
+    const result = analyzeTextLocally('I feel hopeless and alone, nothing matters anymore');
+
+    expect(result.modalityWeights).toEqual({ facial: 0, voice: 0, text: 1 });
+    expect(result.primary).toBe('sad');
+    expect(result.valence).toBeLessThan(0.5);
+    expect(result.distressLevel).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('reads positive text as positive valence and low distress', () => {
+    const result = analyzeTextLocally('I\'m so happy and grateful today, everything went well');
+
+    expect(result.primary).toBe('happy');
+    expect(result.valence).toBeGreaterThan(0.5);
+    expect(result.distressLevel).toBeLessThan(0.3);
+  });
+});
+
+describe('defaultRecommendations', () => {
+  const REFLECT = 'Reflect the user\'s feelings back with validation before offering suggestions';
+
+  it('suggests grounding for high arousal and an activity for low arousal', () => {
+    const anxious = defaultRecommendations(fuseEmotions({ voice: voice('anxious', 0.9, 0.9, 0.5) }));
+    const sad = defaultRecommendations(fuseEmotions({ text: text('sad', 0.8, -0.6) }));
+
+    expect(anxious).toContain('Offer a grounding or slow-breathing exercise to reduce physiological arousal');
+    expect(sad).toContain('Encourage a small, achievable activity to build momentum');
+    expect(anxious[0]).toBe('Prioritise emotional safety and ask whether the user has support available right now');
+  });
+
+  it('checks in first when the signals are mixed', () => {
+    const recommendations = defaultRecommendations(fuseEmotions({
+      facial: facial('happy', 0.9, 0.9, 0.6),
+      text: text('sad', 0.9, -0.8),
+    }));
+
+    expect(recommendations[0]).toBe('Gently check in about how the user is really feeling, as their signals seem mixed');
+    expect(recommendations[recommendations.length - 1]).toBe(REFLECT);
+  });
+
+  it('reinforces what is going well for positive valence', () => {
+    expect(defaultRecommendations(analyzeTextLocally('I\'m so happy and grateful today, everything went well'))).toEqual([
+      'Reinforce what is going well and explore what contributed to it',
+      REFLECT,
+    ]);
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * @fileOverview Deterministic multimodal emotion fusion for MITR AI
+ * Combines facial, voice and text emotion results with confidence-weighted late
+ * fusion over a shared vocabulary, derives valence/arousal numerically and flags
+ * cross-modal incongruence (e.g. a smiling face with despairing text).
+ */
+
+import { sentimentAnalyzer } from '@/utils/sentiment-analyzer';
+
+export type Modality = 'facial' | 'voice' | 'text';
+
+export const FUSED_EMOTIONS = [
+  'happy',
+  'sad',
+  'angry',
+  'fearful',
+  'surprised',
+  'disgusted',
+  'neutral',
+  'excited',
+  'frustrated',
+  'confused',
+  'anxious',
+  'hopeful',
+  'disappointed',
+  'grateful',
+  'lonely',
+  'overwhelmed',
+] as const;
+
+export type FusedEmotion = typeof FUSED_EMOTIONS[number];
+
+export type EmotionScores = Partial<Record<string, number>>;
+
+export interface FacialEmotionResult {
+  primary: string;
+  confidence: number;
+  emotions: EmotionScores;
+  arousal: number;
+  valence: number;
+}
+
+export interface VoiceEmotionResult {
+  primary: string;
+  confidence: number;
+  emotions: EmotionScores;
+  stress: number;
+  energy: number;
+}
+
+export interface TextEmotionResult {
+  primary: string;
+  confidence: number;
+  emotions: EmotionScores;
+  sentiment: number; // -1 to 1
+  intensity: number;
+}
+
+export interface FusionInput {
+  facial?: FacialEmotionResult | null;
+  voice?: VoiceEmotionResult | null;
+  text?: TextEmotionResult | null;
+}
+
+export interface ModalityReading {
+  modality: Modality;
+  primary: FusedEmotion;
+  weight: number; // normalised contribution to the fused result, 0-1
+  valence: number;
+  arousal: number;
+}
+
+export interface IncongruencePair {
+  modalities: [Modality, Modality];
+  valenceGap: number;
+  description: string;
+}
+
+export interface IncongruenceResult {
+  detected: boolean;
+  score: number; // largest confident valence gap, 0-1
+  pairs: IncongruencePair[];
+}
+
+export interface AvatarExpression {
+  expression: string;
+  intensity: number;
+  duration: number;
+}
+
+export interface FusionResult {
+  primary: FusedEmotion;
+  confidence: number;
+  emotions: Record<FusedEmotion, number>;
+  arousal: number;
+  valence: number;
+  distressLevel: number;
+  modalityWeights: Record<Modality, number>;
+  readings: ModalityReading[];
+  incongruence: IncongruenceResult;
+  avatarExpression: AvatarExpression;
+}
+
+// Prior reliability of each modality; scaled by each result's own confidence
+export const MODALITY_PRIORS: Record<Modality, number> = {
+  facial: 0.4,
+  voice: 0.35,
+  text: 0.25,
+};
+
+// Labels produced by a single modality that are not in the fused vocabulary
+const LABEL_MAP: Record<string, Partial<Record<FusedEmotion, number>>> = {
+  contempt: { disgusted: 1 },
+  calm: { neutral: 1 },
+  stressed: { anxious: 0.6, overwhelmed: 0.4 },
+  tired: { sad: 0.5, neutral: 0.5 },
+  confident: { happy: 0.5, hopeful: 0.5 },
+};
+
+// Position of each emotion on the circumplex model, both axes 0-1
+const CIRCUMPLEX: Record<FusedEmotion, { valence: number; arousal: number }> = {
+  happy: { valence: 0.85, arousal: 0.6 },
+  sad: { valence: 0.15, arousal: 0.25 },
+  angry: { valence: 0.15, arousal: 0.85 },
+  fearful: { valence: 0.1, arousal: 0.8 },
+  surprised: { valence: 0.55, arousal: 0.8 },
+  disgusted: { valence: 0.15, arousal: 0.55 },
+  neutral: { valence: 0.5, arousal: 0.35 },
+  excited: { valence: 0.85, arousal: 0.9 },
+  frustrated: { valence: 0.2, arousal: 0.7 },
+  confused: { valence: 0.4, arousal: 0.5 },
+  anxious: { valence: 0.2, arousal: 0.75 },
+  hopeful: { valence: 0.75, arousal: 0.45 },
+  disappointed: { valence: 0.2, arousal: 0.3 },
+  grateful: { valence: 0.85, arousal: 0.4 },
+  lonely: { valence: 0.15, arousal: 0.2 },
+  overwhelmed: { valence: 0.15, arousal: 0.8 },
+};
+
+// How much each emotion contributes to distress
+const DISTRESS_WEIGHTS: Partial<Record<FusedEmotion, number>> = {
+  sad: 0.8,
+  angry: 0.7,
+  fearful: 0.9,
+  disgusted: 0.5,
+  frustrated: 0.6,
+  confused: 0.3,
+  anxious: 0.85,
+  disappointed: 0.6,
+  lonely: 0.8,
+  overwhelmed: 1,
+};
+
+// A valence gap this large between two confident modalities counts as incongruent
+const INCONGRUENCE_THRESHOLD = 0.4;
+const MIN_CONFIDENCE_FOR_INCONGRUENCE = 0.5;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function emptyScores(): Record<FusedEmotion, number> {
+  return Object.fromEntries(FUSED_EMOTIONS.map(emotion => [emotion, 0])) as Record<FusedEmotion, number>;
+}
+
+function isFusedEmotion(label: string): label is FusedEmotion {
+  return (FUSED_EMOTIONS as readonly string[]).includes(label);
+}
+
+/**
+ * Projects a modality's scores onto the fused vocabulary and normalises them to sum to 1.
+ * Falls back to the reported primary emotion when no scores are present.
+ */
+export function toDistribution(emotions: EmotionScores, primary?: string): Record<FusedEmotion, number> {
+  const distribution = emptyScores();
+
+  const add = (label: string, score: number) => {
+    const key = label.toLowerCase();
+    if (isFusedEmotion(key)) {
+      distribution[key] += score;
+    } else if (LABEL_MAP[key]) {
+      for (const [target, share] of Object.entries(LABEL_MAP[key])) {
+        distribution[target as FusedEmotion] += score * (share ?? 0);
+      }
+    }
+  };
+
+  for (const [label, score] of Object.entries(emotions)) {
+    if (score && score > 0) add(label, clamp01(score));
+  }
+
+  let total = FUSED_EMOTIONS.reduce((sum, emotion) => sum + distribution[emotion], 0);
+  if (total === 0) {
+    add(primary ?? 'neutral', 1);
+    total = FUSED_EMOTIONS.reduce((sum, emotion) => sum + distribution[emotion], 0);
+  }
+  if (total === 0) {
+    distribution.neutral = 1;
+    total = 1;
+  }
+
+  for (const emotion of FUSED_EMOTIONS) {
+    distribution[emotion] /= total;
+  }
+  return distribution;
+}
+
+function argmax(distribution: Record<FusedEmotion, number>): FusedEmotion {
+  return FUSED_EMOTIONS.reduce((best, emotion) => (distribution[emotion] > distribution[best] ? emotion : best), 'neutral' as FusedEmotion);
+}
+
+// Valence and arousal (both 0-1) of a distribution over the fused vocabulary
+export function circumplexPosition(distribution: Record<FusedEmotion, number>): { valence: number; arousal: number } {
+  let valence = 0;
+  let arousal = 0;
+  for (const emotion of FUSED_EMOTIONS) {
+    valence += distribution[emotion] * CIRCUMPLEX[emotion].valence;
+    arousal += distribution[emotion] * CIRCUMPLEX[emotion].arousal;
+  }
+  return { valence, arousal };
+}
+
+const MODALITY_LABELS: Record<Modality, string> = {
+  facial: 'Facial expression',
+  voice: 'Voice tone',
+  text: 'Text',
+};
+
+function detectIncongruence(
+  readings: Array<ModalityReading & { confidence: number }>
+): IncongruenceResult {
+  const pairs: IncongruencePair[] = [];
+
+  for (let i = 0; i < readings.length; i++) {
+    for (let j = i + 1; j < readings.length; j++) {
+      const a = readings[i];
+      const b = readings[j];
+      if (a.confidence < MIN_CONFIDENCE_FOR_INCONGRUENCE || b.confidence < MIN_CONFIDENCE_FOR_INCONGRUENCE) continue;
+
+      const valenceGap = Math.abs(a.valence - b.valence);
+      if (valenceGap < INCONGRUENCE_THRESHOLD) continue;
+
+      pairs.push({
+        modalities: [a.modality, b.modality],
+        valenceGap: round(valenceGap),
+        description: `${MODALITY_LABELS[a.modality]} suggests ${a.primary} while ${MODALITY_LABELS[b.modality].toLowerCase()} suggests ${b.primary}`,
+      });
+    }
+  }
+
+  return {
+    detected: pairs.length > 0,
+    score: round(pairs.reduce((max, pair) => Math.max(max, pair.valenceGap), 0)),
+    pairs,
+  };
+}
+
+/**
+ * Picks the avatar's expression from the fused state. Distress takes precedence,
+ * then incongruence (gentle curiosity), then the primary emotion's family.
+ */
+export function selectAvatarExpression(
+  primary: FusedEmotion,
+  distressLevel: number,
+  arousal: number,
+  incongruent: boolean
+): AvatarExpression {
+  let expression: string;
+  if (distressLevel >= 0.7) {
+    expression = 'concerned';
+  } else if (incongruent) {
+    expression = 'empathetic';
+  } else {
+    switch (primary) {
+      case 'sad':
+      case 'lonely':
+      case 'disappointed':
+        expression = 'empathetic';
+        break;
+      case 'anxious':
+      case 'fearful':
+      case 'overwhelmed':
+      case 'angry':
+      case 'frustrated':
+      case 'disgusted':
+        expression = 'calm';
+        break;
+      case 'happy':
+      case 'excited':
+      case 'hopeful':
+      case 'grateful':
+        expression = 'encouraging';
+        break;
+      default:
+        expression = 'supportive';
+    }
+  }
+
+  return {
+    expression,
+    intensity: round(clamp01(0.3 + 0.4 * arousal + 0.3 * distressLevel), 2),
+    duration: 3 + Math.round(distressLevel * 5),
+  };
+}
+
+/**
+ * Fuses the available modality results. Each modality's contribution is its prior
+ * (facial 0.40, voice 0.35, text 0.25) scaled by its own confidence, renormalised
+ * over the modalities that are present. The result is fully reproducible for a given input.
+ */
+export function fuseEmotions(input: FusionInput): FusionResult {
+  const candidates: Array<{
+    modality: Modality;
+    confidence: number;
+    distribution: Record<FusedEmotion, number>;
+    measured: { valence?: number; arousal?: number };
+  }> = [];
+
+  if (input.facial) {
+    candidates.push({
+      modality: 'facial',
+      confidence: clamp01(input.facial.confidence),
+      distribution: toDistribution(input.facial.emotions, input.facial.primary),
+      measured: { valence: input.facial.valence, arousal: input.facial.arousal },
+    });
+  }
+  if (input.voice) {
+    candidates.push({
+      modality: 'voice',
+      confidence: clamp01(input.voice.confidence),
+      distribution: toDistribution(input.voice.emotions, input.voice.primary),
+      measured: { arousal: Math.max(input.voice.energy, input.voice.stress) },
+    });
+  }
+  if (input.text) {
+    candidates.push({
+      modality: 'text',
+      confidence: clamp01(input.text.confidence),
+      distribution: toDistribution(input.text.emotions, input.text.primary),
+      measured: { valence: (input.text.sentiment + 1) / 2 },
+    });
+  }
+
+  const rawWeights = candidates.map(candidate => MODALITY_PRIORS[candidate.modality] * candidate.confidence);
+  const totalWeight = rawWeights.reduce((sum, weight) => sum + weight, 0);
+  // If every modality reports zero confidence, fall back to the priors alone
+  const weights = totalWeight > 0
+    ? rawWeights.map(weight => weight / totalWeight)
+    : (() => {
+        const priorTotal = candidates.reduce((sum, candidate) => sum + MODALITY_PRIORS[candidate.modality], 0);
+        return candidates.map(candidate => MODALITY_PRIORS[candidate.modality] / priorTotal);
+      })();
+
+  const readings: Array<ModalityReading & { confidence: number }> = candidates.map((candidate, index) => {
+    const derived = circumplexPosition(candidate.distribution);
+    return {
+      modality: candidate.modality,
+      primary: argmax(candidate.distribution),
+      weight: round(weights[index]),
+      confidence: candidate.confidence,
+      valence: round(clamp01(candidate.measured.valence ?? derived.valence)),
+      arousal: round(clamp01(candidate.measured.arousal ?? derived.arousal)),
+    };
+  });
+
+  const emotions = emptyScores();
+  candidates.forEach((candidate, index) => {
+    for (const emotion of FUSED_EMOTIONS) {
+      emotions[emotion] += weights[index] * candidate.distribution[emotion];
+    }
+  });
+  if (candidates.length === 0) emotions.neutral = 1;
+
+  const valence = readings.length > 0
+    ? readings.reduce((sum, reading, index) => sum + weights[index] * reading.valence, 0)
+    : CIRCUMPLEX.neutral.valence;
+  const arousal = readings.length > 0
+    ? readings.reduce((sum, reading, index) => sum + weights[index] * reading.arousal, 0)
+    : CIRCUMPLEX.neutral.arousal;
+
+  const incongruence = detectIncongruence(readings);
+
+  // Masking (a positive face over negative words or voice) is itself a distress signal
+  const negativeMass = FUSED_EMOTIONS.reduce((sum, emotion) => sum + emotions[emotion] * (DISTRESS_WEIGHTS[emotion] ?? 0), 0);
+  const distressLevel = clamp01(0.6 * negativeMass + 0.4 * (1 - valence) + (incongruence.detected ? 0.15 * incongruence.score : 0));
+
+  // Confidence is the weighted modality confidence, discounted when the modalities disagree
+  const baseConfidence = readings.reduce((sum, reading, index) => sum + weights[index] * reading.confidence, 0);
+  const confidence = clamp01(baseConfidence * (1 - 0.5 * incongruence.score));
+
+  const primary = argmax(emotions);
+  const modalityWeights: Record<Modality, number> = { facial: 0, voice: 0, text: 0 };
+  readings.forEach(reading => { modalityWeights[reading.modality] = reading.weight; });
+
+  return {
+    primary,
+    confidence: round(confidence),
+    emotions: Object.fromEntries(FUSED_EMOTIONS.map(emotion => [emotion, round(emotions[emotion])])) as Record<FusedEmotion, number>,
+    arousal: round(clamp01(arousal)),
+    valence: round(clamp01(valence)),
+    distressLevel: round(distressLevel),
+    modalityWeights,
+    readings: readings.map(({ confidence: _confidence, ...reading }) => reading),
+    incongruence,
+    avatarExpression: selectAvatarExpression(primary, distressLevel, arousal, incongruence.detected),
+  };
+}
+
+/**
+ * Text-only fusion from the local keyword analyzer, for when no model call can be made.
+ */
+export function analyzeTextLocally(text: string): FusionResult {
+  const metrics = sentimentAnalyzer.analyzeText(text);
+  return fuseEmotions({
+    text: {
+      primary: metrics.emotion.primary,
+      confidence: metrics.emotion.confidence,
+      emotions: { [metrics.emotion.primary]: metrics.emotion.confidence },
+      sentiment: (metrics.health.wellnessScore - 50) / 50,
+      intensity: metrics.emotion.distressLevel,
+    },
+  });
+}
+
+/**
+ * Rule-based recommendations used when the recommendations prompt is unavailable.
+ */
+export function defaultRecommendations(fusion: FusionResult): string[] {
+  const recommendations: string[] = [];
+
+  if (fusion.incongruence.detected) {
+    recommendations.push('Gently check in about how the user is really feeling, as their signals seem mixed');
+  }
+  if (fusion.distressLevel >= 0.7) {
+    recommendations.push('Prioritise emotional safety and ask whether the user has support available right now');
+  }
+  if (fusion.arousal >= 0.65 && fusion.valence < 0.5) {
+    recommendations.push('Offer a grounding or slow-breathing exercise to reduce physiological arousal');
+  } else if (fusion.arousal < 0.35 && fusion.valence < 0.5) {
+    recommendations.push('Encourage a small, achievable activity to build momentum');
+  }
+  if (fusion.valence >= 0.6) {
+    recommendations.push('Reinforce what is going well and explore what contributed to it');
+  }
+  recommendations.push('Reflect the user\'s feelings back with validation before offering suggestions');
+
+  return recommendations.slice(0, 5);
+}
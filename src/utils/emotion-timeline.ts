@@ -0,0 +1,103 @@
+/**
+ * @fileOverview Per-turn emotion timeline for a chat session
+ * Turns the messages of a session into one point per analysed turn: fused
+ * valence, arousal and distress, the primary emotion, the per-modality readings
+ * when the comprehensive pipeline produced them, and markers for safety
+ * escalations and newly suggested interventions. Each point links to the user
+ * message it analyses.
+ *
+ * Turns restored from storage keep only their emotion scores, so their valence
+ * and arousal are derived from those scores and their distress is unknown.
+ */
+
+import { circumplexPosition, toDistribution, type Modality } from '@/utils/emotion-fusion';
+
+export interface TimelineModalityReading {
+  modality: Modality;
+  primary: string;
+  weight: number;
+  valence: number;
+  arousal: number;
+}
+
+// The parts of a chat message the timeline reads
+export interface TimelineMessage {
+  id: string;
+  speaker: 'user' | 'ai';
+  timestamp: string;
+  emotions?: Record<string, number>;
+  analysis?: {
+    emotionAnalysis: {
+      primary: string;
+      distressLevel: number;
+      valence?: number;
+      arousal?: number;
+      modalities?: TimelineModalityReading[];
+    };
+    interventions?: { immediate: string[] };
+    safetyAssessment?: { riskLevel: string; concerns: string[] };
+  };
+}
+
+export interface EmotionTimelinePoint {
+  turn: number; // 1-based
+  messageId: string; // the user message the turn analysed
+  timestamp: string;
+  primary: string;
+  valence: number; // 0-1
+  arousal: number; // 0-1
+  distress: number | null; // 0-1, null when not recorded
+  modalities: Partial<Record<Modality, TimelineModalityReading>>;
+  escalation: { riskLevel: string; concerns: string[] } | null;
+  interventions: string[]; // immediate interventions not suggested on the previous turn
+}
+
+const ESCALATION_LEVELS = ['high', 'critical'];
+
+function primaryOf(emotions: Record<string, number>): string {
+  const entries = Object.entries(emotions);
+  return entries.length ? entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0] : 'neutral';
+}
+
+/**
+ * One point per AI reply that carries emotion data, in conversation order.
+ */
+export function buildEmotionTimeline(messages: TimelineMessage[]): EmotionTimelinePoint[] {
+  const points: EmotionTimelinePoint[] = [];
+  let lastUserMessageId: string | null = null;
+  let previousInterventions: string[] = [];
+
+  for (const message of messages) {
+    if (message.speaker === 'user') {
+      lastUserMessageId = message.id;
+      continue;
+    }
+
+    const emotion = message.analysis?.emotionAnalysis;
+    if (!emotion && !message.emotions) continue;
+
+    const derived = circumplexPosition(toDistribution(message.emotions ?? {}, emotion?.primary));
+    const safety = message.analysis?.safetyAssessment;
+    const immediate = message.analysis?.interventions?.immediate ?? [];
+
+    points.push({
+      turn: points.length + 1,
+      messageId: lastUserMessageId ?? message.id,
+      timestamp: message.timestamp,
+      primary: emotion?.primary ?? primaryOf(message.emotions ?? {}),
+      valence: emotion?.valence ?? derived.valence,
+      arousal: emotion?.arousal ?? derived.arousal,
+      distress: emotion ? emotion.distressLevel : null,
+      modalities: Object.fromEntries((emotion?.modalities ?? []).map(reading => [reading.modality, reading])),
+      escalation: safety && ESCALATION_LEVELS.includes(safety.riskLevel)
+        ? { riskLevel: safety.riskLevel, concerns: safety.concerns }
+        : null,
+      interventions: immediate.filter(intervention => !previousInterventions.includes(intervention)),
+    });
+
+    if (message.analysis) previousInterventions = immediate;
+    lastUserMessageId = null;
+  }
+
+  return points;
+}
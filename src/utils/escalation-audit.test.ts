@@ -0,0 +1,35 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { getSessionEscalation, logEscalation } from './escalation-audit';
+
+const escalate = (sessionId: string, riskLevel: string, concerns: string[]) => logEscalation({
+  riskLevel,
+  concerns,
+  actions: [],
+  region: 'INTL',
+  resourcesShown: [],
+  sessionId,
+});
+
+describe('getSessionEscalation', () => {
+  it('restores the highest risk level with the latest concerns of the session', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2026-03-01T10:00:00.000Z'));
+      await escalate('session-a', 'critical', ['Stated plan']);
+      vi.setSystemTime(new Date('2026-03-01T10:05:00.000Z'));
+      await escalate('session-a', 'high', ['Hopelessness']);
+      await escalate('session-b', 'high', ['Self-harm urges']);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(await getSessionEscalation('session-a')).toEqual({
+      riskLevel: 'critical',
+      concerns: ['Hopelessness'],
+      timestamp: '2026-03-01T10:05:00.000Z',
+    });
+    expect(await getSessionEscalation('session-b')).toMatchObject({ riskLevel: 'high', concerns: ['Self-harm urges'] });
+    expect(await getSessionEscalation('session-c')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @fileOverview Local audit trail of safety escalations
+ * Every time the chat surfaces the crisis escalation card an entry is written to
+ * IndexedDB so clinicians can review when and why it appeared.
+ */
+
+import { ESCALATION_STORE, getAllRecords, putRecord } from '@/utils/analysis-cache';
+import { CRISIS_DATASET_VERSION } from '@/utils/crisis-resources';
+import { maxRiskLevel } from '@/utils/safety-gate';
+
+export interface EscalationAuditEntry {
+  id: string;
+  timestamp: string;
+  riskLevel: string;
+  concerns: string[];
+  actions: string[];
+  region: string;
+  datasetVersion: string;
+  resourcesShown: string[];
+  messageId?: string;
+  sessionId?: string;
+}
+
+type EscalationListener = () => void;
+
+// The profile's escalation history subscribes so entries logged from the chat or a check-in appear at once
+const listeners = new Set<EscalationListener>();
+
+export function subscribeToEscalations(listener: EscalationListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Records an escalation. Failures are logged but never block the chat.
+ */
+export async function logEscalation(
+  entry: Omit<EscalationAuditEntry, 'id' | 'timestamp' | 'datasetVersion'>
+): Promise<EscalationAuditEntry | null> {
+  const record: EscalationAuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    datasetVersion: CRISIS_DATASET_VERSION,
+    ...entry,
+  };
+
+  try {
+    await putRecord(ESCALATION_STORE, record);
+    listeners.forEach(listener => listener());
+    return record;
+  } catch (error) {
+    console.error('Failed to log escalation', error);
+    return null;
+  }
+}
+
+/**
+ * Returns all recorded escalations, newest first.
+ */
+export async function getEscalations(): Promise<EscalationAuditEntry[]> {
+  try {
+    const entries = await getAllRecords<EscalationAuditEntry>(ESCALATION_STORE);
+    return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } catch (error) {
+    console.error('Failed to read escalation audit trail', error);
+    return [];
+  }
+}
+
+/**
+ * The escalation card state for a stored session: the highest risk level shown in
+ * it, with the concerns and time of the latest escalation. Null when crisis
+ * resources were never shown in that session.
+ */
+export async function getSessionEscalation(
+  sessionId: string
+): Promise<Pick<EscalationAuditEntry, 'riskLevel' | 'concerns' | 'timestamp'> | null> {
+  const entries = (await getEscalations()).filter(entry => entry.sessionId === sessionId);
+  if (entries.length === 0) return null;
+  const [latest] = entries;
+  return {
+    riskLevel: entries.reduce<string>((highest, entry) => maxRiskLevel(highest, entry.riskLevel), latest.riskLevel),
+    concerns: latest.concerns,
+    timestamp: latest.timestamp,
+  };
+}
+
+/**
+ * Serialises the audit trail as JSON for the user to share with a clinician.
+ */
+export async function exportEscalations(): Promise<string> {
+  const entries = await getEscalations();
+  return JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2);
+}
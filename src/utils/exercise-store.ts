@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Local record of guided exercise sessions
+ * Each time the player is opened a session is written to IndexedDB with how far
+ * the user got and the mood they reported before and after, so it is possible to
+ * see which exercises actually help.
+ */
+
+import { EXERCISE_STORE, getAllRecords, putRecord } from '@/utils/analysis-cache';
+import type { ExerciseId } from '@/utils/guided-exercises';
+
+export interface ExerciseSession {
+  id: string;
+  exerciseId: ExerciseId;
+  startedAt: string;
+  endedAt: string;
+  completed: boolean;
+  stepsCompleted: number;
+  totalSteps: number;
+  moodBefore: number | null; // 0 (very low) - 10 (very good)
+  moodAfter: number | null;
+  messageId?: string; // the AI reply that suggested the exercise
+  sessionId?: string;
+}
+
+type ExerciseSessionsListener = () => void;
+
+const listeners = new Set<ExerciseSessionsListener>();
+
+export function subscribeToExerciseSessions(listener: ExerciseSessionsListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyExerciseSessionsChange(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Records a finished or abandoned exercise. Failures are logged but never block the player.
+ */
+export async function recordExerciseSession(session: Omit<ExerciseSession, 'id'>): Promise<ExerciseSession | null> {
+  const record: ExerciseSession = { id: crypto.randomUUID(), ...session };
+  try {
+    await putRecord(EXERCISE_STORE, record);
+    notifyExerciseSessionsChange();
+    return record;
+  } catch (error) {
+    console.error('Failed to record exercise session', error);
+    return null;
+  }
+}
+
+/**
+ * Returns all recorded exercise sessions, newest first.
+ */
+export async function getExerciseSessions(): Promise<ExerciseSession[]> {
+  try {
+    const sessions = await getAllRecords<ExerciseSession>(EXERCISE_STORE);
+    return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  } catch (error) {
+    console.error('Failed to read exercise sessions', error);
+    return [];
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * @fileOverview Facial expression analysis for the chat camera
+ * By default runs MediaPipe's face landmarker on the camera preview in the
+ * browser, keeps a short window of per-frame features and publishes a summary
+ * every couple of seconds. Frames are read straight from the <video> element and
+ * never encoded or sent anywhere; only the model and its WASM runtime are
+ * downloaded, from the URLs below unless NEXT_PUBLIC_MEDIAPIPE_WASM_URL /
+ * NEXT_PUBLIC_FACE_LANDMARKER_MODEL_URL point at a self-hosted copy.
+ *
+ * With NEXT_PUBLIC_FACIAL_ANALYSIS_MODE=server, frames are instead sent to
+ * /api/facial-analysis every NEXT_PUBLIC_FACIAL_ANALYSIS_INTERVAL_MS, for
+ * deployments that prefer the hosted model.
+ */
+
+import type { FaceLandmarker } from '@mediapipe/tasks-vision';
+import {
+  analyzeFacialFrame,
+  summarizeFacialFrames,
+  type FacialExpressionSummary,
+  type FacialFrameSample,
+  type FacialReading,
+} from '@/utils/facial-expression';
+import { captureImageFromVideo } from '@/utils/multimodal-helpers';
+
+const WASM_URL = process.env.NEXT_PUBLIC_MEDIAPIPE_WASM_URL
+  || 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@1.0.1/wasm';
+const MODEL_URL = process.env.NEXT_PUBLIC_FACE_LANDMARKER_MODEL_URL
+  || 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+
+const SAMPLE_INTERVAL_MS = 200; // 5 frames per second is plenty for expressions
+const SUMMARY_INTERVAL_MS = 2000;
+const WINDOW_MS = 10000;
+
+const SERVER_MODE = process.env.NEXT_PUBLIC_FACIAL_ANALYSIS_MODE === 'server';
+const SERVER_FRAME_INTERVAL_MS = Number(process.env.NEXT_PUBLIC_FACIAL_ANALYSIS_INTERVAL_MS) || 5000;
+const SERVER_FRAME_MAX_EDGE = 640; // the route downscales further; this just keeps uploads small
+
+type FacialReadingListener = (reading: FacialReading | null) => void;
+
+export interface FacialReadingSource {
+  /** Starts analysing the given video element; rejects when analysis cannot start. */
+  start(video: HTMLVideoElement): Promise<void>;
+  stop(): void;
+  /** Latest reading, or null when no face has been seen recently. */
+  getSummary(): FacialReading | null;
+  subscribe(listener: FacialReadingListener): () => void;
+}
+
+async function createLandmarker(): Promise<FaceLandmarker> {
+  const { FaceLandmarker, FilesetResolver } = await import('@mediapipe/tasks-vision');
+  const fileset = await FilesetResolver.forVisionTasks(WASM_URL);
+  const create = (delegate: 'GPU' | 'CPU') => FaceLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: MODEL_URL, delegate },
+    runningMode: 'VIDEO',
+    numFaces: 1,
+    outputFaceBlendshapes: true,
+    outputFacialTransformationMatrixes: true,
+  });
+  try {
+    return await create('GPU');
+  } catch (error) {
+    console.warn('GPU face landmarker unavailable, falling back to CPU:', error);
+    return create('CPU');
+  }
+}
+
+class FacialAnalyzer implements FacialReadingSource {
+  private static instance: FacialAnalyzer;
+  private landmarker: Promise<FaceLandmarker> | null = null;
+  private video: HTMLVideoElement | null = null;
+  private samples: FacialFrameSample[] = [];
+  private sampleTimer: ReturnType<typeof setInterval> | null = null;
+  private summaryTimer: ReturnType<typeof setInterval> | null = null;
+  private lastVideoTime = -1;
+  private summary: FacialExpressionSummary | null = null;
+  private readonly listeners = new Set<FacialReadingListener>();
+
+  private constructor() {}
+
+  static getInstance(): FacialAnalyzer {
+    if (!FacialAnalyzer.instance) {
+      FacialAnalyzer.instance = new FacialAnalyzer();
+    }
+    return FacialAnalyzer.instance;
+  }
+
+  /**
+   * Starts analysing the given video element. Rejects when the model cannot be
+   * loaded (e.g. offline or no WebAssembly), leaving the analyzer stopped.
+   */
+  async start(video: HTMLVideoElement): Promise<void> {
+    this.stop();
+    this.video = video;
+
+    if (!this.landmarker) {
+      this.landmarker = createLandmarker();
+      this.landmarker.catch(() => {
+        this.landmarker = null; // allow a retry on the next start
+      });
+    }
+    const landmarker = await this.landmarker;
+    if (this.video !== video) return; // stopped or restarted while loading
+
+    this.sampleTimer = setInterval(() => this.sample(landmarker), SAMPLE_INTERVAL_MS);
+    this.summaryTimer = setInterval(() => this.publish(), SUMMARY_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.sampleTimer) clearInterval(this.sampleTimer);
+    if (this.summaryTimer) clearInterval(this.summaryTimer);
+    this.sampleTimer = null;
+    this.summaryTimer = null;
+    this.video = null;
+    this.samples = [];
+    this.lastVideoTime = -1;
+    if (this.summary) {
+      this.summary = null;
+      this.listeners.forEach(listener => listener(null));
+    }
+  }
+
+  /** Latest summary, or null when no face has been seen recently. */
+  getSummary(): FacialExpressionSummary | null {
+    return this.summary;
+  }
+
+  subscribe(listener: FacialReadingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private sample(landmarker: FaceLandmarker): void {
+    const video = this.video;
+    if (!video || video.readyState < 2 || document.hidden) return;
+    // Skip until the camera delivers a new frame
+    if (video.currentTime === this.lastVideoTime) return;
+    this.lastVideoTime = video.currentTime;
+
+    const now = performance.now();
+    try {
+      const result = landmarker.detectForVideo(video, now);
+      const categories = result.faceBlendshapes[0]?.categories;
+      const features = categories
+        ? analyzeFacialFrame(
+            Object.fromEntries(categories.map(category => [category.categoryName, category.score])),
+            result.facialTransformationMatrixes[0]?.data
+          )
+        : null;
+      this.samples.push({ timestamp: now, features });
+    } catch (error) {
+      console.error('Face landmark detection failed:', error);
+      return;
+    }
+
+    const cutoff = now - WINDOW_MS;
+    while (this.samples.length && this.samples[0].timestamp < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  private publish(): void {
+    this.summary = summarizeFacialFrames(this.samples);
+    this.listeners.forEach(listener => listener(this.summary));
+  }
+}
+
+class ServerFacialAnalyzer implements FacialReadingSource {
+  private static instance: ServerFacialAnalyzer;
+  private video: HTMLVideoElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending = false;
+  private pausedUntil = 0;
+  private reading: FacialReading | null = null;
+  private readonly listeners = new Set<FacialReadingListener>();
+
+  private constructor() {}
+
+  static getInstance(): ServerFacialAnalyzer {
+    if (!ServerFacialAnalyzer.instance) {
+      ServerFacialAnalyzer.instance = new ServerFacialAnalyzer();
+    }
+    return ServerFacialAnalyzer.instance;
+  }
+
+  async start(video: HTMLVideoElement): Promise<void> {
+    this.stop();
+    this.video = video;
+    this.timer = setInterval(() => this.sendFrame(), SERVER_FRAME_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.video = null;
+    this.pausedUntil = 0;
+    if (this.reading) {
+      this.reading = null;
+      this.listeners.forEach(listener => listener(null));
+    }
+  }
+
+  getSummary(): FacialReading | null {
+    return this.reading;
+  }
+
+  subscribe(listener: FacialReadingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async sendFrame(): Promise<void> {
+    const video = this.video;
+    if (!video || video.readyState < 2 || document.hidden || this.pending || Date.now() < this.pausedUntil) return;
+    const image = captureImageFromVideo(video, SERVER_FRAME_MAX_EDGE);
+    if (!image) return;
+
+    this.pending = true;
+    try {
+      const response = await fetch('/api/facial-analysis', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image }),
+      });
+      if (response.status === 429) {
+        // Back off for as long as the server asks
+        this.pausedUntil = Date.now() + (Number(response.headers.get('Retry-After')) || 10) * 1000;
+        return;
+      }
+      if (!response.ok) throw new Error(`Facial analysis request failed: ${response.status}`);
+
+      const reading: FacialReading = await response.json();
+      if (this.video !== video) return; // stopped while the request was in flight
+      this.reading = reading;
+      this.listeners.forEach(listener => listener(reading));
+    } catch (error) {
+      console.error('Server facial analysis failed:', error);
+    } finally {
+      this.pending = false;
+    }
+  }
+}
+
+export const facialAnalyzer: FacialReadingSource = SERVER_MODE
+  ? ServerFacialAnalyzer.getInstance()
+  : FacialAnalyzer.getInstance();
@@ -0,0 +1,263 @@
+/**
+ * @fileOverview Facial expression features from face-landmark blendshapes
+ * Turns the per-frame output of an on-device face landmarker (ARKit-style
+ * blendshape scores and the head's transformation matrix) into FACS action-unit
+ * proxies, head pose and gaze, and summarises a window of frames into expression
+ * scores, engagement and attention. Only these numbers leave the device.
+ *
+ * Emotion scores are weighted sums of the prototype action units for each basic
+ * emotion (EMFACS), e.g. happy = cheek raiser (AU6) + lip corner puller (AU12).
+ * A frame is attentive when the face is within ±25° yaw / ±20° pitch of the
+ * camera, the eyes are open and the gaze is not turned away. Engagement blends
+ * attention (60%) with expressivity (40%), the frame-to-frame variation of the
+ * action units, since a fixed, flat face is less engaged than one that reacts.
+ */
+
+import { circumplexPosition, toDistribution, type FacialEmotionResult } from '@/utils/emotion-fusion';
+
+export type ActionUnit =
+  | 'AU1' // inner brow raiser
+  | 'AU2' // outer brow raiser
+  | 'AU4' // brow lowerer
+  | 'AU5' // upper lid raiser
+  | 'AU6' // cheek raiser
+  | 'AU7' // lid tightener
+  | 'AU9' // nose wrinkler
+  | 'AU10' // upper lip raiser
+  | 'AU12' // lip corner puller
+  | 'AU14' // dimpler
+  | 'AU15' // lip corner depressor
+  | 'AU17' // chin raiser
+  | 'AU20' // lip stretcher
+  | 'AU23' // lip tightener
+  | 'AU26' // jaw drop
+  | 'AU43'; // eyes closed
+
+export type ActionUnits = Record<ActionUnit, number>;
+
+export type FacialExpression = 'happy' | 'sad' | 'angry' | 'fearful' | 'surprised' | 'disgusted' | 'contempt' | 'neutral';
+
+export interface HeadPose {
+  yaw: number; // degrees, 0 facing the camera
+  pitch: number;
+  roll: number;
+}
+
+export interface FacialFrameFeatures {
+  actionUnits: ActionUnits; // 0-1
+  asymmetry: number; // one-sided smile or dimple, 0-1
+  headPose: HeadPose | null;
+  gaze: { x: number; y: number }; // -1 to 1 relative to the head, 0 straight ahead
+}
+
+export interface FacialFrameSample {
+  timestamp: number; // ms
+  features: FacialFrameFeatures | null; // null when no face was found
+}
+
+// The `facial` section of the chat's analysis panel
+export interface FacialAnalysis {
+  emotions: Record<string, number>;
+  engagement: number; // 0-100
+  attention: number; // 0-100
+  timestamp: string;
+}
+
+export interface FacialExpressionSummary {
+  facial: FacialAnalysis;
+  emotion: FacialEmotionResult & { emotions: Record<string, number> };
+  actionUnits: ActionUnits; // mean over the frames with a face
+  faceVisible: number; // share of frames with a face, 0-1
+  frames: number;
+}
+
+// What the chat needs from a facial analysis, whether computed here or by /api/facial-analysis
+export type FacialReading = Pick<FacialExpressionSummary, 'facial' | 'emotion'>;
+
+// Each action unit is the mean of these blendshapes (left/right pairs)
+const ACTION_UNIT_BLENDSHAPES: Record<ActionUnit, string[]> = {
+  AU1: ['browInnerUp'],
+  AU2: ['browOuterUpLeft', 'browOuterUpRight'],
+  AU4: ['browDownLeft', 'browDownRight'],
+  AU5: ['eyeWideLeft', 'eyeWideRight'],
+  AU6: ['cheekSquintLeft', 'cheekSquintRight'],
+  AU7: ['eyeSquintLeft', 'eyeSquintRight'],
+  AU9: ['noseSneerLeft', 'noseSneerRight'],
+  AU10: ['mouthUpperUpLeft', 'mouthUpperUpRight'],
+  AU12: ['mouthSmileLeft', 'mouthSmileRight'],
+  AU14: ['mouthDimpleLeft', 'mouthDimpleRight'],
+  AU15: ['mouthFrownLeft', 'mouthFrownRight'],
+  AU17: ['mouthShrugLower'],
+  AU20: ['mouthStretchLeft', 'mouthStretchRight'],
+  AU23: ['mouthPressLeft', 'mouthPressRight'],
+  AU26: ['jawOpen'],
+  AU43: ['eyeBlinkLeft', 'eyeBlinkRight'],
+};
+
+// Blendshape scores sit around 0.1 on a resting face and rarely pass 0.6 for a
+// natural expression, so that range is stretched to 0-1
+const BLENDSHAPE_REST = 0.1;
+const BLENDSHAPE_FULL = 0.6;
+
+// Prototype action units for each expression, with weights summing to 1
+const EXPRESSION_PROTOTYPES: Record<Exclude<FacialExpression, 'neutral' | 'contempt'>, Partial<ActionUnits>> = {
+  happy: { AU6: 0.4, AU12: 0.6 },
+  sad: { AU1: 0.35, AU4: 0.25, AU15: 0.4 },
+  surprised: { AU1: 0.2, AU2: 0.3, AU5: 0.2, AU26: 0.3 },
+  fearful: { AU1: 0.15, AU2: 0.1, AU4: 0.15, AU5: 0.25, AU20: 0.25, AU26: 0.1 },
+  angry: { AU4: 0.45, AU7: 0.2, AU23: 0.35 },
+  disgusted: { AU9: 0.5, AU10: 0.3, AU15: 0.2 },
+};
+
+const ATTENTION_MAX_YAW = 25;
+const ATTENTION_MAX_PITCH = 20;
+const ATTENTION_MAX_GAZE = 0.5;
+const EYES_CLOSED = 0.6;
+
+// Mean per-unit standard deviation that counts as fully expressive
+const EXPRESSIVITY_FULL_SCALE = 0.1;
+
+// Below this share of frames with a face there is too little to summarise
+export const MIN_FACE_VISIBLE = 0.3;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+const mean = (values: number[]) => (values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0);
+
+const ACTION_UNITS = Object.keys(ACTION_UNIT_BLENDSHAPES) as ActionUnit[];
+
+/**
+ * Head rotation from a face landmarker's 4x4 facial transformation matrix
+ * (column-major), as yaw/pitch/roll in degrees.
+ */
+export function headPoseFromMatrix(data: number[]): HeadPose | null {
+  if (data.length < 16) return null;
+  const at = (row: number, column: number) => data[column * 4 + row];
+  const degrees = (radians: number) => round((radians * 180) / Math.PI, 1);
+  return {
+    yaw: degrees(Math.asin(Math.max(-1, Math.min(1, -at(2, 0))))),
+    pitch: degrees(Math.atan2(at(2, 1), at(2, 2))),
+    roll: degrees(Math.atan2(at(1, 0), at(0, 0))),
+  };
+}
+
+/**
+ * Action units, asymmetry, head pose and gaze for one frame.
+ */
+export function analyzeFacialFrame(blendshapes: Record<string, number>, transformationMatrix?: number[]): FacialFrameFeatures {
+  const score = (name: string) => clamp01(blendshapes[name] ?? 0);
+  const actionUnits = {} as ActionUnits;
+  for (const unit of ACTION_UNITS) {
+    const raw = mean(ACTION_UNIT_BLENDSHAPES[unit].map(score));
+    // Eye closure is already a 0-1 measure; the rest are stretched out of their resting range
+    actionUnits[unit] = unit === 'AU43' ? raw : clamp01((raw - BLENDSHAPE_REST) / (BLENDSHAPE_FULL - BLENDSHAPE_REST));
+  }
+
+  const asymmetry = clamp01(
+    (Math.abs(score('mouthSmileLeft') - score('mouthSmileRight')) + Math.abs(score('mouthDimpleLeft') - score('mouthDimpleRight'))) /
+      (BLENDSHAPE_FULL - BLENDSHAPE_REST)
+  );
+
+  // "In" looks toward the nose, so the two eyes' in/out scores point opposite ways
+  const gaze = {
+    x: ((score('eyeLookOutLeft') - score('eyeLookInLeft')) + (score('eyeLookInRight') - score('eyeLookOutRight'))) / 2,
+    y: (score('eyeLookUpLeft') + score('eyeLookUpRight') - score('eyeLookDownLeft') - score('eyeLookDownRight')) / 2,
+  };
+
+  return {
+    actionUnits,
+    asymmetry,
+    headPose: transformationMatrix ? headPoseFromMatrix(transformationMatrix) : null,
+    gaze,
+  };
+}
+
+/**
+ * Expression scores for one frame, normalised to sum to 1. Neutral takes up
+ * whatever the strongest expression leaves.
+ */
+export function expressionScores(features: FacialFrameFeatures): Record<FacialExpression, number> {
+  const scores = {} as Record<FacialExpression, number>;
+  (Object.keys(EXPRESSION_PROTOTYPES) as Array<keyof typeof EXPRESSION_PROTOTYPES>).forEach(expression => {
+    const prototype = EXPRESSION_PROTOTYPES[expression];
+    scores[expression] = (Object.keys(prototype) as ActionUnit[])
+      .reduce((total, unit) => total + (prototype[unit] ?? 0) * features.actionUnits[unit], 0);
+  });
+  scores.contempt = clamp01(0.6 * features.asymmetry + 0.4 * features.actionUnits.AU14) * (1 - features.actionUnits.AU6);
+
+  const strongest = Math.max(...Object.values(scores));
+  scores.neutral = 1 - strongest;
+
+  const total = Object.values(scores).reduce((sum, value) => sum + value, 0);
+  (Object.keys(scores) as FacialExpression[]).forEach(expression => {
+    scores[expression] = total > 0 ? scores[expression] / total : expression === 'neutral' ? 1 : 0;
+  });
+  return scores;
+}
+
+export function isAttentive(features: FacialFrameFeatures): boolean {
+  const { headPose, gaze, actionUnits } = features;
+  const facingCamera = !headPose || (Math.abs(headPose.yaw) <= ATTENTION_MAX_YAW && Math.abs(headPose.pitch) <= ATTENTION_MAX_PITCH);
+  const lookingAhead = Math.abs(gaze.x) <= ATTENTION_MAX_GAZE && Math.abs(gaze.y) <= ATTENTION_MAX_GAZE;
+  return facingCamera && lookingAhead && actionUnits.AU43 < EYES_CLOSED;
+}
+
+function expressivity(frames: FacialFrameFeatures[]): number {
+  if (frames.length < 2) return 0;
+  const deviations = ACTION_UNITS.filter(unit => unit !== 'AU43').map(unit => {
+    const values = frames.map(frame => frame.actionUnits[unit]);
+    const average = mean(values);
+    return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+  });
+  return clamp01(mean(deviations) / EXPRESSIVITY_FULL_SCALE);
+}
+
+/**
+ * Summary of a window of frames, or null when a face was visible in too few of them.
+ */
+export function summarizeFacialFrames(samples: FacialFrameSample[], at: Date = new Date()): FacialExpressionSummary | null {
+  const faces = samples.map(sample => sample.features).filter((features): features is FacialFrameFeatures => features !== null);
+  const faceVisible = samples.length ? faces.length / samples.length : 0;
+  if (faces.length === 0 || faceVisible < MIN_FACE_VISIBLE) return null;
+
+  const frameScores = faces.map(expressionScores);
+  const expressions = Object.keys(frameScores[0]) as FacialExpression[];
+  const emotions = {} as Record<FacialExpression, number>;
+  for (const expression of expressions) {
+    emotions[expression] = mean(frameScores.map(scores => scores[expression]));
+  }
+  const primary = expressions.reduce((best, expression) => (emotions[expression] > emotions[best] ? expression : best), 'neutral' as FacialExpression);
+
+  const actionUnits = {} as ActionUnits;
+  for (const unit of ACTION_UNITS) {
+    actionUnits[unit] = round(mean(faces.map(frame => frame.actionUnits[unit])));
+  }
+
+  // Frames without a face count as inattentive
+  const attention = faces.filter(isAttentive).length / samples.length;
+  const engagement = 0.6 * attention + 0.4 * expressivity(faces);
+  const { valence, arousal } = circumplexPosition(toDistribution(emotions));
+
+  const roundedEmotions = Object.fromEntries(
+    expressions.filter(expression => emotions[expression] >= 0.01).map(expression => [expression, round(emotions[expression])])
+  );
+
+  return {
+    facial: {
+      emotions: roundedEmotions,
+      engagement: Math.round(engagement * 100),
+      attention: Math.round(attention * 100),
+      timestamp: at.toISOString(),
+    },
+    emotion: {
+      primary,
+      confidence: round(emotions[primary] * faceVisible),
+      emotions: roundedEmotions,
+      arousal: round(arousal),
+      valence: round(valence),
+    },
+    actionUnits,
+    faceVisible: round(faceVisible),
+    frames: samples.length,
+  };
+}
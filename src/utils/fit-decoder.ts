@@ -0,0 +1,189 @@
+/**
+ * @fileOverview Minimal decoder for Garmin FIT files
+ * Reads the message stream of a FIT file (definition and data messages, including
+ * compressed-timestamp headers and chained files) into plain field maps keyed by
+ * FIT field number. Mapping messages to meaning is left to the caller; see the
+ * Garmin importer in wearable-importers.ts.
+ */
+
+export interface FitMessage {
+  globalNumber: number;
+  // Field number -> value; arrays for multi-value fields, null for FIT's "invalid" marker
+  fields: Record<number, number | number[] | string | null>;
+}
+
+// Global message numbers the importer reads
+export const FIT_MESSAGE = {
+  record: 20,
+  monitoring: 55,
+  hrv: 78,
+  monitoringHrData: 211,
+  stressLevel: 227,
+  spo2Data: 269,
+  sleepLevel: 275,
+  respirationRate: 297,
+} as const;
+
+export const FIT_TIMESTAMP_FIELD = 253;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31);
+
+export function fitTimeToDate(seconds: number): Date {
+  return new Date(FIT_EPOCH_MS + seconds * 1000);
+}
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+interface BaseType {
+  size: number;
+  read: (view: DataView, offset: number, littleEndian: boolean) => number;
+  invalid: number;
+}
+
+// Keyed by the base type number (low five bits of the base type byte)
+const BASE_TYPES: Record<number, BaseType> = {
+  0x00: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xff }, // enum
+  0x01: { size: 1, read: (view, offset) => view.getInt8(offset), invalid: 0x7f },
+  0x02: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xff },
+  0x03: { size: 2, read: (view, offset, le) => view.getInt16(offset, le), invalid: 0x7fff },
+  0x04: { size: 2, read: (view, offset, le) => view.getUint16(offset, le), invalid: 0xffff },
+  0x05: { size: 4, read: (view, offset, le) => view.getInt32(offset, le), invalid: 0x7fffffff },
+  0x06: { size: 4, read: (view, offset, le) => view.getUint32(offset, le), invalid: 0xffffffff },
+  0x08: { size: 4, read: (view, offset, le) => view.getFloat32(offset, le), invalid: NaN },
+  0x09: { size: 8, read: (view, offset, le) => view.getFloat64(offset, le), invalid: NaN },
+  0x0a: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0x00 }, // uint8z
+  0x0b: { size: 2, read: (view, offset, le) => view.getUint16(offset, le), invalid: 0x0000 },
+  0x0c: { size: 4, read: (view, offset, le) => view.getUint32(offset, le), invalid: 0x00000000 },
+  0x0d: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xff }, // byte
+};
+
+const STRING_BASE_TYPE = 0x07;
+
+function readField(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): FitMessage['fields'][number] {
+  const baseNumber = field.baseType & 0x1f;
+
+  if (baseNumber === STRING_BASE_TYPE) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+    const end = bytes.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+  }
+
+  // 64-bit and unknown types are skipped rather than misread
+  const type = BASE_TYPES[baseNumber];
+  if (!type || field.size % type.size !== 0) return null;
+
+  const values: (number | null)[] = [];
+  for (let i = 0; i < field.size; i += type.size) {
+    const value = type.read(view, offset + i, littleEndian);
+    values.push(value === type.invalid || Number.isNaN(value) ? null : value);
+  }
+  if (values.length === 1) return values[0];
+  const valid = values.filter((value): value is number => value !== null);
+  return valid.length ? valid : null;
+}
+
+/**
+ * Decodes every message in a FIT file. Throws when the data is not a FIT file;
+ * a truncated file yields the messages read before the truncation.
+ */
+export function decodeFit(buffer: ArrayBuffer): FitMessage[] {
+  const view = new DataView(buffer);
+  const messages: FitMessage[] = [];
+  let fileStart = 0;
+
+  while (fileStart + 12 <= view.byteLength) {
+    const headerSize = view.getUint8(fileStart);
+    const dataSize = view.getUint32(fileStart + 4, true);
+    const signature = String.fromCharCode(...new Uint8Array(buffer, fileStart + 8, 4));
+    if (signature !== '.FIT' || headerSize < 12) {
+      if (fileStart === 0) throw new Error('Not a FIT file');
+      break; // trailing bytes after a chained file
+    }
+
+    const definitions = new Map<number, MessageDefinition>();
+    const end = Math.min(view.byteLength, fileStart + headerSize + dataSize);
+    let offset = fileStart + headerSize;
+    let lastTimestamp = 0;
+
+    try {
+      while (offset < end) {
+        const header = view.getUint8(offset++);
+
+        if (header & 0x80) {
+          // Compressed timestamp header: a data message whose time is an offset from the last timestamp
+          const definition = definitions.get((header >> 5) & 0x03);
+          if (!definition) throw new Error('Data message without a definition');
+          const timeOffset = header & 0x1f;
+          lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f;
+          const message = readDataMessage(view, offset, definition);
+          message.fields[FIT_TIMESTAMP_FIELD] = lastTimestamp;
+          messages.push(message);
+          offset += messageSize(definition);
+          continue;
+        }
+
+        const localType = header & 0x0f;
+        if (header & 0x40) {
+          const hasDeveloperFields = (header & 0x20) !== 0;
+          const littleEndian = view.getUint8(offset + 1) === 0;
+          const globalNumber = view.getUint16(offset + 2, littleEndian);
+          const fieldCount = view.getUint8(offset + 4);
+          offset += 5;
+          const fields: FieldDefinition[] = [];
+          for (let i = 0; i < fieldCount; i++, offset += 3) {
+            fields.push({ number: view.getUint8(offset), size: view.getUint8(offset + 1), baseType: view.getUint8(offset + 2) });
+          }
+          let developerDataSize = 0;
+          if (hasDeveloperFields) {
+            const developerFieldCount = view.getUint8(offset++);
+            for (let i = 0; i < developerFieldCount; i++, offset += 3) {
+              developerDataSize += view.getUint8(offset + 1);
+            }
+          }
+          definitions.set(localType, { globalNumber, littleEndian, fields, developerDataSize });
+          continue;
+        }
+
+        const definition = definitions.get(localType);
+        if (!definition) throw new Error('Data message without a definition');
+        const message = readDataMessage(view, offset, definition);
+        const timestamp = message.fields[FIT_TIMESTAMP_FIELD];
+        if (typeof timestamp === 'number') lastTimestamp = timestamp;
+        messages.push(message);
+        offset += messageSize(definition);
+      }
+    } catch (error) {
+      if (error instanceof RangeError) break; // truncated file
+      throw error;
+    }
+
+    fileStart = end + 2; // skip the file CRC
+  }
+
+  return messages;
+}
+
+function messageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((total, field) => total + field.size, 0) + definition.developerDataSize;
+}
+
+function readDataMessage(view: DataView, offset: number, definition: MessageDefinition): FitMessage {
+  const fields: FitMessage['fields'] = {};
+  for (const field of definition.fields) {
+    fields[field.number] = readField(view, offset, field, definition.littleEndian);
+    offset += field.size;
+  }
+  return { globalNumber: definition.globalNumber, fields };
+}
@@ -0,0 +1,197 @@
+/**
+ * @fileOverview Catalog of guided exercises
+ * Timed, step-by-step versions of the exercises the flows most often suggest:
+ * box breathing, 5-4-3-2-1 grounding and progressive muscle relaxation. Each
+ * step has what to show, what to say aloud and how long it lasts, so the player
+ * can run an exercise without any model call.
+ *
+ * The flows' intervention suggestions are free text; `matchExercises` maps them
+ * to catalog entries by keyword.
+ */
+
+export type ExerciseId = 'box-breathing' | 'grounding-54321' | 'progressive-muscle-relaxation';
+
+// Drives the player's breathing animation; 'neutral' leaves it still
+export type ExercisePhase = 'inhale' | 'hold' | 'exhale' | 'tense' | 'release' | 'neutral';
+
+export interface ExerciseStep {
+  instruction: string; // shown on screen
+  voicePrompt: string; // read aloud at the start of the step
+  durationSeconds: number;
+  phase: ExercisePhase;
+}
+
+export interface GuidedExercise {
+  id: ExerciseId;
+  name: string;
+  description: string;
+  steps: ExerciseStep[];
+  keywords: RegExp; // matches intervention text that suggests this exercise
+}
+
+const BOX_BREATHING_ROUNDS = 4;
+const BOX_SIDE_SECONDS = 4;
+
+const boxBreathingRound = (round: number): ExerciseStep[] => [
+  {
+    instruction: 'Breathe in through your nose',
+    voicePrompt: round === 1 ? 'Breathe in slowly through your nose, two, three, four' : 'Breathe in',
+    durationSeconds: BOX_SIDE_SECONDS,
+    phase: 'inhale',
+  },
+  { instruction: 'Hold your breath', voicePrompt: 'Hold', durationSeconds: BOX_SIDE_SECONDS, phase: 'hold' },
+  {
+    instruction: 'Breathe out through your mouth',
+    voicePrompt: round === 1 ? 'Breathe out gently through your mouth' : 'Breathe out',
+    durationSeconds: BOX_SIDE_SECONDS,
+    phase: 'exhale',
+  },
+  { instruction: 'Hold with empty lungs', voicePrompt: 'Hold', durationSeconds: BOX_SIDE_SECONDS, phase: 'hold' },
+];
+
+const MUSCLE_GROUPS: Array<{ name: string; tense: string }> = [
+  { name: 'hands', tense: 'Make tight fists with both hands' },
+  { name: 'arms', tense: 'Bend your elbows and tense your upper arms' },
+  { name: 'shoulders', tense: 'Raise your shoulders up towards your ears' },
+  { name: 'face', tense: 'Scrunch up your face: eyes, forehead and jaw' },
+  { name: 'stomach', tense: 'Tighten your stomach muscles' },
+  { name: 'legs', tense: 'Press your legs together and straighten them' },
+  { name: 'feet', tense: 'Curl your toes downwards' },
+];
+
+const TENSE_SECONDS = 5;
+const RELEASE_SECONDS = 10;
+
+export const GUIDED_EXERCISES: Record<ExerciseId, GuidedExercise> = {
+  'box-breathing': {
+    id: 'box-breathing',
+    name: 'Box breathing',
+    description: 'Slow breathing in four equal counts to calm your body.',
+    keywords: /\b(breath|breathe|breathing|inhale|exhale)\b/i,
+    steps: [
+      {
+        instruction: 'Sit comfortably and let your shoulders drop',
+        voicePrompt: "Let's do some box breathing together. Sit comfortably and let your shoulders drop.",
+        durationSeconds: 5,
+        phase: 'neutral',
+      },
+      ...Array.from({ length: BOX_BREATHING_ROUNDS }, (_, index) => boxBreathingRound(index + 1)).flat(),
+      {
+        instruction: 'Breathe normally and notice how you feel',
+        voicePrompt: 'Well done. Let your breathing return to normal and notice how you feel.',
+        durationSeconds: 5,
+        phase: 'neutral',
+      },
+    ],
+  },
+  'grounding-54321': {
+    id: 'grounding-54321',
+    name: '5-4-3-2-1 grounding',
+    description: 'Use your senses to bring your attention back to the present moment.',
+    keywords: /\b(ground|grounding|5-4-3-2-1|five senses|present moment)\b/i,
+    steps: [
+      {
+        instruction: 'Pause and look around you',
+        voicePrompt: "Let's ground ourselves in the present moment. Take a slow breath and look around you.",
+        durationSeconds: 6,
+        phase: 'neutral',
+      },
+      {
+        instruction: 'Name 5 things you can see',
+        voicePrompt: 'Name five things you can see. Take your time.',
+        durationSeconds: 30,
+        phase: 'neutral',
+      },
+      {
+        instruction: 'Name 4 things you can feel',
+        voicePrompt: 'Now notice four things you can feel, like your feet on the floor or the fabric of your clothes.',
+        durationSeconds: 25,
+        phase: 'neutral',
+      },
+      {
+        instruction: 'Name 3 things you can hear',
+        voicePrompt: 'Listen for three things you can hear.',
+        durationSeconds: 20,
+        phase: 'neutral',
+      },
+      {
+        instruction: 'Name 2 things you can smell',
+        voicePrompt: 'Notice two things you can smell.',
+        durationSeconds: 15,
+        phase: 'neutral',
+      },
+      {
+        instruction: 'Name 1 thing you can taste',
+        voicePrompt: 'And one thing you can taste.',
+        durationSeconds: 10,
+        phase: 'neutral',
+      },
+      {
+        instruction: 'Take one more slow breath',
+        voicePrompt: "Take one more slow breath. You're here, right now.",
+        durationSeconds: 6,
+        phase: 'neutral',
+      },
+    ],
+  },
+  'progressive-muscle-relaxation': {
+    id: 'progressive-muscle-relaxation',
+    name: 'Progressive muscle relaxation',
+    description: 'Tense and release each muscle group in turn to let go of physical tension.',
+    keywords: /\b(muscle|relaxation|tension|pmr)\b/i,
+    steps: [
+      {
+        instruction: 'Get comfortable and close your eyes if you like',
+        voicePrompt: "Let's release some tension. Get comfortable, and close your eyes if you like.",
+        durationSeconds: 6,
+        phase: 'neutral',
+      },
+      ...MUSCLE_GROUPS.flatMap(group => [
+        { instruction: group.tense, voicePrompt: `${group.tense}, and hold.`, durationSeconds: TENSE_SECONDS, phase: 'tense' as const },
+        {
+          instruction: `Relax your ${group.name}`,
+          voicePrompt: `And release. Notice your ${group.name} softening.`,
+          durationSeconds: RELEASE_SECONDS,
+          phase: 'release' as const,
+        },
+      ]),
+      {
+        instruction: 'Notice how relaxed your whole body feels',
+        voicePrompt: 'Notice how your whole body feels now. Take a slow breath before you carry on.',
+        durationSeconds: 8,
+        phase: 'neutral',
+      },
+    ],
+  },
+};
+
+export const EXERCISE_IDS = Object.keys(GUIDED_EXERCISES) as ExerciseId[];
+
+export function exerciseDurationSeconds(exercise: GuidedExercise): number {
+  return exercise.steps.reduce((total, step) => total + step.durationSeconds, 0);
+}
+
+/**
+ * Catalog exercises suggested by the given intervention texts, in the order
+ * they are first suggested.
+ */
+export function matchExercises(interventions: string[]): ExerciseId[] {
+  const matched: ExerciseId[] = [];
+  for (const intervention of interventions) {
+    for (const id of EXERCISE_IDS) {
+      if (!matched.includes(id) && GUIDED_EXERCISES[id].keywords.test(intervention)) matched.push(id);
+    }
+  }
+  return matched;
+}
+
+/**
+ * Adds the catalog exercises matching a flow's immediate interventions.
+ */
+export function withExercises<T extends { immediate: string[] }>(interventions: T): T & { exercises: ExerciseId[] } {
+  return { ...interventions, exercises: matchExercises(interventions.immediate) };
+}
+
+export function isExerciseId(id: string): id is ExerciseId {
+  return id in GUIDED_EXERCISES;
+}
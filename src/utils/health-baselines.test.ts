@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { baselineBefore, buildBaselineReport, dailySeries } from './health-baselines';
+import { createSample, type WearableMetric, type WearableSample, type WearableSource } from './wearable-timeseries';
+
+// Local calendar days, matching how the baselines bucket readings
+const LAST_DAY = new Date(2026, 2, 31);
+
+const onDay = (daysBefore: number, hour = 8): Date =>
+  new Date(LAST_DAY.getFullYear(), LAST_DAY.getMonth(), LAST_DAY.getDate() - daysBefore, hour);
+
+// `values` oldest first, one reading per day ending on LAST_DAY
+const daily = (metric: WearableMetric, values: number[]): WearableSample[] =>
+  values.map((value, i) => createSample('fitbit', metric, value, onDay(values.length - 1 - i))!);
+
+// 30 days alternating around a mean of 53 with a sample standard deviation of about 3.05
+const steadyHrv = Array.from({ length: 30 }, (_, i) => (i % 2 === 0 ? 50 : 56));
+
+const night = (source: WearableSource, metric: WearableMetric, daysBefore: number, startHour: number, hours: number): WearableSample => {
+  const start = onDay(daysBefore + 1, 23 + startHour);
+  return createSample(source, metric, hours, start, new Date(start.getTime() + hours * 3_600_000))!;
+};
+
+describe('buildBaselineReport', () => {
+  it('flags a single day 2σ or more from the baseline', () => {
+    const report = buildBaselineReport(daily('hrv', [...steadyHrv, 46]));
+
+    expect(report?.anomalies).toEqual([expect.objectContaining({
+      metric: 'hrv',
+      zScore: 2.3,
+      direction: 'below',
+      days: 1,
+      severity: 'medium',
+      message: 'HRV 2.3σ below your baseline',
+    })]);
+  });
+
+  it('does not flag a single day between 1.5σ and 2σ', () => {
+    const report = buildBaselineReport(daily('hrv', [...steadyHrv, 47.5]));
+
+    expect(report?.metrics.find(metric => metric.metric === 'hrv')?.zScore).toBe(-1.8);
+    expect(report?.anomalies).toEqual([]);
+  });
+
+  it('flags three consecutive days at 1.5σ or more', () => {
+    const twoDays = buildBaselineReport(daily('hrv', [...steadyHrv, 47.5, 47.5]));
+    const threeDays = buildBaselineReport(daily('hrv', [...steadyHrv, 47.5, 47.5, 47.5]));
+
+    expect(twoDays?.anomalies).toEqual([]);
+    expect(threeDays?.anomalies).toHaveLength(1);
+    expect(threeDays?.anomalies[0]).toMatchObject({ metric: 'hrv', days: 3, severity: 'medium' });
+    expect(threeDays?.anomalies[0].zScore).toBeGreaterThanOrEqual(1.5);
+    expect(threeDays?.anomalies[0].zScore).toBeLessThan(2);
+    expect(threeDays?.anomalies[0].message).toMatch(/^HRV 1\.\dσ below your baseline for 3 days$/);
+  });
+
+  it('ignores changes in the healthy direction', () => {
+    expect(buildBaselineReport(daily('hrv', [...steadyHrv, 70]))?.anomalies).toEqual([]);
+  });
+
+  it('needs a week of history before scoring a metric', () => {
+    const report = buildBaselineReport(daily('hrv', [50, 56, 50, 56, 50, 56, 20]));
+
+    expect(report?.metrics.find(metric => metric.metric === 'hrv')).toMatchObject({ days30: null, zScore: null });
+    expect(report?.anomalies).toEqual([]);
+  });
+});
+
+describe('baselineBefore', () => {
+  it('floors the deviation at minSd so a perfectly steady history does not flag tiny changes', () => {
+    const samples = daily('resting_heart_rate', [...Array(30).fill(60), 62]);
+    const series = dailySeries(samples).resting_heart_rate;
+    const lastDay = Array.from(series.keys()).sort().pop()!;
+
+    expect(baselineBefore(series, lastDay, 30)).toEqual({ mean: 60, sd: 0, days: 30 });
+    expect(baselineBefore(series, lastDay, 30, 1)).toEqual({ mean: 60, sd: 1, days: 30 });
+    expect(buildBaselineReport(samples)?.anomalies).toEqual([expect.objectContaining({
+      metric: 'resting_heart_rate',
+      zScore: 2,
+      message: 'Resting heart rate 2σ above your baseline',
+    })]);
+  });
+});
+
+describe('dailySeries', () => {
+  it('takes each night of sleep from one source when two trackers recorded it', () => {
+    const samples = [
+      night('apple_health', 'sleep_light', 0, 0, 4),
+      night('apple_health', 'sleep_deep', 0, 4, 1.5),
+      night('apple_health', 'sleep_rem', 0, 5.5, 1.5),
+      night('fitbit', 'sleep_asleep', 0, 0.5, 6.5),
+    ];
+
+    expect(Array.from(dailySeries(samples).sleep_duration.values())).toEqual([7]);
+  });
+
+  it('averages point readings within a day', () => {
+    const samples = [
+      createSample('fitbit', 'stress', 30, onDay(0, 9))!,
+      createSample('garmin', 'stress', 50, onDay(0, 18))!,
+    ];
+
+    expect(Array.from(dailySeries(samples).stress.values())).toEqual([40]);
+  });
+});
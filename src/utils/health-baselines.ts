@@ -0,0 +1,259 @@
+/**
+ * @fileOverview Personal baselines and anomaly detection for wearable metrics
+ * Rolls the stored time series up into one value per day for resting heart rate,
+ * HRV, sleep duration and stress, computes 14- and 30-day baselines (mean and
+ * standard deviation of the preceding days) and flags days that deviate from them
+ * in the unhealthy direction, e.g. "HRV 2.1σ below your baseline for 3 days".
+ *
+ * A metric needs MIN_BASELINE_DAYS days of history before it is scored. A day is
+ * anomalous at |z| ≥ 2 on its own, or at |z| ≥ 1.5 when it is the latest of three
+ * or more consecutive such days; each day is compared with the 30 days before it.
+ */
+
+import { SLEEP_STAGE_METRICS, keepPrimaryRecorder, type WearableMetric, type WearableSample } from '@/utils/wearable-timeseries';
+import { getLatestWearableTimestamp, getLatestWearablesSnapshot, getWearableSamples } from '@/utils/wearable-store';
+import type { WearablesDataInput } from '@/ai/flows/wearables-analysis';
+
+export type BaselineMetric = 'resting_heart_rate' | 'hrv' | 'sleep_duration' | 'stress';
+
+export interface MetricBaseline {
+  mean: number;
+  sd: number;
+  days: number; // days with data in the window
+}
+
+export interface BaselineSummary {
+  metric: BaselineMetric;
+  label: string;
+  unit: string;
+  latest: { day: string; value: number } | null;
+  days14: MetricBaseline | null;
+  days30: MetricBaseline | null;
+  zScore: number | null; // latest value against the 30-day baseline
+}
+
+export interface HealthAnomaly {
+  metric: BaselineMetric;
+  label: string;
+  zScore: number; // mean over the run of anomalous days
+  direction: 'above' | 'below';
+  days: number;
+  severity: 'medium' | 'high';
+  message: string;
+}
+
+export interface ChatHealthContext {
+  wearablesData?: WearablesDataInput;
+  healthDeviations?: string[];
+}
+
+export interface HealthBaselineReport {
+  asOf: string; // latest day with data (YYYY-MM-DD, local time)
+  metrics: BaselineSummary[];
+  anomalies: HealthAnomaly[];
+}
+
+interface BaselineMetricConfig {
+  label: string;
+  unit: string;
+  adverse: 'above' | 'below'; // which direction is unhealthy
+  minSd: number; // floor on the deviation, so a very steady history does not flag tiny changes
+}
+
+const BASELINE_METRICS: Record<BaselineMetric, BaselineMetricConfig> = {
+  resting_heart_rate: { label: 'Resting heart rate', unit: 'bpm', adverse: 'above', minSd: 1 },
+  hrv: { label: 'HRV', unit: 'ms', adverse: 'below', minSd: 3 },
+  sleep_duration: { label: 'Sleep', unit: 'h', adverse: 'below', minSd: 0.25 },
+  stress: { label: 'Stress', unit: '', adverse: 'above', minSd: 3 },
+};
+
+export const MIN_BASELINE_DAYS = 7;
+const ANOMALY_Z = 2;
+const SUSTAINED_Z = 1.5;
+const SUSTAINED_DAYS = 3;
+const HIGH_SEVERITY_Z = 3;
+
+// The history a 30-day baseline plus a run of anomalous days needs
+export const BASELINE_HISTORY_DAYS = 45;
+
+// Health context older than this is not presented to the chat as current
+const CHAT_CONTEXT_MAX_AGE_MS = 36 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return dayKey(new Date(year, month - 1, date + days));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * One value per local day for each baseline metric: the mean of the day's readings,
+ * and for sleep the total hours of the night that ended that day, taken from the
+ * source that recorded most of that night so overlapping trackers are not added up.
+ */
+export function dailySeries(samples: WearableSample[]): Record<BaselineMetric, Map<string, number>> {
+  const readings: Record<BaselineMetric, Map<string, number[]>> = {
+    resting_heart_rate: new Map(),
+    hrv: new Map(),
+    sleep_duration: new Map(),
+    stress: new Map(),
+  };
+  const add = (metric: BaselineMetric, day: string, value: number) =>
+    readings[metric].set(day, [...(readings[metric].get(day) ?? []), value]);
+  const pointMetrics: Partial<Record<WearableMetric, BaselineMetric>> = {
+    resting_heart_rate: 'resting_heart_rate',
+    hrv: 'hrv',
+    stress: 'stress',
+  };
+
+  const sleepByDay = new Map<string, WearableSample[]>();
+
+  for (const sample of samples) {
+    const pointMetric = pointMetrics[sample.metric];
+    if (pointMetric) {
+      add(pointMetric, dayKey(new Date(sample.timestamp)), sample.value);
+    } else if (SLEEP_STAGE_METRICS.includes(sample.metric)) {
+      const end = sample.endTimestamp ?? new Date(Date.parse(sample.timestamp) + sample.value * 60 * 60 * 1000).toISOString();
+      const day = dayKey(new Date(end));
+      sleepByDay.set(day, [...(sleepByDay.get(day) ?? []), sample]);
+    }
+  }
+  sleepByDay.forEach((daySamples, day) => {
+    keepPrimaryRecorder(daySamples, sample => sample.source).forEach(sample => add('sleep_duration', day, sample.value));
+  });
+
+  const series = {} as Record<BaselineMetric, Map<string, number>>;
+  (Object.keys(readings) as BaselineMetric[]).forEach(metric => {
+    series[metric] = new Map(Array.from(readings[metric].entries()).map(([day, values]) => [
+      day,
+      metric === 'sleep_duration' ? values.reduce((total, value) => total + value, 0) : mean(values),
+    ]));
+  });
+  return series;
+}
+
+/**
+ * Mean and standard deviation of the `windowDays` days before `day`, or null when
+ * fewer than MIN_BASELINE_DAYS of them have data.
+ */
+export function baselineBefore(series: Map<string, number>, day: string, windowDays: number, minSd = 0): MetricBaseline | null {
+  const values: number[] = [];
+  for (let offset = 1; offset <= windowDays; offset++) {
+    const value = series.get(addDays(day, -offset));
+    if (value !== undefined) values.push(value);
+  }
+  if (values.length < MIN_BASELINE_DAYS) return null;
+
+  const average = mean(values);
+  const variance = values.reduce((total, value) => total + (value - average) ** 2, 0) / (values.length - 1);
+  return { mean: average, sd: Math.max(Math.sqrt(variance), minSd), days: values.length };
+}
+
+function zScoreOn(series: Map<string, number>, day: string, config: BaselineMetricConfig): number | null {
+  const value = series.get(day);
+  const baseline = baselineBefore(series, day, 30, config.minSd);
+  if (value === undefined || !baseline) return null;
+  return (value - baseline.mean) / baseline.sd;
+}
+
+function detectAnomaly(metric: BaselineMetric, series: Map<string, number>, latestDay: string): HealthAnomaly | null {
+  const config = BASELINE_METRICS[metric];
+  const sign = config.adverse === 'above' ? 1 : -1;
+
+  // Run of consecutive days, ending at the latest, that deviate in the unhealthy direction
+  const run: number[] = [];
+  for (let day = latestDay; ; day = addDays(day, -1)) {
+    const z = zScoreOn(series, day, config);
+    if (z === null || z * sign < SUSTAINED_Z) break;
+    run.push(z);
+  }
+
+  const latestZ = run[0];
+  const sustained = run.length >= SUSTAINED_DAYS;
+  if (latestZ === undefined || (!sustained && latestZ * sign < ANOMALY_Z)) return null;
+
+  const days = sustained ? run.length : 1;
+  const zScore = round(Math.abs(mean(run.slice(0, days))));
+  return {
+    metric,
+    label: config.label,
+    zScore,
+    direction: config.adverse,
+    days,
+    severity: zScore >= HIGH_SEVERITY_Z || days >= 5 ? 'high' : 'medium',
+    message: `${config.label} ${zScore}σ ${config.adverse} your baseline${days > 1 ? ` for ${days} days` : ''}`,
+  };
+}
+
+/**
+ * Baselines and anomalies as of the latest day with data, or null when there is none.
+ */
+export function buildBaselineReport(samples: WearableSample[]): HealthBaselineReport | null {
+  const series = dailySeries(samples);
+  const allDays = (Object.keys(series) as BaselineMetric[]).flatMap(metric => Array.from(series[metric].keys()));
+  if (allDays.length === 0) return null;
+  const asOf = allDays.reduce((latest, day) => (day > latest ? day : latest));
+
+  const metrics = (Object.keys(BASELINE_METRICS) as BaselineMetric[]).map((metric): BaselineSummary => {
+    const config = BASELINE_METRICS[metric];
+    const days = Array.from(series[metric].keys()).sort();
+    const latestDay = days[days.length - 1];
+    const z = latestDay ? zScoreOn(series[metric], latestDay, config) : null;
+    return {
+      metric,
+      label: config.label,
+      unit: config.unit,
+      latest: latestDay ? { day: latestDay, value: round(series[metric].get(latestDay)!) } : null,
+      days14: latestDay ? baselineBefore(series[metric], latestDay, 14, config.minSd) : null,
+      days30: latestDay ? baselineBefore(series[metric], latestDay, 30, config.minSd) : null,
+      zScore: z === null ? null : round(z),
+    };
+  });
+
+  // Only deviations that are still current (ending on the latest day overall) are reported
+  const anomalies = (Object.keys(BASELINE_METRICS) as BaselineMetric[])
+    .map(metric => detectAnomaly(metric, series[metric], asOf))
+    .filter((anomaly): anomaly is HealthAnomaly => anomaly !== null)
+    .sort((a, b) => b.zScore - a.zScore);
+
+  return { asOf, metrics, anomalies };
+}
+
+/**
+ * Report for the stored history, as of its newest sample.
+ */
+export async function loadHealthBaselineReport(): Promise<HealthBaselineReport | null> {
+  const latest = await getLatestWearableTimestamp();
+  if (!latest) return null;
+  const samples = await getWearableSamples({ from: new Date(Date.parse(latest) - BASELINE_HISTORY_DAYS * DAY_MS) });
+  return buildBaselineReport(samples);
+}
+
+/**
+ * Latest wearable readings and current baseline deviations for the chat flows.
+ * Empty when there is no recent imported data, so stale readings are not
+ * presented as the user's current state.
+ */
+export async function getChatHealthContext(): Promise<ChatHealthContext> {
+  const snapshot = await getLatestWearablesSnapshot();
+  if (!snapshot || Date.now() - Date.parse(snapshot.asOf) > CHAT_CONTEXT_MAX_AGE_MS) return {};
+  const report = await loadHealthBaselineReport();
+  return {
+    wearablesData: snapshot.data,
+    healthDeviations: report?.anomalies.length ? report.anomalies.map(anomaly => anomaly.message) : undefined,
+  };
+}
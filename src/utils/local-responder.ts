@@ -0,0 +1,37 @@
+/**
+ * @fileOverview Rule-based replies that need no model
+ * Used as the last fallback when every model in a prompt's chain has failed, and
+ * by the mock model, so the user always gets a safe, relevant reply.
+ */
+
+import { analyzeTextLocally, type FusionResult } from '@/utils/emotion-fusion';
+import { assessSafety, buildCrisisResponse, type SafetyGateResult } from '@/utils/safety-gate';
+
+const REPLY_OPENERS: Partial<Record<FusionResult['primary'], string>> = {
+  anxious: "It sounds like there's a lot of worry sitting with you right now.",
+  sad: "I'm sorry you're carrying this sadness.",
+  angry: "It makes sense that you're feeling frustrated and angry about this.",
+  frustrated: "That sounds really frustrating.",
+  overwhelmed: "It sounds like everything is piling up at once.",
+  lonely: "Feeling alone with this is hard, and I'm glad you reached out.",
+  disappointed: "That sounds like a real disappointment.",
+  happy: "It's lovely to hear that things feel good right now.",
+  excited: "I can hear the energy in what you're sharing.",
+  grateful: "It's wonderful that you're noticing what you're grateful for.",
+  hopeful: "I'm glad there's some hope in how you're feeling.",
+};
+
+/**
+ * Short supportive reply derived from the message's local emotion reading.
+ * Flagged messages get the crisis response with resources.
+ */
+export function buildLocalResponse(message: string, safetyGate: SafetyGateResult = assessSafety(message)): string {
+  if (safetyGate.triggered) return buildCrisisResponse(safetyGate);
+
+  const emotion = analyzeTextLocally(message);
+  const opener = REPLY_OPENERS[emotion.primary] ?? 'Thank you for sharing that with me.';
+  const followUp = emotion.distressLevel >= 0.5
+    ? "Let's slow down for a moment and take one steady breath together. What feels heaviest right now?"
+    : 'What would feel most helpful to talk through next?';
+  return `${opener} ${followUp}`;
+}
@@ -5,30 +5,25 @@
  */
 
 import type { ComprehensiveMitrInput } from '@/ai/flows/comprehensive-mitr-ai';
+import { analyzeAcousticFeatures } from '@/utils/audio-features';
 
-// Helper function to extract audio features from audio data (placeholder)
-export function extractAudioFeatures(audioData: ArrayBuffer): ComprehensiveMitrInput['audioFeatures'] {
-  // This would use actual audio processing libraries like Web Audio API
-  // For now, return mock features
-  return {
-    pitch: 150 + Math.random() * 100,
-    energy: Math.random(),
-    spectralCentroid: 1000 + Math.random() * 2000,
-    mfcc: Array.from({ length: 13 }, () => Math.random() * 2 - 1),
-    duration: 2 + Math.random() * 8,
-  };
+// Helper function to extract audio features from captured audio.
+// `audioData` holds mono 32-bit float PCM samples (e.g. from AudioBuffer.getChannelData).
+export function extractAudioFeatures(audioData: ArrayBuffer, sampleRate: number = 16000): ComprehensiveMitrInput['audioFeatures'] {
+  return analyzeAcousticFeatures(new Float32Array(audioData), { sampleRate });
 }
 
-// Helper function to capture image from video element
-export function captureImageFromVideo(videoElement: HTMLVideoElement): string | null {
+// Helper function to capture image from video element, optionally scaled so its longer edge is at most `maxEdge`
+export function captureImageFromVideo(videoElement: HTMLVideoElement, maxEdge?: number): string | null {
   try {
+    const scale = maxEdge ? Math.min(1, maxEdge / Math.max(videoElement.videoWidth, videoElement.videoHeight)) : 1;
     const canvas = document.createElement('canvas');
-    canvas.width = videoElement.videoWidth;
-    canvas.height = videoElement.videoHeight;
+    canvas.width = Math.round(videoElement.videoWidth * scale);
+    canvas.height = Math.round(videoElement.videoHeight * scale);
     const ctx = canvas.getContext('2d');
     if (!ctx) return null;
     
-    ctx.drawImage(videoElement, 0, 0);
+    ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
     return canvas.toDataURL('image/jpeg', 0.8);
   } catch (error) {
     console.error('Failed to capture image from video:', error);
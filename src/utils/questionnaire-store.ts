@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Local storage for questionnaire results
+ * Every completed questionnaire is kept in IndexedDB so scores can be followed
+ * over time and the latest ones shared with the chat flows.
+ */
+
+import { QUESTIONNAIRE_STORE, getAllRecords, getRecordsByIndex, putRecord } from '@/utils/analysis-cache';
+import {
+  QUESTIONNAIRES,
+  scoreQuestionnaire,
+  toFlowAssessments,
+  type FlowAssessment,
+  type QuestionnaireId,
+  type QuestionnaireResult,
+} from '@/utils/questionnaires';
+
+type QuestionnaireResultsListener = () => void;
+
+// The chat and dashboard subscribe so a questionnaire completed anywhere refreshes them
+const listeners = new Set<QuestionnaireResultsListener>();
+
+export function subscribeToQuestionnaireResults(listener: QuestionnaireResultsListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyQuestionnaireResultsChange(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Scores and saves a completed questionnaire.
+ */
+export async function saveQuestionnaireResult(questionnaireId: QuestionnaireId, answers: number[]): Promise<QuestionnaireResult> {
+  const { score, band } = scoreQuestionnaire(QUESTIONNAIRES[questionnaireId], answers);
+  const result: QuestionnaireResult = {
+    id: crypto.randomUUID(),
+    questionnaireId,
+    answers,
+    score,
+    severity: band.severity,
+    concern: band.concern,
+    completedAt: new Date().toISOString(),
+  };
+
+  await putRecord(QUESTIONNAIRE_STORE, result);
+  notifyQuestionnaireResultsChange();
+  return result;
+}
+
+/**
+ * Results in completion order, optionally for one questionnaire.
+ */
+export async function getQuestionnaireResults(questionnaireId?: QuestionnaireId): Promise<QuestionnaireResult[]> {
+  const results = questionnaireId
+    ? await getRecordsByIndex<QuestionnaireResult>(QUESTIONNAIRE_STORE, 'questionnaireId', questionnaireId)
+    : await getAllRecords<QuestionnaireResult>(QUESTIONNAIRE_STORE);
+  return results.sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+}
+
+/**
+ * The recent scores to pass to the flows as `userProfile.assessments`. Returns an
+ * empty list when storage is unavailable so the chat never waits on it.
+ */
+export async function getFlowAssessments(): Promise<FlowAssessment[]> {
+  try {
+    return toFlowAssessments(await getQuestionnaireResults());
+  } catch (error) {
+    console.error('Failed to read questionnaire results', error);
+    return [];
+  }
+}
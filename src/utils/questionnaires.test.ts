@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  QUESTIONNAIRE_IDS,
+  QUESTIONNAIRES,
+  scoreQuestionnaire,
+  toFlowAssessments,
+  type QuestionnaireId,
+  type QuestionnaireResult,
+} from './questionnaires';
+
+const NOW = new Date('2026-03-31T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Answers summing to `total`, filled from the first item
+const answersSumming = (id: QuestionnaireId, total: number): number[] => {
+  const definition = QUESTIONNAIRES[id];
+  const maxAnswer = Math.max(...definition.options.map(option => option.value));
+  return definition.items.map((_, i) => Math.max(0, Math.min(maxAnswer, total - i * maxAnswer)));
+};
+
+const severityFor = (id: QuestionnaireId, total: number) =>
+  scoreQuestionnaire(QUESTIONNAIRES[id], answersSumming(id, total)).band.severity;
+
+const result = (id: QuestionnaireId, answers: number[], daysAgo: number): QuestionnaireResult => {
+  const { score, band } = scoreQuestionnaire(QUESTIONNAIRES[id], answers);
+  return {
+    id: `${id}-${daysAgo}`,
+    questionnaireId: id,
+    answers,
+    score,
+    severity: band.severity,
+    concern: band.concern,
+    completedAt: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString(),
+  };
+};
+
+describe('scoreQuestionnaire', () => {
+  it.each([
+    ['phq9', 4, 'Minimal depression'],
+    ['phq9', 5, 'Mild depression'],
+    ['phq9', 9, 'Mild depression'],
+    ['phq9', 10, 'Moderate depression'],
+    ['phq9', 27, 'Severe depression'],
+    ['gad7', 4, 'Minimal anxiety'],
+    ['gad7', 5, 'Mild anxiety'],
+    ['gad7', 9, 'Mild anxiety'],
+    ['gad7', 10, 'Moderate anxiety'],
+    ['gad7', 21, 'Severe anxiety'],
+  ] as const)('%s sum %i is %s', (id, total, severity) => {
+    expect(severityFor(id, total)).toBe(severity);
+  });
+
+  it('multiplies the WHO-5 raw sum by 4 before banding', () => {
+    expect(scoreQuestionnaire(QUESTIONNAIRES.who5, answersSumming('who5', 7))).toMatchObject({
+      score: 28,
+      maxScore: 100,
+      band: { severity: 'Very low wellbeing', concern: 'high' },
+    });
+    expect(scoreQuestionnaire(QUESTIONNAIRES.who5, answersSumming('who5', 8)).score).toBe(32);
+    expect(severityFor('who5', 8)).toBe('Low wellbeing');
+    expect(severityFor('who5', 12)).toBe('Low wellbeing');
+    expect(severityFor('who5', 13)).toBe('Good wellbeing');
+    expect(scoreQuestionnaire(QUESTIONNAIRES.who5, answersSumming('who5', 25)).score).toBe(100);
+  });
+
+  it.each(QUESTIONNAIRE_IDS)('%s bands cover every score from 0 to the maximum without gaps', id => {
+    const { bands, maxScore } = QUESTIONNAIRES[id];
+
+    expect(bands[0].min).toBe(0);
+    expect(bands[bands.length - 1].max).toBe(maxScore);
+    bands.slice(1).forEach((band, i) => expect(band.min).toBe(bands[i].max + 1));
+  });
+
+  it('places the WHO-5 cut-offs at 28/29 and 50/51', () => {
+    const bandOf = (score: number) => QUESTIONNAIRES.who5.bands.find(band => score >= band.min && score <= band.max)?.severity;
+
+    expect([28, 29, 50, 51].map(bandOf)).toEqual(['Very low wellbeing', 'Low wellbeing', 'Low wellbeing', 'Good wellbeing']);
+  });
+
+  it('rejects missing and out-of-range answers', () => {
+    expect(() => scoreQuestionnaire(QUESTIONNAIRES.gad7, [1, 1, 1])).toThrow('GAD-7 needs one valid answer for each of its 7 items');
+    expect(() => scoreQuestionnaire(QUESTIONNAIRES.phq9, [0, 0, 0, 0, 0, 0, 0, 0, 4])).toThrow('PHQ-9');
+  });
+});
+
+describe('toFlowAssessments', () => {
+  const phq9WithItem9 = [1, 1, 1, 1, 1, 1, 1, 1, 2];
+
+  it('shares PHQ-9 item 9 only while the result covers the last 14 days', () => {
+    expect(toFlowAssessments([result('phq9', phq9WithItem9, 14)], NOW)[0].suicidalIdeationItem).toBe(2);
+
+    const [older] = toFlowAssessments([result('phq9', phq9WithItem9, 15)], NOW);
+    expect(older).toMatchObject({ instrument: 'PHQ-9', score: 10, maxScore: 27, severity: 'Moderate depression' });
+    expect(older).not.toHaveProperty('suicidalIdeationItem');
+  });
+
+  it('sends the latest result of each questionnaire from the last 30 days', () => {
+    const assessments = toFlowAssessments([
+      result('phq9', phq9WithItem9, 20),
+      result('phq9', [0, 0, 0, 0, 0, 0, 0, 0, 0], 3),
+      result('gad7', [3, 3, 3, 3, 3, 3, 3], 31),
+      result('who5', [2, 2, 2, 2, 2], 1),
+    ], NOW);
+
+    expect(assessments).toEqual([
+      expect.objectContaining({ instrument: 'PHQ-9', score: 0, suicidalIdeationItem: 0 }),
+      expect.objectContaining({ instrument: 'WHO-5', score: 40, maxScore: 100, severity: 'Low wellbeing' }),
+    ]);
+    expect(assessments[1]).not.toHaveProperty('suicidalIdeationItem');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * @fileOverview Validated self-report questionnaires
+ * Item wording, response options, scoring and severity bands for the PHQ-9
+ * (depression), GAD-7 (anxiety) and WHO-5 (wellbeing), as published by their
+ * authors. All three ask about the last two weeks.
+ *
+ * PHQ-9 and GAD-7 scores are the sum of the item responses (0-3 each). The WHO-5
+ * raw sum (0-25) is multiplied by 4 to give the 0-100 percentage score, where
+ * higher means better wellbeing.
+ */
+
+export type QuestionnaireId = 'phq9' | 'gad7' | 'who5';
+
+// How much a band should worry the user and the app, for colouring and alerts
+export type QuestionnaireConcern = 'none' | 'mild' | 'moderate' | 'high';
+
+export interface QuestionnaireOption {
+  value: number;
+  label: string;
+}
+
+export interface QuestionnaireItem {
+  id: string;
+  text: string;
+}
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  severity: string;
+  concern: QuestionnaireConcern;
+}
+
+export interface QuestionnaireDefinition {
+  id: QuestionnaireId;
+  name: string;
+  shortName: string;
+  measures: string;
+  instructions: string;
+  items: QuestionnaireItem[];
+  options: QuestionnaireOption[];
+  scoreMultiplier: number;
+  maxScore: number;
+  higherIsBetter: boolean;
+  bands: SeverityBand[];
+}
+
+export interface QuestionnaireScore {
+  score: number;
+  maxScore: number;
+  band: SeverityBand;
+}
+
+export interface QuestionnaireResult {
+  id: string;
+  questionnaireId: QuestionnaireId;
+  answers: number[];
+  score: number;
+  severity: string;
+  concern: QuestionnaireConcern;
+  completedAt: string;
+}
+
+// The shape accepted in the flows' `userProfile.assessments`
+export interface FlowAssessment {
+  instrument: string;
+  score: number;
+  maxScore: number;
+  severity: string;
+  completedAt: string;
+  suicidalIdeationItem?: number;
+}
+
+const FREQUENCY_OPTIONS: QuestionnaireOption[] = [
+  { value: 0, label: 'Not at all' },
+  { value: 1, label: 'Several days' },
+  { value: 2, label: 'More than half the days' },
+  { value: 3, label: 'Nearly every day' },
+];
+
+export const QUESTIONNAIRES: Record<QuestionnaireId, QuestionnaireDefinition> = {
+  phq9: {
+    id: 'phq9',
+    name: 'Patient Health Questionnaire',
+    shortName: 'PHQ-9',
+    measures: 'Depression',
+    instructions: 'Over the last 2 weeks, how often have you been bothered by any of the following problems?',
+    items: [
+      { id: 'phq9_1', text: 'Little interest or pleasure in doing things' },
+      { id: 'phq9_2', text: 'Feeling down, depressed, or hopeless' },
+      { id: 'phq9_3', text: 'Trouble falling or staying asleep, or sleeping too much' },
+      { id: 'phq9_4', text: 'Feeling tired or having little energy' },
+      { id: 'phq9_5', text: 'Poor appetite or overeating' },
+      { id: 'phq9_6', text: 'Feeling bad about yourself — or that you are a failure or have let yourself or your family down' },
+      { id: 'phq9_7', text: 'Trouble concentrating on things, such as reading the newspaper or watching television' },
+      { id: 'phq9_8', text: 'Moving or speaking so slowly that other people could have noticed? Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual' },
+      { id: 'phq9_9', text: 'Thoughts that you would be better off dead or of hurting yourself in some way' },
+    ],
+    options: FREQUENCY_OPTIONS,
+    scoreMultiplier: 1,
+    maxScore: 27,
+    higherIsBetter: false,
+    bands: [
+      { min: 0, max: 4, severity: 'Minimal depression', concern: 'none' },
+      { min: 5, max: 9, severity: 'Mild depression', concern: 'mild' },
+      { min: 10, max: 14, severity: 'Moderate depression', concern: 'moderate' },
+      { min: 15, max: 19, severity: 'Moderately severe depression', concern: 'high' },
+      { min: 20, max: 27, severity: 'Severe depression', concern: 'high' },
+    ],
+  },
+  gad7: {
+    id: 'gad7',
+    name: 'Generalized Anxiety Disorder Assessment',
+    shortName: 'GAD-7',
+    measures: 'Anxiety',
+    instructions: 'Over the last 2 weeks, how often have you been bothered by the following problems?',
+    items: [
+      { id: 'gad7_1', text: 'Feeling nervous, anxious, or on edge' },
+      { id: 'gad7_2', text: 'Not being able to stop or control worrying' },
+      { id: 'gad7_3', text: 'Worrying too much about different things' },
+      { id: 'gad7_4', text: 'Trouble relaxing' },
+      { id: 'gad7_5', text: 'Being so restless that it is hard to sit still' },
+      { id: 'gad7_6', text: 'Becoming easily annoyed or irritable' },
+      { id: 'gad7_7', text: 'Feeling afraid, as if something awful might happen' },
+    ],
+    options: FREQUENCY_OPTIONS,
+    scoreMultiplier: 1,
+    maxScore: 21,
+    higherIsBetter: false,
+    bands: [
+      { min: 0, max: 4, severity: 'Minimal anxiety', concern: 'none' },
+      { min: 5, max: 9, severity: 'Mild anxiety', concern: 'mild' },
+      { min: 10, max: 14, severity: 'Moderate anxiety', concern: 'moderate' },
+      { min: 15, max: 21, severity: 'Severe anxiety', concern: 'high' },
+    ],
+  },
+  who5: {
+    id: 'who5',
+    name: 'WHO-5 Well-Being Index',
+    shortName: 'WHO-5',
+    measures: 'Wellbeing',
+    instructions: 'Please indicate for each of the five statements which is closest to how you have been feeling over the last two weeks.',
+    items: [
+      { id: 'who5_1', text: 'I have felt cheerful and in good spirits' },
+      { id: 'who5_2', text: 'I have felt calm and relaxed' },
+      { id: 'who5_3', text: 'I have felt active and vigorous' },
+      { id: 'who5_4', text: 'I woke up feeling fresh and rested' },
+      { id: 'who5_5', text: 'My daily life has been filled with things that interest me' },
+    ],
+    options: [
+      { value: 5, label: 'All of the time' },
+      { value: 4, label: 'Most of the time' },
+      { value: 3, label: 'More than half of the time' },
+      { value: 2, label: 'Less than half of the time' },
+      { value: 1, label: 'Some of the time' },
+      { value: 0, label: 'At no time' },
+    ],
+    scoreMultiplier: 4,
+    maxScore: 100,
+    higherIsBetter: true,
+    // 50 or below suggests screening for depression; 28 or below indicates likely depression
+    bands: [
+      { min: 0, max: 28, severity: 'Very low wellbeing', concern: 'high' },
+      { min: 29, max: 50, severity: 'Low wellbeing', concern: 'moderate' },
+      { min: 51, max: 100, severity: 'Good wellbeing', concern: 'none' },
+    ],
+  },
+};
+
+export const QUESTIONNAIRE_IDS = Object.keys(QUESTIONNAIRES) as QuestionnaireId[];
+
+// PHQ-9 item 9 asks about thoughts of death or self-harm; any answer above 0 needs follow-up
+export const PHQ9_SELF_HARM_ITEM_INDEX = 8;
+
+// All three instruments cover the last two weeks, so older results are not current
+export const QUESTIONNAIRE_VALID_DAYS = 14;
+
+// Results this recent are still shared with the flows as background
+const FLOW_ASSESSMENT_MAX_AGE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scores a completed questionnaire. Throws when an answer is missing or is not
+ * one of the item's response options.
+ */
+export function scoreQuestionnaire(definition: QuestionnaireDefinition, answers: number[]): QuestionnaireScore {
+  const valid = new Set(definition.options.map(option => option.value));
+  if (answers.length !== definition.items.length || answers.some(answer => !valid.has(answer))) {
+    throw new Error(`${definition.shortName} needs one valid answer for each of its ${definition.items.length} items`);
+  }
+
+  const score = answers.reduce((total, answer) => total + answer, 0) * definition.scoreMultiplier;
+  const band = definition.bands.find(candidate => score >= candidate.min && score <= candidate.max)
+    ?? definition.bands[definition.bands.length - 1];
+  return { score, maxScore: definition.maxScore, band };
+}
+
+/**
+ * The PHQ-9 item 9 response (0-3) of a result, or undefined for other questionnaires.
+ */
+export function selfHarmResponse(result: QuestionnaireResult): number | undefined {
+  return result.questionnaireId === 'phq9' ? result.answers[PHQ9_SELF_HARM_ITEM_INDEX] : undefined;
+}
+
+export function isCurrentResult(result: QuestionnaireResult, now: Date = new Date(), maxAgeDays = QUESTIONNAIRE_VALID_DAYS): boolean {
+  return now.getTime() - Date.parse(result.completedAt) <= maxAgeDays * DAY_MS;
+}
+
+/**
+ * Latest result of each questionnaire, keyed by questionnaire.
+ */
+export function latestResults(results: QuestionnaireResult[]): Partial<Record<QuestionnaireId, QuestionnaireResult>> {
+  const latest: Partial<Record<QuestionnaireId, QuestionnaireResult>> = {};
+  for (const result of results) {
+    const current = latest[result.questionnaireId];
+    if (!current || result.completedAt > current.completedAt) latest[result.questionnaireId] = result;
+  }
+  return latest;
+}
+
+/**
+ * The latest recent score of each questionnaire, for the flows. The PHQ-9 item 9
+ * response is included only while the result still covers the current two weeks.
+ */
+export function toFlowAssessments(results: QuestionnaireResult[], now: Date = new Date()): FlowAssessment[] {
+  return Object.values(latestResults(results))
+    .filter((result): result is QuestionnaireResult => !!result && isCurrentResult(result, now, FLOW_ASSESSMENT_MAX_AGE_DAYS))
+    .map(result => {
+      const definition = QUESTIONNAIRES[result.questionnaireId];
+      const selfHarm = selfHarmResponse(result);
+      return {
+        instrument: definition.shortName,
+        score: result.score,
+        maxScore: definition.maxScore,
+        severity: result.severity,
+        completedAt: result.completedAt,
+        ...(selfHarm !== undefined && isCurrentResult(result, now) ? { suicidalIdeationItem: selfHarm } : {}),
+      };
+    });
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileOverview In-memory sliding-window rate limiter for API routes
+ * Allows at most `limit` requests per client key in any `windowMs` window. State
+ * lives in the server process, so each instance limits independently.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  maxKeys?: number; // oldest clients are forgotten beyond this
+}
+
+const DEFAULT_MAX_KEYS = 10000;
+
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly options: RateLimiterOptions) {}
+
+  /**
+   * Records a request for `key` unless it is over the limit.
+   */
+  check(key: string, now: number = Date.now()): RateLimitResult {
+    const { limit, windowMs } = this.options;
+    const recent = (this.hits.get(key) ?? []).filter(time => time > now - windowMs);
+
+    if (recent.length >= limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - now };
+    }
+
+    recent.push(now);
+    // Re-insert so the map stays ordered by last use
+    this.hits.delete(key);
+    this.hits.set(key, recent);
+    this.evict();
+    return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+  }
+
+  private evict(): void {
+    const maxKeys = this.options.maxKeys ?? DEFAULT_MAX_KEYS;
+    const excess = this.hits.size - maxKeys;
+    if (excess <= 0) return;
+    Array.from(this.hits.keys()).slice(0, excess).forEach(key => this.hits.delete(key));
+  }
+}
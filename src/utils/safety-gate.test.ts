@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { assessSafety, isNegated, maxRiskLevel, type RiskLevel } from './safety-gate';
+
+const cases: Array<{ message: string; riskLevel: RiskLevel; note: string }> = [
+  // Explicit ideation and intent
+  { message: 'I want to kill myself tonight', riskLevel: 'critical', note: 'intent with imminence' },
+  { message: 'I want to die', riskLevel: 'high', note: 'ideation alone' },
+  { message: "I've been cutting myself and I can't stop", riskLevel: 'high', note: 'self-harm disclosure' },
+  { message: "I don't want to hurt myself but I can't stop cutting", riskLevel: 'high', note: 'compulsive self-harm after a negated clause' },
+
+  // Negation
+  { message: 'I would never kill myself', riskLevel: 'low', note: 'negated intent' },
+  { message: "I'm not suicidal and I would never kill myself", riskLevel: 'low', note: 'two negated clauses' },
+  { message: "I'm not okay. I want to die", riskLevel: 'high', note: 'negator in an earlier sentence' },
+  { message: "I don't know why I want to die", riskLevel: 'high', note: 'negator governs another verb' },
+  { message: "I didn't sleep so I won't kill myself over it", riskLevel: 'low', note: 'negator in an earlier clause does not cancel' },
+
+  // Double negation
+  { message: "I never said I didn't want to die", riskLevel: 'high', note: 'negated denial' },
+  { message: "Not a day goes by that I don't want to die", riskLevel: 'high', note: 'negated exception' },
+
+  // Passive ideation
+  { message: "I'm not sure I want to live anymore", riskLevel: 'high', note: 'uncertain about living' },
+  { message: 'I no longer want to be here', riskLevel: 'high', note: 'no longer wants to be here' },
+  { message: "I wish I could go to sleep and never wake up", riskLevel: 'high', note: 'wish not to wake up' },
+
+  // Idioms and everyday phrasing
+  { message: 'I overdosed on coffee lol', riskLevel: 'low', note: 'figurative overdose' },
+  { message: 'I nearly killed myself laughing at that video', riskLevel: 'low', note: 'figurative killing' },
+  { message: "I'll shoot him a message later", riskLevel: 'low', note: 'send a message' },
+  { message: 'My friends hit me up to go out', riskLevel: 'low', note: 'contact someone' },
+  { message: "I'm going to the gym today", riskLevel: 'low', note: 'no markers at all' },
+
+  // Imminence needs more than a plain "today" or "going to"
+  { message: 'I want to kill myself, my exam is going to be awful today', riskLevel: 'high', note: 'plain today and going to' },
+  { message: "I want to kill myself and I'm going to do it today", riskLevel: 'critical', note: 'stated plan' },
+];
+
+describe('assessSafety', () => {
+  it.each(cases)('$note: "$message" is $riskLevel', ({ message, riskLevel }) => {
+    expect(assessSafety(message).riskLevel).toBe(riskLevel);
+  });
+
+  it('attaches resources only when triggered', () => {
+    expect(assessSafety('I want to kill myself tonight').resources.length).toBeGreaterThan(0);
+    expect(assessSafety('I would never kill myself').resources).toEqual([]);
+  });
+
+  it('weighs a PHQ-9 item 9 self-report by its frequency', () => {
+    expect(assessSafety('Hi', undefined, 3).riskLevel).toBe('high');
+    expect(assessSafety('Hi', undefined, 2).riskLevel).toBe('medium');
+    expect(assessSafety('Hi', undefined, 1).riskLevel).toBe('low');
+  });
+});
+
+describe('isNegated', () => {
+  it('looks back only a few words within the clause', () => {
+    const text = 'i have not been sleeping or eating well and i want to die';
+    expect(isNegated(text, text.indexOf('want'))).toBe(false);
+  });
+});
+
+describe('maxRiskLevel', () => {
+  it('returns the more severe level and treats unknown values as low', () => {
+    expect(maxRiskLevel('medium', 'critical')).toBe('critical');
+    expect(maxRiskLevel(undefined, 'bogus')).toBe('low');
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * @fileOverview Deterministic crisis-keyword safety gate for MITR AI
+ * Runs locally before any model call so that risk detection never depends on
+ * the LLM being reachable or on which flow the UI selected.
+ */
+
+import { getCrisisDirectory } from '@/utils/crisis-resources';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type SafetyCategory =
+  | 'suicidal_ideation'
+  | 'self_harm'
+  | 'violence'
+  | 'abuse'
+  | 'psychosis';
+
+export interface CrisisResource {
+  name: string;
+  contact: string;
+  description?: string;
+}
+
+export interface SafetyMatch {
+  category: SafetyCategory;
+  phrase: string;
+  weight: number;
+  negated: boolean;
+}
+
+export interface SafetyGateResult {
+  triggered: boolean;
+  riskLevel: RiskLevel;
+  severity: number; // 0-10
+  categories: SafetyCategory[];
+  matches: SafetyMatch[];
+  concerns: string[];
+  actions: string[];
+  resources: CrisisResource[];
+}
+
+interface LexiconEntry {
+  pattern: RegExp;
+  weight: number; // 1 (mild marker) - 5 (imminent danger)
+}
+
+// Curated lexicons. Weights: 2 = concerning marker, 3 = explicit ideation or
+// disclosure, 4 = intent or method, 5 = imminent plan.
+const LEXICONS: Record<SafetyCategory, LexiconEntry[]> = {
+  suicidal_ideation: [
+    { pattern: /\b(kill|killed|killing) myself\b(?! laughing)/, weight: 4 },
+    { pattern: /\b(end|ending|take|taking) my (own )?life\b/, weight: 4 },
+    { pattern: /\bsuicid(e|al)\b/, weight: 3 },
+    { pattern: /\bwant(ed)? to die\b/, weight: 3 },
+    { pattern: /\bwish (i was|i were|i'?d) (dead|never born)\b/, weight: 3 },
+    { pattern: /\b(don'?t|do not|no longer) want to (live|be alive|wake up|be here)\b/, weight: 3 },
+    { pattern: /\bnot sure (if |whether |that )?i (want to|can) (live|be alive|go on|keep going|be here)\b/, weight: 3 },
+    { pattern: /\bbetter off (dead|without me)\b/, weight: 3 },
+    { pattern: /\bno (reason|point) (to|in) (live|living|go on|going on)\b/, weight: 3 },
+    { pattern: /\bcan'?t go on\b/, weight: 2 },
+    { pattern: /\b(go to sleep|fall asleep|sleep) and (never|not) wake up\b/, weight: 3 },
+    { pattern: /\b(wish|hope|want)(ed)? (i'?d|i would|i could|to) (just )?(never|not) wake up\b/, weight: 3 },
+    { pattern: /\b(disappear|vanish) (forever|for good|permanently)\b/, weight: 3 },
+    { pattern: /\b(cease to exist|stop existing|stop living)\b/, weight: 3 },
+    { pattern: /\bwish i could (just )?(disappear|vanish)\b/, weight: 2 },
+    { pattern: /\b(end it all|ending it all)\b/, weight: 4 },
+    { pattern: /\b(suicide note|goodbye letter|say(ing)? my goodbyes)\b/, weight: 5 },
+    { pattern: /\b(have|got|bought|saved( up)?) (the |enough )?(pills|rope|gun)\b/, weight: 5 },
+  ],
+  self_harm: [
+    { pattern: /\b(cut|cutting|burn|burning|hurt|hurting|harm|harming) myself\b/, weight: 3 },
+    { pattern: /\bself[- ]?harm(ing)?\b/, weight: 3 },
+    { pattern: /\b(can'?t|cannot|couldn'?t) stop (cutting|burning|hurting|harming)\b/, weight: 4 },
+    // "overdosed on coffee" and the like are figures of speech
+    { pattern: /\boverdos(e|ed|ing)\b(?! on (coffee|caffeine|sugar|chocolate|candy|sweets|carbs|junk food|netflix|tv|memes|cuteness)\b)/, weight: 4 },
+    { pattern: /\bstarv(e|ing) myself\b/, weight: 3 },
+    { pattern: /\bpunish(ing)? myself\b/, weight: 2 },
+  ],
+  violence: [
+    { pattern: /\b(kill|killing|murder|hurt|hurting|stab|shoot) (him|her|them|someone|somebody|everyone|my (wife|husband|partner|boss|mom|mum|dad|mother|father|kids?|child|children|family|brother|sister))\b(?! (a|an) (message|text|email|note|line)\b)/, weight: 4 },
+    { pattern: /\bwant to (hurt|attack|beat up) \w+/, weight: 3 },
+    { pattern: /\b(bring|brought|take|taking) a (gun|knife|weapon) to\b/, weight: 5 },
+    { pattern: /\bmake (them|him|her|everyone) pay\b/, weight: 2 },
+  ],
+  abuse: [
+    { pattern: /\b(he|she|they|my \w+) (hits|hit|beats|beat|chokes|choked|kicks|kicked) me\b(?! up\b)/, weight: 4 },
+    { pattern: /\b(abused|abusing|abuse) me\b/, weight: 3 },
+    { pattern: /\b(raped|sexually assaulted|molested)\b/, weight: 4 },
+    { pattern: /\b(afraid|scared) (to go|of going) home\b/, weight: 3 },
+    { pattern: /\bthreaten(s|ed)? to (kill|hurt) me\b/, weight: 4 },
+    { pattern: /\b(won'?t|doesn'?t) let me (leave|see anyone)\b/, weight: 2 },
+  ],
+  psychosis: [
+    { pattern: /\bvoices (are )?(telling|tell|told) me\b/, weight: 4 },
+    { pattern: /\bhear(ing)? voices\b/, weight: 3 },
+    { pattern: /\b(they are|they're|people are) (watching|following|controlling) me\b/, weight: 2 },
+    { pattern: /\b(implanted|reading my (mind|thoughts)|the tv is talking to me)\b/, weight: 3 },
+    { pattern: /\bseeing things (that )?(aren'?t|are not) there\b/, weight: 3 },
+  ],
+};
+
+// Phrases that raise severity when they co-occur with ideation or violence. Plain
+// "today" or "going to" are too common to count; they must refer to the act.
+const IMMINENCE_PATTERN = /\b(tonight|right now|this weekend|(do|doing|end|ending) it (today|tomorrow|tonight|soon)|plan(ned)? to|(made|have|got) a plan|goodbye|decided to|(going to|gonna) do it)\b/;
+
+// Negators that, when they appear shortly before a match in the same clause,
+// flip its meaning ("I would never kill myself", "I'm not suicidal").
+const NEGATION_PATTERN = /\b(not|never|no longer|don'?t|didn'?t|wouldn'?t|won'?t|isn'?t|aren'?t|wasn'?t|nor)\b/g;
+const NEGATION_WINDOW = 4;
+
+// The look-back stops at these, so "I'm not okay. I want to die" and "I'm not
+// suicidal and I'd never kill myself" are read clause by clause
+const CLAUSE_BOUNDARY = /[.!?,;:…]+|\b(?:but|and|so|because|since|then|while|although|though)\b/;
+
+// A new subject or subordinate clause between negator and match means the
+// negator governs something else ("I don't know why I want to die")
+const NEW_CLAUSE_PATTERN = /\b(i|i'm|im|i'd|i'll|i've|you|he|she|they|we|why|because|that|if|when|whether|so)\b/;
+
+const CATEGORY_CONCERNS: Record<SafetyCategory, string> = {
+  suicidal_ideation: 'Expressions of suicidal ideation',
+  self_harm: 'Indicators of self-harm',
+  violence: 'Statements about harming others',
+  abuse: 'Disclosure of abuse or unsafe living situation',
+  psychosis: 'Possible psychotic symptoms (e.g. hearing voices, paranoia)',
+};
+
+const CATEGORY_ACTIONS: Record<SafetyCategory, string> = {
+  suicidal_ideation: 'Ask directly about safety and connect the user with a crisis line',
+  self_harm: 'Encourage immediate support and discuss reducing access to means',
+  violence: 'De-escalate and encourage contacting emergency services if anyone is at risk',
+  abuse: 'Validate the disclosure and share domestic violence and emergency resources',
+  psychosis: 'Respond calmly without challenging beliefs and encourage urgent professional assessment',
+};
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+const SELF_REPORT_PHRASES = ['', 'several days', 'more than half the days', 'nearly every day'];
+const SELF_REPORT_CONCERN = 'Self-reported thoughts of death or self-harm (PHQ-9 item 9)';
+
+/**
+ * Returns the more severe of two risk levels. Unknown values are treated as low.
+ */
+export function maxRiskLevel(a: string | undefined, b: string | undefined): RiskLevel {
+  const rank = (level?: string) => Math.max(0, RISK_ORDER.indexOf((level ?? '').toLowerCase() as RiskLevel));
+  return RISK_ORDER[Math.max(rank(a), rank(b))];
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Whether the match at `matchIndex` in lower-cased text is governed by a
+ * negator earlier in the same clause. Negators cancel out in pairs, so double
+ * negations ("I never said I didn't want to die", "not a day goes by that I
+ * don't want to die") are not negated.
+ */
+export function isNegated(text: string, matchIndex: number): boolean {
+  const clause = (text.slice(0, matchIndex).split(CLAUSE_BOUNDARY).pop() ?? '').trim();
+  const preceding = clause.split(' ').slice(-NEGATION_WINDOW).join(' ');
+  const negator = Array.from(preceding.matchAll(NEGATION_PATTERN)).pop();
+  if (!negator) return false;
+  if (NEW_CLAUSE_PATTERN.test(preceding.slice((negator.index ?? 0) + negator[0].length))) return false;
+
+  const governing = clause.length - preceding.length + (negator.index ?? 0);
+  const earlier = Array.from(clause.slice(0, governing).matchAll(NEGATION_PATTERN)).length;
+  return earlier % 2 === 0;
+}
+
+function toRiskLevel(severity: number): RiskLevel {
+  if (severity >= 7.5) return 'critical';
+  if (severity >= 4.5) return 'high';
+  if (severity >= 3) return 'medium';
+  return 'low';
+}
+
+/**
+ * The PHQ-9 item 9 response (0-3) among the assessments passed to a flow, if any.
+ */
+export function selfReportedIdeation(assessments?: Array<{ suicidalIdeationItem?: number }>): number | undefined {
+  return assessments?.find(assessment => assessment.suicidalIdeationItem !== undefined)?.suicidalIdeationItem;
+}
+
+/**
+ * Scans a message against the crisis lexicons and scores its severity.
+ * The gate is considered triggered when the resulting risk level is high or critical;
+ * crisis resources are then resolved for the given region.
+ *
+ * A recent PHQ-9 item 9 response counts as a suicidal ideation marker weighted
+ * by its frequency (1-3): on its own only "nearly every day" reaches high risk,
+ * but lower answers make concerning phrases in the message count for more.
+ */
+export function assessSafety(message: string, region?: string, phq9Item9?: number): SafetyGateResult {
+  const text = normalize(message);
+  const matches: SafetyMatch[] = [];
+
+  for (const [category, entries] of Object.entries(LEXICONS) as [SafetyCategory, LexiconEntry[]][]) {
+    for (const entry of entries) {
+      // A phrase counts if any occurrence of it is not negated
+      const hits = Array.from(text.matchAll(new RegExp(entry.pattern.source, 'g')))
+        .map(hit => ({ phrase: hit[0], negated: isNegated(text, hit.index ?? 0) }));
+      if (hits.length === 0) continue;
+      const hit = hits.find(candidate => !candidate.negated) ?? hits[0];
+      matches.push({ category, phrase: hit.phrase, weight: entry.weight, negated: hit.negated });
+    }
+  }
+
+  // Categories raised by the message itself; imminence only applies to these
+  const textCategories = Array.from(new Set(matches.filter(match => !match.negated).map(match => match.category)));
+
+  const selfReported = !!phq9Item9 && phq9Item9 > 0;
+  if (selfReported) {
+    const response = Math.min(3, Math.round(phq9Item9!));
+    matches.push({
+      category: 'suicidal_ideation',
+      phrase: `PHQ-9 item 9: ${SELF_REPORT_PHRASES[response]}`,
+      weight: response,
+      negated: false,
+    });
+  }
+
+  const active = matches.filter(match => !match.negated);
+  const categories = Array.from(new Set(active.map(match => match.category)));
+
+  // Severity: strongest marker dominates, corroborating markers and imminence add to it
+  let severity = 0;
+  if (active.length > 0) {
+    const weights = active.map(match => match.weight).sort((a, b) => b - a);
+    severity = weights[0] * 1.5 + weights.slice(1).reduce((sum, weight) => sum + weight * 0.5, 0);
+    if (
+      IMMINENCE_PATTERN.test(text) &&
+      textCategories.some(category => category === 'suicidal_ideation' || category === 'self_harm' || category === 'violence')
+    ) {
+      severity += 2;
+    }
+    severity = Math.min(10, severity);
+  }
+
+  const riskLevel = toRiskLevel(severity);
+  const triggered = riskLevel === 'high' || riskLevel === 'critical';
+
+  return {
+    triggered,
+    riskLevel,
+    severity,
+    categories,
+    matches,
+    concerns: [
+      ...textCategories.map(category => CATEGORY_CONCERNS[category]),
+      ...(selfReported ? [SELF_REPORT_CONCERN] : []),
+    ],
+    actions: triggered
+      ? [
+          ...(riskLevel === 'critical' ? ['Encourage contacting emergency services immediately'] : []),
+          ...categories.map(category => CATEGORY_ACTIONS[category]),
+        ]
+      : [],
+    resources: triggered ? getCrisisDirectory(region).resources : [],
+  };
+}
+
+/**
+ * Builds a short instruction for the response prompt when the gate has fired,
+ * so the model addresses safety first.
+ */
+export function describeSafetyGate(gate: SafetyGateResult): string | undefined {
+  if (!gate.triggered) return undefined;
+  return `Local safety screen flagged ${gate.riskLevel.toUpperCase()} risk (${gate.concerns.join('; ')}). ` +
+    'Acknowledge what the user shared with warmth, ask directly about their immediate safety, ' +
+    'and encourage them to reach out to a crisis line or emergency services now.';
+}
+
+/**
+ * Fallback reply used when the gate has fired and no model response is available.
+ */
+export function buildCrisisResponse(gate: SafetyGateResult): string {
+  const resources = gate.resources.map(resource => `${resource.name}: ${resource.contact}`).join('\n');
+  return "I'm really glad you told me, and I'm concerned about your safety right now. " +
+    "You don't have to go through this alone. Are you safe at this moment? " +
+    'Please reach out to someone who can help immediately:\n' + resources;
+}
+
+interface GateableOutput {
+  response: string;
+  emotionAnalysis: { distressLevel: number };
+  contextualInsights: { urgencyLevel: string };
+  avatarControl: { expression: string; emotionalState: string };
+  interventions: { immediate: string[] };
+  safetyAssessment: {
+    riskLevel: string;
+    concerns: string[];
+    actions: string[];
+    followUp: boolean;
+    resources?: CrisisResource[];
+  };
+}
+
+/**
+ * Overrides a flow output with the gate's findings. The risk level is never
+ * lowered below what the model reported, and crisis resources are always attached.
+ */
+export function applySafetyGate<T extends GateableOutput>(output: T, gate: SafetyGateResult): T {
+  if (!gate.triggered) return output;
+
+  const riskLevel = maxRiskLevel(output.safetyAssessment.riskLevel, gate.riskLevel);
+  const resourceLines = gate.resources.map(resource => `${resource.name}: ${resource.contact}`);
+  const mentionsResources = gate.resources.some(resource => output.response.includes(resource.contact));
+
+  return {
+    ...output,
+    response: mentionsResources
+      ? output.response
+      : `${output.response}\n\nIf you're in crisis, please reach out now:\n${resourceLines.join('\n')}`,
+    emotionAnalysis: {
+      ...output.emotionAnalysis,
+      distressLevel: Math.max(output.emotionAnalysis.distressLevel, riskLevel === 'critical' ? 0.95 : 0.8),
+    },
+    contextualInsights: {
+      ...output.contextualInsights,
+      urgencyLevel: riskLevel,
+    },
+    avatarControl: {
+      ...output.avatarControl,
+      expression: 'concerned',
+      emotionalState: 'protective',
+    },
+    interventions: {
+      ...output.interventions,
+      immediate: [
+        'Contact a crisis line or emergency services',
+        ...output.interventions.immediate.filter(item => !item.includes('crisis line')),
+      ],
+    },
+    safetyAssessment: {
+      riskLevel,
+      concerns: Array.from(new Set([...gate.concerns, ...output.safetyAssessment.concerns])),
+      actions: Array.from(new Set([...gate.actions, ...output.safetyAssessment.actions])),
+      followUp: true,
+      resources: gate.resources,
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { sentimentAnalyzer } from './sentiment-analyzer';
+
+const primary = (text: string) => sentimentAnalyzer.analyzeText(text).emotion.primary;
+
+describe('sentimentAnalyzer.analyzeText', () => {
+  it('matches whole words only', () => {
+    expect(primary('I feel hopeless')).toBe('sad');
+    expect(primary('I hope things improve')).toBe('hopeful');
+  });
+
+  it('reads negated positive words as low mood', () => {
+    expect(primary("I'm not happy at all")).toBe('sad');
+    expect(primary("I'm not okay")).toBe('sad');
+  });
+
+  it('ignores negated distress words', () => {
+    expect(primary("I'm not worried anymore")).toBe('neutral');
+    expect(sentimentAnalyzer.analyzeText("I'm not worried anymore").emotion.distressLevel).toBe(0);
+  });
+
+  it('only applies a negator within its clause', () => {
+    expect(primary("It's not perfect, but I'm happy")).toBe('happy');
+  });
+});
@@ -3,9 +3,11 @@
  * Provides real-time sentiment analysis with emotion detection and health metrics
  */
 
+import { isNegated } from '@/utils/safety-gate';
+
 const EMOTION_KEYWORDS = {
   happy: ['happy', 'joy', 'great', 'excited', 'wonderful', 'awesome', 'good'],
-  sad: ['sad', 'upset', 'unhappy', 'depressed', 'down', 'hurt', 'pain'],
+  sad: ['sad', 'upset', 'unhappy', 'depressed', 'down', 'hurt', 'pain', 'hopeless'],
   angry: ['angry', 'frustrated', 'mad', 'annoyed', 'irritated', 'furious'],
   anxious: ['anxious', 'worried', 'nervous', 'scared', 'afraid', 'stressed'],
   neutral: ['okay', 'fine', 'alright', 'normal', 'regular'],
@@ -14,6 +16,15 @@ const EMOTION_KEYWORDS = {
   overwhelmed: ['overwhelmed', 'too much', 'exhausted', 'cant handle', "can't handle"],
 };
 
+// Emotions whose keywords signal low mood when negated ("not happy", "not okay")
+const FLIPPED_WHEN_NEGATED = new Set(['happy', 'neutral', 'grateful', 'hopeful']);
+
+// Whole-word patterns, so "hopeless" does not count as "hope"
+const EMOTION_PATTERNS = Object.entries(EMOTION_KEYWORDS).map(([emotion, keywords]) => ({
+  emotion,
+  patterns: keywords.map(keyword => new RegExp(`\\b${keyword}\\b`, 'g')),
+}));
+
 interface SentimentMetrics {
   emotion: {
     primary: string;
@@ -42,26 +53,30 @@ class SentimentAnalyzer {
   }
 
   analyzeText(text: string): SentimentMetrics {
-    const lowerText = text.toLowerCase();
-    const words = lowerText.split(/\s+/);
-    
-    // Count emotion occurrences
-    const emotionScores = new Map<string, number>();
+    const lowerText = text.toLowerCase().replace(/[‘’]/g, "'");
+
+    // Count the keywords present for each emotion. A keyword only negated in the
+    // text does not count, and a negated positive one counts as sad instead.
+    const emotionScores = new Map<string, number>(Object.keys(EMOTION_KEYWORDS).map(emotion => [emotion, 0]));
+    const addScore = (emotion: string) => emotionScores.set(emotion, (emotionScores.get(emotion) ?? 0) + 1);
+
+    for (const { emotion, patterns } of EMOTION_PATTERNS) {
+      for (const pattern of patterns) {
+        const hits = Array.from(lowerText.matchAll(pattern));
+        if (hits.length === 0) continue;
+        if (hits.some(hit => !isNegated(lowerText, hit.index ?? 0))) addScore(emotion);
+        else if (FLIPPED_WHEN_NEGATED.has(emotion)) addScore('sad');
+      }
+    }
+
     let maxScore = 0;
     let primaryEmotion = 'neutral';
-
-    for (const [emotion, keywords] of Object.entries(EMOTION_KEYWORDS)) {
-      const score = keywords.reduce((count, keyword) => {
-        return count + (lowerText.includes(keyword) ? 1 : 0);
-      }, 0);
-      
-      emotionScores.set(emotion, score);
-      
+    emotionScores.forEach((score, emotion) => {
       if (score > maxScore) {
         maxScore = score;
         primaryEmotion = emotion;
       }
-    }
+    });
 
     // Calculate confidence based on emotion keyword matches
     const confidence = Math.min(1, maxScore / 3);
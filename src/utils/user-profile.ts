@@ -0,0 +1,260 @@
+/**
+ * @fileOverview Persistent user profile for MITR AI
+ * Stores the user's therapeutic goals, triggers and coping strategies in IndexedDB,
+ * and proposes new entries extracted from conversations for the user to confirm.
+ * Only confirmed entries are ever sent to the flows.
+ */
+
+import {
+  PROFILE_STORE,
+  PROFILE_SUGGESTION_STORE,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  putRecord,
+} from '@/utils/analysis-cache';
+import type { FlowAssessment } from '@/utils/questionnaires';
+import { assessSafety } from '@/utils/safety-gate';
+
+export type ProfileField = 'therapeuticGoals' | 'triggers' | 'copingStrategies';
+
+export interface UserProfile {
+  id: string;
+  therapeuticGoals: string[];
+  triggers: string[];
+  copingStrategies: string[];
+  preferences: Record<string, unknown>;
+  updatedAt: string;
+}
+
+export interface ProfileSuggestion {
+  id: string;
+  field: ProfileField;
+  value: string;
+  sourceMessage: string;
+  timestamp: string;
+}
+
+// The shape accepted by the flows' `userProfile` input
+export interface FlowUserProfile {
+  therapeuticGoals?: string[];
+  triggers?: string[];
+  copingStrategies?: string[];
+  preferences?: Record<string, unknown>;
+  assessments?: FlowAssessment[];
+}
+
+const PROFILE_ID = 'default';
+const MAX_SUGGESTION_WORDS = 10;
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  therapeuticGoals: 'Therapeutic goals',
+  triggers: 'Triggers',
+  copingStrategies: 'Coping strategies',
+};
+
+export function createEmptyProfile(): UserProfile {
+  return {
+    id: PROFILE_ID,
+    therapeuticGoals: [],
+    triggers: [],
+    copingStrategies: [],
+    preferences: {},
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Components that show or use the profile subscribe so edits made in one place appear everywhere
+type ProfileListener = () => void;
+const listeners = new Set<ProfileListener>();
+
+export function subscribeToProfile(listener: ProfileListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyProfileChange(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Loads the stored profile, or an empty one if nothing has been saved yet.
+ */
+export async function getUserProfile(): Promise<UserProfile> {
+  try {
+    return (await getRecord<UserProfile>(PROFILE_STORE, PROFILE_ID)) ?? createEmptyProfile();
+  } catch (error) {
+    console.error('Failed to load user profile', error);
+    return createEmptyProfile();
+  }
+}
+
+/**
+ * Saves the profile, de-duplicating and trimming every list.
+ */
+export async function saveUserProfile(profile: UserProfile): Promise<UserProfile> {
+  const clean = (items: string[]) => dedupe(items.map(item => item.trim()).filter(Boolean));
+  const record: UserProfile = {
+    ...profile,
+    id: PROFILE_ID,
+    therapeuticGoals: clean(profile.therapeuticGoals),
+    triggers: clean(profile.triggers),
+    copingStrategies: clean(profile.copingStrategies),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await putRecord(PROFILE_STORE, record);
+  notifyProfileChange();
+  return record;
+}
+
+/**
+ * Converts a stored profile and recent questionnaire scores into the flows'
+ * input shape, omitting empty lists.
+ */
+export function toFlowProfile(profile: UserProfile | null, assessments: FlowAssessment[] = []): FlowUserProfile | undefined {
+  const flowProfile: FlowUserProfile = {
+    therapeuticGoals: profile?.therapeuticGoals.length ? profile.therapeuticGoals : undefined,
+    triggers: profile?.triggers.length ? profile.triggers : undefined,
+    copingStrategies: profile?.copingStrategies.length ? profile.copingStrategies : undefined,
+    preferences: profile && Object.keys(profile.preferences).length ? profile.preferences : undefined,
+    assessments: assessments.length ? assessments : undefined,
+  };
+  return Object.values(flowProfile).some(Boolean) ? flowProfile : undefined;
+}
+
+function dedupe(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Conversation patterns that suggest a profile entry. The first capture group is the entry.
+const SUGGESTION_PATTERNS: Array<{ field: ProfileField; pattern: RegExp }> = [
+  { field: 'therapeuticGoals', pattern: /\bmy goal is to ([^.!?,;]+)/gi },
+  { field: 'therapeuticGoals', pattern: /\bi(?:'d| would) (?:really )?like to ([^.!?,;]+)/gi },
+  { field: 'therapeuticGoals', pattern: /\bi want to (?:be able to )?((?:stop|start|feel|get|be|learn|improve|manage|work on|sleep|build|find)\b[^.!?,;]+)/gi },
+  { field: 'therapeuticGoals', pattern: /\bi(?:'m| am) (?:trying|working) (?:to|on) ([^.!?,;]+)/gi },
+  { field: 'triggers', pattern: /\b((?:\w+ ){0,4}\w+) (?:makes|make|made) me (?:so |really |very )?(?:anxious|stressed|panic|angry|upset|sad|nervous|overwhelmed)/gi },
+  { field: 'triggers', pattern: /\bi (?:get|feel|become) (?:so |really |very )?(?:anxious|stressed|panicky|angry|upset|sad|nervous|overwhelmed) (when [^.!?,;]+)/gi },
+  { field: 'triggers', pattern: /\b(?:triggered|set off) by ([^.!?,;]+)/gi },
+  { field: 'copingStrategies', pattern: /\b((?:\w+ ){0,3}\w+ing(?: \w+){0,3}) (?:really )?helps(?: me)?\b/gi },
+  { field: 'copingStrategies', pattern: /\bwhat helps(?: me)? is ([^.!?,;]+)/gi },
+  { field: 'copingStrategies', pattern: /\bi (?:usually |often |try to )?(?:cope|calm down|relax|unwind|feel better) by ([^.!?,;]+)/gi },
+];
+
+// Captures that are too vague to be useful entries
+const VAGUE_CAPTURES = /^(it|that|this|everything|anything|nothing|something|things|he|she|they|you|talking to you)$/;
+
+// Adverbs the greedy captures pick up before "helps", "makes me" etc.
+const TRAILING_ADVERBS = /^(really|very|so|just|always|usually|often|sometimes|actually|definitely|honestly|truly|totally)$/i;
+
+function tidyCapture(capture: string): string | null {
+  const words = capture.trim().replace(/\s+/g, ' ').split(' ');
+  while (words.length > 0 && TRAILING_ADVERBS.test(words[words.length - 1])) words.pop();
+  if (words.length === 0 || words.length > MAX_SUGGESTION_WORDS) return null;
+  const value = words.join(' ').toLowerCase();
+  return value.length < 3 || VAGUE_CAPTURES.test(value) ? null : value;
+}
+
+// Any lexicon hit counts, negated or not: a suggestion is never worth the risk
+const raisesSafetyConcern = (text: string) => assessSafety(text).matches.length > 0;
+
+/**
+ * Heuristically extracts candidate profile entries from a user message.
+ * Results are only suggestions; nothing is added to the profile until confirmed.
+ * Messages the safety gate flags yield nothing, so crisis statements such as
+ * "I'd like to end my life" never become goals or coping strategies.
+ */
+export function extractProfileSuggestions(
+  message: string
+): Array<Pick<ProfileSuggestion, 'field' | 'value'>> {
+  const text = message.replace(/[‘’]/g, "'");
+  const suggestions: Array<Pick<ProfileSuggestion, 'field' | 'value'>> = [];
+  if (raisesSafetyConcern(text)) return suggestions;
+
+  for (const { field, pattern } of SUGGESTION_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const value = tidyCapture(match[1] ?? '');
+      if (value && !raisesSafetyConcern(value) && !suggestions.some(suggestion => suggestion.field === field && suggestion.value === value)) {
+        suggestions.push({ field, value });
+      }
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Extracts suggestions from a message and queues those not already in the profile or queue.
+ * Returns the newly queued suggestions.
+ */
+export async function queueProfileSuggestions(message: string): Promise<ProfileSuggestion[]> {
+  const candidates = extractProfileSuggestions(message);
+  if (candidates.length === 0) return [];
+
+  try {
+    const [profile, pending] = await Promise.all([getUserProfile(), getProfileSuggestions()]);
+    const known = (field: ProfileField, value: string) =>
+      profile[field].some(item => item.toLowerCase() === value) ||
+      pending.some(suggestion => suggestion.field === field && suggestion.value === value);
+
+    const queued: ProfileSuggestion[] = [];
+    for (const candidate of candidates) {
+      if (known(candidate.field, candidate.value)) continue;
+      const suggestion: ProfileSuggestion = {
+        id: crypto.randomUUID(),
+        ...candidate,
+        sourceMessage: message,
+        timestamp: new Date().toISOString(),
+      };
+      await putRecord(PROFILE_SUGGESTION_STORE, suggestion);
+      queued.push(suggestion);
+    }
+
+    if (queued.length > 0) notifyProfileChange();
+    return queued;
+  } catch (error) {
+    console.error('Failed to queue profile suggestions', error);
+    return [];
+  }
+}
+
+/**
+ * Returns pending suggestions, oldest first.
+ */
+export async function getProfileSuggestions(): Promise<ProfileSuggestion[]> {
+  try {
+    const suggestions = await getAllRecords<ProfileSuggestion>(PROFILE_SUGGESTION_STORE);
+    return suggestions.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  } catch (error) {
+    console.error('Failed to load profile suggestions', error);
+    return [];
+  }
+}
+
+/**
+ * Adds a suggestion (optionally edited by the user) to the profile and removes it from the queue.
+ */
+export async function acceptProfileSuggestion(suggestion: ProfileSuggestion, value = suggestion.value): Promise<UserProfile> {
+  const profile = await getUserProfile();
+  const saved = await saveUserProfile({
+    ...profile,
+    [suggestion.field]: [...profile[suggestion.field], value],
+  });
+  await deleteRecord(PROFILE_SUGGESTION_STORE, suggestion.id);
+  notifyProfileChange();
+  return saved;
+}
+
+/**
+ * Discards a suggestion without changing the profile.
+ */
+export async function dismissProfileSuggestion(id: string): Promise<void> {
+  await deleteRecord(PROFILE_SUGGESTION_STORE, id);
+  notifyProfileChange();
+}
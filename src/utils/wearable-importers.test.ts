@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseAppleHealthExport, parseHealthConnectJson } from './wearable-importers';
+
+// Apple writes "2024-03-01 07:15:00 -0800"; records must fall inside the import window
+function appleDate(date: Date): string {
+  return `${date.toISOString().slice(0, 10)} ${date.toISOString().slice(11, 19)} +0000`;
+}
+
+function sleepRecord(device: string, stage: string, start: Date, hours: number): string {
+  const end = new Date(start.getTime() + hours * 3_600_000);
+  return `<Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="${device}" value="HKCategoryValueSleepAnalysis${stage}" startDate="${appleDate(start)}" endDate="${appleDate(end)}"/>`;
+}
+
+describe('parseAppleHealthExport', () => {
+  it('keeps the sleep of the device that recorded most of it', async () => {
+    const night = new Date(Date.now() - 2 * 24 * 3_600_000);
+    night.setUTCHours(23, 0, 0, 0);
+    const at = (hours: number) => new Date(night.getTime() + hours * 3_600_000);
+
+    const samples = await parseAppleHealthExport([
+      '<HealthData>',
+      sleepRecord('Watch', 'AsleepCore', at(0), 3),
+      sleepRecord('Watch', 'AsleepDeep', at(3), 1.5),
+      sleepRecord('Watch', 'AsleepREM', at(4.5), 2),
+      sleepRecord('iPhone', 'AsleepUnspecified', at(0.5), 6),
+      '</HealthData>',
+    ]);
+
+    expect(samples.map(sample => sample.metric).sort()).toEqual(['sleep_deep', 'sleep_light', 'sleep_rem']);
+    expect(samples.reduce((total, sample) => total + sample.value, 0)).toBe(6.5);
+  });
+});
+
+describe('parseHealthConnectJson', () => {
+  it('reads plain numbers and unit objects', () => {
+    const time = new Date(Date.now() - 3_600_000).toISOString();
+    const samples = parseHealthConnectJson([
+      { recordType: 'OxygenSaturationRecord', time, percentage: { value: 97 } },
+      { recordType: 'BloodPressureRecord', time, systolic: { inMillimetersOfMercury: 118 }, diastolic: 76 },
+      { recordType: 'RespiratoryRateRecord', time, rate: 14 },
+      { recordType: 'RestingHeartRateRecord', time },
+    ]);
+
+    expect(Object.fromEntries(samples.map(sample => [sample.metric, sample.value]))).toEqual({
+      spo2: 97,
+      blood_pressure_systolic: 118,
+      blood_pressure_diastolic: 76,
+      respiratory_rate: 14,
+    });
+  });
+});
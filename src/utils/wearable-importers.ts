@@ -0,0 +1,591 @@
+/**
+ * @fileOverview Importers for wearable data exports
+ * Each parser turns one standard export format into WearableSamples:
+ *   - Apple Health: export.xml from Health > Profile > Export All Health Data (unzipped)
+ *   - Google Fit: the per-data-type JSON files under Takeout/Fit/All data
+ *   - Health Connect: JSON arrays of Health Connect records (type name plus its fields)
+ *   - Fitbit: the CSV from the fitbit.com data export (Activities and Sleep sections)
+ *   - Garmin: .fit files from the watch or Garmin Connect (activities, monitoring, sleep)
+ * Only the last IMPORT_WINDOW_DAYS of each export are kept.
+ */
+
+import { decodeFit, fitTimeToDate, FIT_MESSAGE, FIT_TIMESTAMP_FIELD, type FitMessage } from '@/utils/fit-decoder';
+import {
+  createSample,
+  keepPrimaryRecorder,
+  withinImportWindow,
+  type WearableMetric,
+  type WearableSample,
+  type WearableSource,
+} from '@/utils/wearable-timeseries';
+
+export type WearableExportFormat = WearableSource;
+
+export interface WearableImportResult {
+  fileName: string;
+  format: WearableExportFormat;
+  samples: WearableSample[];
+}
+
+export const WEARABLE_IMPORT_ACCEPT = '.xml,.json,.csv,.fit';
+
+export const WEARABLE_SOURCE_LABELS: Record<WearableSource, string> = {
+  apple_health: 'Apple Health',
+  google_fit: 'Google Fit',
+  health_connect: 'Health Connect',
+  fitbit: 'Fitbit',
+  garmin: 'Garmin',
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+function hoursBetween(start: Date, end: Date): number {
+  return (end.getTime() - start.getTime()) / HOUR_MS;
+}
+
+function pushSample(samples: WearableSample[], sample: WearableSample | null): void {
+  if (sample && withinImportWindow(sample)) samples.push(sample);
+}
+
+/**
+ * Averages dense heart-rate series (workouts, 1 Hz activity files) to one sample a
+ * minute and drops duplicate ids, so stores and snapshots stay small.
+ */
+function finalizeSamples(samples: WearableSample[]): WearableSample[] {
+  const heartRateMinutes = new Map<string, WearableSample[]>();
+  const byId = new Map<string, WearableSample>();
+
+  for (const sample of samples) {
+    if (sample.metric !== 'heart_rate') {
+      byId.set(sample.id, sample);
+      continue;
+    }
+    const minute = new Date(Math.floor(Date.parse(sample.timestamp) / MINUTE_MS) * MINUTE_MS).toISOString();
+    heartRateMinutes.set(minute, [...(heartRateMinutes.get(minute) ?? []), sample]);
+  }
+
+  heartRateMinutes.forEach((minuteSamples, minute) => {
+    const average = minuteSamples.reduce((total, sample) => total + sample.value, 0) / minuteSamples.length;
+    const sample = createSample(minuteSamples[0].source, 'heart_rate', Math.round(average), new Date(minute));
+    if (sample) byId.set(sample.id, sample);
+  });
+
+  return Array.from(byId.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+// ---------------------------------------------------------------------------
+// Apple Health
+
+const APPLE_QUANTITY_METRICS: Record<string, WearableMetric> = {
+  HKQuantityTypeIdentifierHeartRate: 'heart_rate',
+  HKQuantityTypeIdentifierRestingHeartRate: 'resting_heart_rate',
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'hrv',
+  HKQuantityTypeIdentifierStepCount: 'steps',
+  HKQuantityTypeIdentifierActiveEnergyBurned: 'active_energy',
+  HKQuantityTypeIdentifierAppleExerciseTime: 'active_minutes',
+  HKQuantityTypeIdentifierOxygenSaturation: 'spo2',
+  HKQuantityTypeIdentifierRespiratoryRate: 'respiratory_rate',
+  HKQuantityTypeIdentifierAppleSleepingWristTemperature: 'skin_temperature',
+  HKQuantityTypeIdentifierBloodPressureSystolic: 'blood_pressure_systolic',
+  HKQuantityTypeIdentifierBloodPressureDiastolic: 'blood_pressure_diastolic',
+};
+
+const APPLE_SLEEP_METRICS: Record<string, WearableMetric> = {
+  HKCategoryValueSleepAnalysisInBed: 'sleep_in_bed',
+  HKCategoryValueSleepAnalysisAsleep: 'sleep_asleep',
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 'sleep_asleep',
+  HKCategoryValueSleepAnalysisAsleepCore: 'sleep_light',
+  HKCategoryValueSleepAnalysisAsleepDeep: 'sleep_deep',
+  HKCategoryValueSleepAnalysisAsleepREM: 'sleep_rem',
+  HKCategoryValueSleepAnalysisAwake: 'sleep_awake',
+};
+
+const APPLE_SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+
+// Apple writes "2024-03-01 07:15:00 -0800"
+function parseAppleDate(value?: string): Date {
+  const match = value && /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(value);
+  return match ? new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : new Date(NaN);
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/(\w+)="([^"]*)"/g))) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+function appleQuantityValue(metric: WearableMetric, value: number, unit?: string): number {
+  if (metric === 'spo2' && value <= 1) return value * 100; // stored as a fraction
+  if (metric === 'active_energy' && unit === 'kJ') return value / 4.184;
+  if (metric === 'skin_temperature' && unit === 'degF') return ((value - 32) * 5) / 9;
+  return value;
+}
+
+/**
+ * Parses an Apple Health export.xml. The export can run to gigabytes, so it is
+ * read as a stream of text chunks and scanned one <Record> at a time.
+ */
+export async function parseAppleHealthExport(chunks: AsyncIterable<string> | string[]): Promise<WearableSample[]> {
+  const samples: WearableSample[] = [];
+  const deviceOf = new Map<WearableSample, string>();
+  let buffer = '';
+
+  const handleRecord = (tag: string) => {
+    const attributes = parseAttributes(tag);
+    const start = parseAppleDate(attributes.startDate);
+    const end = parseAppleDate(attributes.endDate);
+
+    let sample: WearableSample | null = null;
+    if (attributes.type === APPLE_SLEEP_TYPE) {
+      const metric = APPLE_SLEEP_METRICS[attributes.value];
+      if (metric) sample = createSample('apple_health', metric, hoursBetween(start, end), start, end);
+    } else {
+      const metric = APPLE_QUANTITY_METRICS[attributes.type];
+      if (metric) {
+        const value = appleQuantityValue(metric, parseFloat(attributes.value), attributes.unit);
+        sample = createSample('apple_health', metric, value, start, end);
+      }
+    }
+    if (!sample || !withinImportWindow(sample)) return;
+
+    deviceOf.set(sample, attributes.sourceName ?? '');
+    samples.push(sample);
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    let tagEnd = 0;
+    for (const match of Array.from(buffer.matchAll(/<Record\b[^>]*>/g))) {
+      handleRecord(match[0]);
+      tagEnd = match.index! + match[0].length;
+    }
+    // Keep only a possibly incomplete trailing tag for the next chunk
+    const rest = buffer.slice(tagEnd);
+    const openTag = rest.lastIndexOf('<');
+    buffer = openTag === -1 ? '' : rest.slice(openTag);
+  }
+
+  // Phone and watch both record steps and sleep; keep the device that recorded most of each
+  return finalizeSamples(keepPrimaryRecorder(samples, sample => deviceOf.get(sample) ?? ''));
+}
+
+// ---------------------------------------------------------------------------
+// Google Fit (Takeout) and Health Connect
+
+interface GoogleFitValue {
+  intVal?: number;
+  fpVal?: number;
+}
+
+interface GoogleFitDataPoint {
+  dataTypeName: string;
+  startTimeNanos: string | number;
+  endTimeNanos: string | number;
+  fitValue: { value: GoogleFitValue }[];
+}
+
+const GOOGLE_FIT_METRICS: Record<string, WearableMetric> = {
+  'com.google.heart_rate.bpm': 'heart_rate',
+  'com.google.step_count.delta': 'steps',
+  'com.google.calories.expended': 'active_energy',
+  'com.google.active_minutes': 'active_minutes',
+  'com.google.oxygen_saturation': 'spo2',
+  'com.google.respiratory_rate': 'respiratory_rate',
+};
+
+// Sleep stage codes shared by Google Fit and Health Connect
+const SLEEP_STAGE_CODES: Record<number, WearableMetric> = {
+  1: 'sleep_awake',
+  2: 'sleep_asleep',
+  4: 'sleep_light',
+  5: 'sleep_deep',
+  6: 'sleep_rem',
+};
+
+function nanosToDate(nanos: string | number): Date {
+  return new Date(Number(BigInt(nanos) / BigInt(1_000_000)));
+}
+
+function fitNumber(value?: { value: GoogleFitValue }): number {
+  return value?.value.fpVal ?? value?.value.intVal ?? NaN;
+}
+
+export function parseGoogleFitJson(data: { 'Data Points': GoogleFitDataPoint[] }): WearableSample[] {
+  const samples: WearableSample[] = [];
+
+  for (const point of data['Data Points']) {
+    const start = nanosToDate(point.startTimeNanos);
+    const end = nanosToDate(point.endTimeNanos);
+    const value = fitNumber(point.fitValue[0]);
+
+    if (point.dataTypeName === 'com.google.sleep.segment') {
+      const metric = SLEEP_STAGE_CODES[value];
+      if (metric) pushSample(samples, createSample('google_fit', metric, hoursBetween(start, end), start, end));
+    } else if (point.dataTypeName === 'com.google.blood_pressure') {
+      pushSample(samples, createSample('google_fit', 'blood_pressure_systolic', value, start));
+      pushSample(samples, createSample('google_fit', 'blood_pressure_diastolic', fitNumber(point.fitValue[1]), start));
+    } else if (GOOGLE_FIT_METRICS[point.dataTypeName]) {
+      pushSample(samples, createSample('google_fit', GOOGLE_FIT_METRICS[point.dataTypeName], value, start, end));
+    }
+  }
+
+  return finalizeSamples(samples);
+}
+
+// Health Connect energy, mass and pressure fields may be plain numbers or unit objects
+type HealthConnectUnitValue = number | Record<string, unknown>;
+
+interface HealthConnectSleepStage {
+  startTime?: string;
+  endTime?: string;
+  stage?: number;
+}
+
+// The fields read from each record type; exports carry others, which are ignored
+interface HealthConnectRecord {
+  recordType?: string;
+  type?: string;
+  time?: string;
+  startTime?: string;
+  endTime?: string;
+  samples?: { beatsPerMinute?: number; time?: string }[];
+  beatsPerMinute?: number;
+  heartRateVariabilityMillis?: number;
+  count?: number;
+  energy?: HealthConnectUnitValue;
+  percentage?: HealthConnectUnitValue;
+  rate?: number;
+  baseline?: HealthConnectUnitValue;
+  systolic?: HealthConnectUnitValue;
+  diastolic?: HealthConnectUnitValue;
+  stages?: HealthConnectSleepStage[];
+}
+
+function unitValue(value: HealthConnectUnitValue | undefined, ...keys: string[]): number {
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object') {
+    for (const key of [...keys, 'value']) {
+      const amount = value[key];
+      if (typeof amount === 'number') return amount;
+    }
+  }
+  return NaN;
+}
+
+export function parseHealthConnectJson(records: HealthConnectRecord[]): WearableSample[] {
+  const samples: WearableSample[] = [];
+  const add = (metric: WearableMetric, value: number | undefined, start?: string, end?: string) =>
+    pushSample(samples, createSample('health_connect', metric, value ?? NaN, new Date(start ?? ''), end ? new Date(end) : undefined));
+
+  for (const record of records) {
+    const type = (record.recordType ?? record.type ?? '').replace(/Record$/, '');
+    const time = record.time ?? record.startTime;
+
+    switch (type) {
+      case 'HeartRate':
+        for (const sample of record.samples ?? []) add('heart_rate', sample.beatsPerMinute, sample.time);
+        break;
+      case 'RestingHeartRate':
+        add('resting_heart_rate', record.beatsPerMinute, time);
+        break;
+      case 'HeartRateVariabilityRmssd':
+        add('hrv', record.heartRateVariabilityMillis, time);
+        break;
+      case 'Steps':
+        add('steps', record.count, record.startTime, record.endTime);
+        break;
+      case 'ActiveCaloriesBurned':
+        add('active_energy', unitValue(record.energy, 'inKilocalories', 'kilocalories'), record.startTime, record.endTime);
+        break;
+      case 'ExerciseSession':
+        add('active_minutes', (Date.parse(record.endTime ?? '') - Date.parse(record.startTime ?? '')) / MINUTE_MS, record.startTime, record.endTime);
+        break;
+      case 'OxygenSaturation':
+        add('spo2', unitValue(record.percentage, 'value'), time);
+        break;
+      case 'RespiratoryRate':
+        add('respiratory_rate', record.rate, time);
+        break;
+      case 'SkinTemperature':
+        add('skin_temperature', unitValue(record.baseline, 'inCelsius'), record.startTime, record.endTime);
+        break;
+      case 'BloodPressure':
+        add('blood_pressure_systolic', unitValue(record.systolic, 'inMillimetersOfMercury'), time);
+        add('blood_pressure_diastolic', unitValue(record.diastolic, 'inMillimetersOfMercury'), time);
+        break;
+      case 'SleepSession': {
+        const stages: HealthConnectSleepStage[] = record.stages?.length
+          ? record.stages
+          : [{ startTime: record.startTime, endTime: record.endTime, stage: 2 }];
+        for (const stage of stages) {
+          const metric = stage.stage === undefined ? undefined : SLEEP_STAGE_CODES[stage.stage];
+          const hours = (Date.parse(stage.endTime ?? '') - Date.parse(stage.startTime ?? '')) / HOUR_MS;
+          if (metric) add(metric, hours, stage.startTime, stage.endTime);
+        }
+        break;
+      }
+    }
+  }
+
+  return finalizeSamples(samples);
+}
+
+// ---------------------------------------------------------------------------
+// Fitbit
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseFitbitNumber(value?: string): number {
+  return value ? Number(value.replace(/,/g, '')) : NaN;
+}
+
+// Fitbit writes dates in the account's locale: 2024-03-01, 01/03/2024 (M/D/Y) or 01-03-2024 (D-M-Y),
+// with an optional "11:23PM" time for sleep logs
+function parseFitbitDate(value?: string): Date {
+  const match = value && /^(\d{1,4})[-/](\d{1,2})[-/](\d{1,4})(?:\s+(\d{1,2}):(\d{2})\s*([AP]M)?)?/i.exec(value.trim());
+  if (!match) return new Date(NaN);
+  const [, a, b, c, hourText, minute, meridiem] = match;
+  let [year, month, day] = [Number(a), Number(b), Number(c)];
+  if (a.length !== 4) {
+    year = Number(c);
+    [month, day] = value!.includes('/') ? [Number(a), Number(b)] : [Number(b), Number(a)];
+  }
+  let hour = Number(hourText ?? 0);
+  if (meridiem) hour = (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+  return new Date(year, month - 1, day, hour, Number(minute ?? 0));
+}
+
+export function parseFitbitCsv(text: string): WearableSample[] {
+  const samples: WearableSample[] = [];
+  let header: string[] | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const cells = parseCsvLine(line);
+    if (cells.every(cell => !cell)) {
+      header = null;
+      continue;
+    }
+    if (cells[0] === 'Date' || cells[0] === 'Start Time') {
+      header = cells;
+      continue;
+    }
+    if (!header) continue; // section titles such as "Activities" or "Sleep"
+
+    const row = Object.fromEntries(header.map((name, index) => [name, cells[index]]));
+    const add = (metric: WearableMetric, value: number, start: Date, end?: Date) =>
+      pushSample(samples, createSample('fitbit', metric, value, start, end));
+
+    if (header[0] === 'Date') {
+      const day = parseFitbitDate(row['Date']);
+      const dayEnd = new Date(day.getTime() + DAY_MS);
+      add('steps', parseFitbitNumber(row['Steps']), day, dayEnd);
+      add('active_energy', parseFitbitNumber(row['Activity Calories']), day, dayEnd);
+      add('active_minutes', parseFitbitNumber(row['Minutes Fairly Active']) + parseFitbitNumber(row['Minutes Very Active']), day, dayEnd);
+      add('resting_heart_rate', parseFitbitNumber(row['Resting Heart Rate']), day);
+    } else {
+      const start = parseFitbitDate(row['Start Time']);
+      const end = parseFitbitDate(row['End Time']);
+      const hours = (column: string) => parseFitbitNumber(row[column]) / 60;
+      const stages: [WearableMetric, string][] = [
+        ['sleep_light', 'Minutes Light Sleep'],
+        ['sleep_deep', 'Minutes Deep Sleep'],
+        ['sleep_rem', 'Minutes REM Sleep'],
+      ];
+      // Logs without stage data ("classic" sleep) leave the stage columns empty or zero
+      if (stages.some(([, column]) => hours(column) > 0)) {
+        stages.forEach(([metric, column]) => add(metric, hours(column), start, end));
+      } else {
+        add('sleep_asleep', hours('Minutes Asleep'), start, end);
+      }
+      add('sleep_awake', hours('Minutes Awake'), start, end);
+      add('sleep_in_bed', hours('Time in Bed'), start, end);
+    }
+  }
+
+  return finalizeSamples(samples);
+}
+
+// ---------------------------------------------------------------------------
+// Garmin FIT
+
+const FIT_SLEEP_LEVELS: Record<number, WearableMetric> = {
+  1: 'sleep_awake',
+  2: 'sleep_light',
+  3: 'sleep_deep',
+  4: 'sleep_rem',
+};
+
+// Root mean square of successive differences between beat-to-beat intervals
+function rmssd(intervalsMs: number[]): number {
+  if (intervalsMs.length < 2) return NaN;
+  let total = 0;
+  for (let i = 1; i < intervalsMs.length; i++) {
+    total += (intervalsMs[i] - intervalsMs[i - 1]) ** 2;
+  }
+  return Math.sqrt(total / (intervalsMs.length - 1));
+}
+
+function numberField(message: FitMessage, field: number): number | undefined {
+  const value = message.fields[field];
+  return typeof value === 'number' ? value : undefined;
+}
+
+export function parseGarminFit(buffer: ArrayBuffer): WearableSample[] {
+  const samples: WearableSample[] = [];
+  const add = (metric: WearableMetric, value: number | undefined, start: Date, end?: Date) =>
+    value !== undefined && pushSample(samples, createSample('garmin', metric, value, start, end));
+
+  const beatIntervals: number[] = [];
+  let firstTimestamp: number | undefined;
+  let lastTimestamp = 0;
+  let sleepStage: { level: number; start: number } | null = null;
+
+  for (const message of decodeFit(buffer)) {
+    const timestamp = numberField(message, FIT_TIMESTAMP_FIELD);
+    if (timestamp !== undefined) {
+      lastTimestamp = timestamp;
+      firstTimestamp ??= timestamp;
+    }
+    const at = fitTimeToDate(lastTimestamp);
+
+    switch (message.globalNumber) {
+      case FIT_MESSAGE.record:
+        add('heart_rate', numberField(message, 3), at);
+        break;
+      case FIT_MESSAGE.monitoring: {
+        // Monitoring files carry most heart rates with a 16-bit timestamp relative to the last full one
+        const timestamp16 = numberField(message, 26);
+        const time = timestamp16 === undefined
+          ? lastTimestamp
+          : lastTimestamp + ((timestamp16 - (lastTimestamp & 0xffff)) & 0xffff);
+        add('heart_rate', numberField(message, 27), fitTimeToDate(time));
+        break;
+      }
+      case FIT_MESSAGE.hrv: {
+        const times = message.fields[0];
+        // Beat-to-beat times are seconds with a scale of 1000, so the raw values are milliseconds
+        if (Array.isArray(times)) beatIntervals.push(...times);
+        else if (typeof times === 'number') beatIntervals.push(times);
+        break;
+      }
+      case FIT_MESSAGE.monitoringHrData:
+        add('resting_heart_rate', numberField(message, 1) ?? numberField(message, 0), at);
+        break;
+      case FIT_MESSAGE.stressLevel: {
+        const level = numberField(message, 0);
+        const time = numberField(message, 1);
+        // Negative levels mark periods the watch could not measure
+        if (level !== undefined && level >= 0 && time !== undefined) add('stress', level, fitTimeToDate(time));
+        break;
+      }
+      case FIT_MESSAGE.spo2Data:
+        add('spo2', numberField(message, 0), at);
+        break;
+      case FIT_MESSAGE.respirationRate: {
+        const rate = numberField(message, 0);
+        if (rate !== undefined && rate > 0) add('respiratory_rate', rate / 100, at);
+        break;
+      }
+      case FIT_MESSAGE.sleepLevel: {
+        // Each sleep level lasts until the next one; consecutive equal levels are merged
+        const level = numberField(message, 0);
+        if (sleepStage && sleepStage.level !== level) {
+          const metric = FIT_SLEEP_LEVELS[sleepStage.level];
+          const start = fitTimeToDate(sleepStage.start);
+          if (metric) add(metric, hoursBetween(start, at), start, at);
+          sleepStage = null;
+        }
+        if (level !== undefined && !sleepStage) sleepStage = { level, start: lastTimestamp };
+        break;
+      }
+    }
+  }
+
+  if (beatIntervals.length && firstTimestamp !== undefined) {
+    add('hrv', Math.round(rmssd(beatIntervals)), fitTimeToDate(firstTimestamp));
+  }
+
+  return finalizeSamples(samples);
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+
+async function* readTextChunks(file: File): AsyncGenerator<string> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield decoder.decode(value, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+function parseJsonExport(text: string): { format: WearableExportFormat; samples: WearableSample[] } {
+  const data = JSON.parse(text);
+  if (Array.isArray(data?.['Data Points'])) {
+    return { format: 'google_fit', samples: parseGoogleFitJson(data) };
+  }
+  const records = Array.isArray(data) ? data : data?.records;
+  if (Array.isArray(records) && records.some(record => record?.recordType || record?.type)) {
+    return { format: 'health_connect', samples: parseHealthConnectJson(records) };
+  }
+  throw new Error('Unrecognised JSON export: expected a Google Fit Takeout file or Health Connect records');
+}
+
+/**
+ * Detects a file's export format from its name and contents and parses it.
+ * Throws with a user-facing message when the file is not a supported export.
+ */
+export async function importWearableFile(file: File): Promise<WearableImportResult> {
+  const extension = file.name.toLowerCase().split('.').pop();
+  const result = (format: WearableExportFormat, samples: WearableSample[]): WearableImportResult => ({
+    fileName: file.name,
+    format,
+    samples,
+  });
+
+  switch (extension) {
+    case 'xml': {
+      const head = await file.slice(0, 4096).text();
+      if (!head.includes('<HealthData')) throw new Error(`${file.name} is not an Apple Health export.xml`);
+      return result('apple_health', await parseAppleHealthExport(readTextChunks(file)));
+    }
+    case 'json': {
+      const { format, samples } = parseJsonExport(await file.text());
+      return result(format, samples);
+    }
+    case 'csv':
+      return result('fitbit', parseFitbitCsv(await file.text()));
+    case 'fit':
+      return result('garmin', parseGarminFit(await file.arrayBuffer()));
+    default:
+      throw new Error(`${file.name} is not a supported export (${WEARABLE_IMPORT_ACCEPT})`);
+  }
+}
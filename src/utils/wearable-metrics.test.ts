@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { computeWearableMetrics, hrvStress, wearableAlerts } from './wearable-metrics';
+
+const alertOfType = (alerts: ReturnType<typeof wearableAlerts>, type: string) =>
+  alerts.find(alert => alert.type === type);
+
+describe('hrvStress', () => {
+  it('maps HRV onto a log scale between 20 and 100 ms', () => {
+    expect(hrvStress(100)).toBe(0);
+    expect(hrvStress(20)).toBe(100);
+    expect(hrvStress(45)).toBeCloseTo(49.6, 1);
+  });
+
+  it('clamps readings outside the range', () => {
+    expect(hrvStress(250)).toBe(0);
+    expect(hrvStress(10)).toBe(100);
+    expect(hrvStress(0)).toBe(100);
+  });
+
+  it('is used in preference to the device stress level', () => {
+    const metrics = computeWearableMetrics({ heartRate: { variability: 100 }, stress: { level: 90 } });
+    expect(metrics.stress).toEqual({ score: 0, basis: 'hrv' });
+    expect(computeWearableMetrics({ stress: { level: 90 } }).stress).toEqual({ score: 90, basis: 'device' });
+  });
+});
+
+describe('sleep scoring', () => {
+  it('combines duration, efficiency and restorative share', () => {
+    const { sleep } = computeWearableMetrics({ sleep: { duration: 6, efficiency: 90, deepSleep: 1, remSleep: 1.4 } });
+    expect(sleep).toEqual({ hours: 6, efficiency: 90, debtHours: 2, restorativeShare: 0.4, score: 84.5 });
+  });
+
+  it('has no debt once the sleep need is met and clamps efficiency', () => {
+    const { sleep } = computeWearableMetrics({ sleep: { duration: 9, efficiency: 120 } });
+    expect(sleep?.debtHours).toBe(0);
+    expect(sleep?.efficiency).toBe(100);
+    expect(sleep?.score).toBe(100);
+  });
+
+  it('scores on duration alone when that is all that is reported', () => {
+    const { sleep } = computeWearableMetrics({ sleep: { duration: 4 } });
+    expect(sleep).toEqual({ hours: 4, efficiency: null, debtHours: 4, restorativeShare: null, score: 50 });
+  });
+
+  it('is null without a positive duration', () => {
+    expect(computeWearableMetrics({ sleep: { duration: 0, efficiency: 90 } }).sleep).toBeNull();
+    expect(computeWearableMetrics({}).sleep).toBeNull();
+  });
+});
+
+describe('activity scoring', () => {
+  it('averages the step and active-minute goals', () => {
+    expect(computeWearableMetrics({ activity: { steps: 5000, activeMinutes: 15 } }).activity)
+      .toEqual({ load: 50, level: 'moderate' });
+  });
+
+  it('caps each goal at 100', () => {
+    expect(computeWearableMetrics({ activity: { steps: 25000, activeMinutes: 120 } }).activity)
+      .toEqual({ load: 100, level: 'high' });
+  });
+
+  it('uses whichever component is reported', () => {
+    expect(computeWearableMetrics({ activity: { steps: 2000 } }).activity).toEqual({ load: 20, level: 'sedentary' });
+    expect(computeWearableMetrics({ activity: { activeMinutes: 12 } }).activity).toEqual({ load: 40, level: 'light' });
+    expect(computeWearableMetrics({ activity: {} }).activity).toBeNull();
+  });
+});
+
+describe('recovery readiness', () => {
+  const readings = {
+    heartRate: { variability: 45, resting: 60 },
+    sleep: { duration: 6, efficiency: 90, deepSleep: 1, remSleep: 1.4 },
+  };
+
+  it('penalises resting heart rate above the personal baseline', () => {
+    // 0.4 × 50.4 + 0.4 × 84.5 + 0.2 × (100 − 2 × 10)
+    expect(computeWearableMetrics(readings, { restingHeartRate: 58 }).recovery).toEqual({ readiness: 70, status: 'good' });
+  });
+
+  it('falls back to the absolute resting heart rate score without a baseline', () => {
+    // 0.4 × 50.4 + 0.4 × 84.5 + 0.2 × 87.5
+    expect(computeWearableMetrics(readings).recovery).toEqual({ readiness: 71.5, status: 'good' });
+  });
+
+  it('reweights over the components that are present', () => {
+    expect(computeWearableMetrics({ sleep: { duration: 4 } }).recovery).toEqual({ readiness: 50, status: 'fair' });
+    expect(computeWearableMetrics({ activity: { steps: 8000 } }).recovery).toBeNull();
+  });
+});
+
+describe('wearableAlerts', () => {
+  it.each([
+    [93, undefined],
+    [92, undefined],
+    [91.9, 'high'],
+    [88, 'high'],
+    [87.9, 'critical'],
+    [80, 'critical'],
+  ])('raises blood oxygen %d%% as %s', (bloodOxygen, severity) => {
+    const alert = alertOfType(wearableAlerts({ biometrics: { bloodOxygen } }), 'low_blood_oxygen');
+    expect(alert?.severity).toBe(severity);
+  });
+
+  it.each([
+    [66, undefined],
+    [67, 'medium'],
+    [71, 'medium'],
+    [72, 'high'],
+    [85, 'high'],
+  ])('raises resting heart rate %d bpm against a 60 bpm baseline as %s', (resting, severity) => {
+    const alert = alertOfType(wearableAlerts({ heartRate: { resting } }, { restingHeartRate: 60 }), 'elevated_resting_heart_rate');
+    expect(alert?.severity).toBe(severity);
+  });
+
+  it('uses the 100 bpm limit only without a baseline', () => {
+    expect(alertOfType(wearableAlerts({ heartRate: { resting: 101 } }), 'elevated_resting_heart_rate')?.severity).toBe('high');
+    expect(alertOfType(wearableAlerts({ heartRate: { resting: 95 } }), 'elevated_resting_heart_rate')).toBeUndefined();
+    expect(alertOfType(wearableAlerts({ heartRate: { resting: 101 } }, { restingHeartRate: 98 }), 'elevated_resting_heart_rate'))
+      .toBeUndefined();
+  });
+
+  it('orders alerts from most to least severe', () => {
+    const alerts = wearableAlerts({ biometrics: { bloodOxygen: 85 }, sleep: { duration: 4 } }, {}, 90);
+    expect(alerts.map(alert => alert.severity)).toEqual(['critical', 'medium', 'medium']);
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * @fileOverview Deterministic scoring of wearable readings
+ * Computes the health scores the dashboard and the therapeutic flows use from a
+ * WearablesDataInput, so the numbers are reproducible and the model is only asked
+ * to interpret them. A score is null when its inputs are missing; composites are
+ * weighted means over the components that are present. All scores are 0-100.
+ *
+ * HRV stress (when HRV is reported, else the device's own stress level)
+ *   stress = 100 × (ln 100 − ln HRV) / (ln 100 − ln 20), clamped
+ *   i.e. HRV ≥ 100 ms → 0, 45 ms → 50, ≤ 20 ms → 100 (log scale, as HRV is log-normal)
+ *
+ * Sleep
+ *   efficiency = reported efficiency (time asleep / time in bed)
+ *   debt       = max(0, 8 h − duration)
+ *   score      = 0.5 × 100·min(duration / 8 h, 1)
+ *              + 0.3 × efficiency
+ *              + 0.2 × 100·min((deep + REM) / duration / 0.4, 1)   (~40% restorative sleep is typical)
+ *
+ * Activity load
+ *   load = mean(100·min(steps / 10 000, 1), 100·min(active minutes / 30, 1))
+ *   level: < 25 sedentary, < 50 light, < 80 moderate, else high
+ *
+ * Cardiovascular
+ *   mean of: resting HR (100 at ≤ 55 bpm, falling linearly to 0 at 95 bpm),
+ *            100 − HRV stress, and a blood-pressure band (100 / 75 / 50 / 25 / 0 for
+ *            normal, elevated, stage 1, stage 2, crisis)
+ *
+ * Recovery readiness
+ *   readiness = 0.4 × (100 − HRV stress) + 0.4 × sleep score + 0.2 × resting HR component,
+ *   where the resting HR component loses 10 points per bpm above the personal baseline
+ *   when one is known, and is the cardiovascular resting HR score otherwise
+ *   status: ≥ 80 excellent, ≥ 65 good, ≥ 50 fair, else poor
+ *
+ * Wellness
+ *   0.25 × (100 − stress) + 0.25 × sleep + 0.2 × activity + 0.15 × cardiovascular + 0.15 × readiness
+ */
+
+import type { WearablesAnalysisOutput, WearablesDataInput } from '@/ai/flows/wearables-analysis';
+
+export type WellnessStatus = 'excellent' | 'good' | 'fair' | 'poor';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'high';
+export type WearableAlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface WearableAlert {
+  type: string;
+  severity: WearableAlertSeverity;
+  message: string;
+  action: string;
+}
+
+// Personal reference values, when enough history exists to know them
+export interface WearableBaseline {
+  restingHeartRate?: number;
+}
+
+export interface WearableMetrics {
+  stress: { score: number; basis: 'hrv' | 'device' } | null;
+  sleep: {
+    hours: number;
+    efficiency: number | null;
+    debtHours: number;
+    restorativeShare: number | null; // (deep + REM) / total
+    score: number;
+  } | null;
+  activity: { load: number; level: ActivityLevel } | null;
+  cardiovascular: { score: number } | null;
+  recovery: { readiness: number; status: WellnessStatus } | null;
+  wellnessScore: number | null;
+  alerts: WearableAlert[];
+}
+
+// Readings may come from the full wearables input or a subset of it (e.g. the chat flows)
+export type WearableReadings = Partial<Omit<WearablesDataInput, 'timestamp' | 'deviceType'>>;
+
+export const SLEEP_NEED_HOURS = 8;
+export const DAILY_STEP_GOAL = 10000;
+export const DAILY_ACTIVE_MINUTES_GOAL = 30; // WHO's 150 minutes a week, spread over five days
+const RESTORATIVE_SLEEP_SHARE = 0.4;
+const HRV_LOW_MS = 20;
+const HRV_HIGH_MS = 100;
+
+const SEVERITY_ORDER: WearableAlertSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+function clamp(value: number, min = 0, max = 100): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Weighted mean of the components that are present, or null when none are.
+ */
+function weightedMean(components: [number | null | undefined, number][]): number | null {
+  const present = components.filter((component): component is [number, number] => typeof component[0] === 'number');
+  const totalWeight = present.reduce((total, [, weight]) => total + weight, 0);
+  if (totalWeight === 0) return null;
+  return round(present.reduce((total, [value, weight]) => total + value * weight, 0) / totalWeight);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function hrvStress(hrvMs: number): number {
+  return round(clamp((100 * (Math.log(HRV_HIGH_MS) - Math.log(Math.max(hrvMs, 1)))) / (Math.log(HRV_HIGH_MS) - Math.log(HRV_LOW_MS))));
+}
+
+function restingHeartRateScore(resting: number): number {
+  return round(clamp(((95 - resting) / (95 - 55)) * 100));
+}
+
+function bloodPressureScore({ systolic, diastolic }: { systolic: number; diastolic: number }): number {
+  if (systolic >= 180 || diastolic >= 120) return 0;
+  if (systolic >= 140 || diastolic >= 90) return 25;
+  if (systolic >= 130 || diastolic >= 80) return 50;
+  if (systolic >= 120) return 75;
+  return 100;
+}
+
+export function statusForScore(score: number): WellnessStatus {
+  if (score >= 80) return 'excellent';
+  if (score >= 65) return 'good';
+  if (score >= 50) return 'fair';
+  return 'poor';
+}
+
+function activityLevel(load: number): ActivityLevel {
+  if (load < 25) return 'sedentary';
+  if (load < 50) return 'light';
+  if (load < 80) return 'moderate';
+  return 'high';
+}
+
+function computeSleep(sleep: WearableReadings['sleep']): WearableMetrics['sleep'] {
+  if (!sleep || !isNumber(sleep.duration) || sleep.duration <= 0) return null;
+  const hours = sleep.duration;
+  const efficiency = isNumber(sleep.efficiency) ? clamp(sleep.efficiency) : null;
+  const restorative = (sleep.deepSleep ?? 0) + (sleep.remSleep ?? 0);
+  const restorativeShare = isNumber(sleep.deepSleep) || isNumber(sleep.remSleep) ? restorative / hours : null;
+
+  return {
+    hours: round(hours),
+    efficiency,
+    debtHours: round(Math.max(0, SLEEP_NEED_HOURS - hours)),
+    restorativeShare: restorativeShare === null ? null : Math.round(restorativeShare * 100) / 100,
+    score: weightedMean([
+      [100 * Math.min(hours / SLEEP_NEED_HOURS, 1), 0.5],
+      [efficiency, 0.3],
+      [restorativeShare === null ? null : 100 * Math.min(restorativeShare / RESTORATIVE_SLEEP_SHARE, 1), 0.2],
+    ])!,
+  };
+}
+
+function computeActivity(activity: WearableReadings['activity']): WearableMetrics['activity'] {
+  const load = weightedMean([
+    [isNumber(activity?.steps) ? 100 * Math.min(activity!.steps! / DAILY_STEP_GOAL, 1) : null, 1],
+    [isNumber(activity?.activeMinutes) ? 100 * Math.min(activity!.activeMinutes! / DAILY_ACTIVE_MINUTES_GOAL, 1) : null, 1],
+  ]);
+  return load === null ? null : { load, level: activityLevel(load) };
+}
+
+/**
+ * Threshold alerts on single readings. Resting heart rate is compared with the
+ * personal baseline when known, and with absolute limits otherwise.
+ */
+export function wearableAlerts(readings: WearableReadings, baseline: WearableBaseline = {}, stressScore?: number): WearableAlert[] {
+  const alerts: WearableAlert[] = [];
+  const { biometrics, heartRate, sleep } = readings;
+
+  const spo2 = biometrics?.bloodOxygen;
+  if (isNumber(spo2) && spo2 < 92) {
+    alerts.push({
+      type: 'low_blood_oxygen',
+      severity: spo2 < 88 ? 'critical' : 'high',
+      message: `Blood oxygen is ${round(spo2)}%, below the 92% threshold`,
+      action: spo2 < 88
+        ? 'Seek medical attention now, especially with breathlessness or chest pain'
+        : 'Re-measure at rest; contact a doctor if it stays below 92%',
+    });
+  }
+
+  const resting = heartRate?.resting;
+  if (isNumber(resting)) {
+    const deviation = isNumber(baseline.restingHeartRate) ? resting - baseline.restingHeartRate : null;
+    if (deviation !== null && deviation >= 7) {
+      alerts.push({
+        type: 'elevated_resting_heart_rate',
+        severity: deviation >= 12 ? 'high' : 'medium',
+        message: `Resting heart rate is ${round(deviation)} bpm above your usual ${round(baseline.restingHeartRate!)} bpm`,
+        action: 'Prioritise rest and hydration; a sustained rise can signal illness, overtraining or stress',
+      });
+    } else if (deviation === null && resting > 100) {
+      alerts.push({
+        type: 'elevated_resting_heart_rate',
+        severity: 'high',
+        message: `Resting heart rate is ${round(resting)} bpm, above 100 bpm`,
+        action: 'Check in with a doctor if your resting heart rate stays above 100 bpm',
+      });
+    } else if (resting < 40) {
+      alerts.push({
+        type: 'low_resting_heart_rate',
+        severity: 'medium',
+        message: `Resting heart rate is ${round(resting)} bpm, below 40 bpm`,
+        action: 'If you feel dizzy or faint, contact a doctor',
+      });
+    }
+  }
+
+  const pressure = biometrics?.bloodPressure;
+  if (pressure && bloodPressureScore(pressure) <= 25) {
+    const crisis = bloodPressureScore(pressure) === 0;
+    alerts.push({
+      type: 'high_blood_pressure',
+      severity: crisis ? 'critical' : 'medium',
+      message: `Blood pressure is ${pressure.systolic}/${pressure.diastolic} mmHg`,
+      action: crisis
+        ? 'Re-measure after five minutes of rest; seek urgent care if it stays this high'
+        : 'Track your readings and discuss them with a doctor',
+    });
+  }
+
+  const respiratoryRate = biometrics?.respiratoryRate;
+  if (isNumber(respiratoryRate) && (respiratoryRate > 20 || respiratoryRate < 10)) {
+    alerts.push({
+      type: 'abnormal_respiratory_rate',
+      severity: respiratoryRate > 24 || respiratoryRate < 8 ? 'high' : 'medium',
+      message: `Respiratory rate is ${round(respiratoryRate)} breaths per minute`,
+      action: 'Re-measure at rest; contact a doctor if it stays outside 10-20',
+    });
+  }
+
+  if (isNumber(sleep?.duration) && sleep!.duration! < 5) {
+    alerts.push({
+      type: 'short_sleep',
+      severity: 'medium',
+      message: `Only ${round(sleep!.duration!)} hours of sleep`,
+      action: 'Plan an earlier night and keep demands light today',
+    });
+  }
+
+  if (isNumber(stressScore) && stressScore >= 80) {
+    alerts.push({
+      type: 'high_stress',
+      severity: 'medium',
+      message: `Physiological stress is high (${stressScore}/100)`,
+      action: 'Try a few minutes of slow breathing and take a break if you can',
+    });
+  }
+
+  return alerts.sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+}
+
+/**
+ * Scores a set of wearable readings. Pure and synchronous, so it runs in the
+ * browser as well as in the flows.
+ */
+export function computeWearableMetrics(readings: WearableReadings, baseline: WearableBaseline = {}): WearableMetrics {
+  const hrv = readings.heartRate?.variability;
+  const deviceStress = readings.stress?.level;
+  const stress: WearableMetrics['stress'] = isNumber(hrv) && hrv > 0
+    ? { score: hrvStress(hrv), basis: 'hrv' }
+    : isNumber(deviceStress) ? { score: round(clamp(deviceStress)), basis: 'device' } : null;
+  const hrvComponent = stress?.basis === 'hrv' ? 100 - stress.score : null;
+
+  const resting = readings.heartRate?.resting;
+  const restingScore = isNumber(resting) ? restingHeartRateScore(resting) : null;
+  const pressure = readings.biometrics?.bloodPressure;
+  const cardiovascularScore = weightedMean([
+    [restingScore, 1],
+    [hrvComponent, 1],
+    [pressure ? bloodPressureScore(pressure) : null, 1],
+  ]);
+
+  const sleep = computeSleep(readings.sleep);
+  const activity = computeActivity(readings.activity);
+
+  const restingComponent = isNumber(resting) && isNumber(baseline.restingHeartRate)
+    ? clamp(100 - Math.max(0, resting - baseline.restingHeartRate) * 10)
+    : restingScore;
+  const readiness = weightedMean([
+    [hrvComponent, 0.4],
+    [sleep?.score, 0.4],
+    [restingComponent, 0.2],
+  ]);
+
+  return {
+    stress,
+    sleep,
+    activity,
+    cardiovascular: cardiovascularScore === null ? null : { score: cardiovascularScore },
+    recovery: readiness === null ? null : { readiness, status: statusForScore(readiness) },
+    wellnessScore: weightedMean([
+      [stress ? 100 - stress.score : null, 0.25],
+      [sleep?.score, 0.25],
+      [activity?.load, 0.2],
+      [cardiovascularScore, 0.15],
+      [readiness, 0.15],
+    ]),
+    alerts: wearableAlerts(readings, baseline, stress?.score),
+  };
+}
+
+// Interpretation of the scores: written by the wearables prompt, or locally when it is unavailable
+export interface WearablesNarrative {
+  primaryConcerns: string[];
+  emotionalState: string;
+  stressFactors: string[];
+  moodIndicators: Record<string, number>;
+  recommendations: {
+    immediate: string[];
+    shortTerm: string[];
+    longTerm: string[];
+  };
+}
+
+/**
+ * Plain-text summary of the computed scores, for prompts.
+ */
+export function describeWearableMetrics(metrics: WearableMetrics): string {
+  const lines: string[] = [];
+  if (metrics.wellnessScore !== null) lines.push(`Wellness score: ${metrics.wellnessScore}/100`);
+  if (metrics.stress) lines.push(`Stress: ${metrics.stress.score}/100 (from ${metrics.stress.basis === 'hrv' ? 'HRV' : 'device stress level'})`);
+  if (metrics.sleep) {
+    const { hours, efficiency, debtHours, score } = metrics.sleep;
+    lines.push(`Sleep: ${hours} h, score ${score}/100${efficiency !== null ? `, efficiency ${efficiency}%` : ''}, debt ${debtHours} h`);
+  }
+  if (metrics.activity) lines.push(`Activity load: ${metrics.activity.load}/100 (${metrics.activity.level})`);
+  if (metrics.cardiovascular) lines.push(`Cardiovascular: ${metrics.cardiovascular.score}/100`);
+  if (metrics.recovery) lines.push(`Recovery readiness: ${metrics.recovery.readiness}/100 (${metrics.recovery.status})`);
+  metrics.alerts.forEach(alert => lines.push(`Alert (${alert.severity}): ${alert.message}`));
+  return lines.length ? lines.join('\n') : 'No scorable readings';
+}
+
+/**
+ * Rule-based narrative from the scores, used when the model is unavailable.
+ */
+export function localWearablesNarrative(metrics: WearableMetrics): WearablesNarrative {
+  const concerns = metrics.alerts.map(alert => alert.message);
+  const stressFactors: string[] = [];
+  const immediate: string[] = [];
+  const shortTerm: string[] = [];
+  const longTerm: string[] = [];
+
+  if (metrics.sleep && metrics.sleep.debtHours >= 1) {
+    stressFactors.push(`Sleep debt of ${metrics.sleep.debtHours} hours`);
+    shortTerm.push('Aim for an earlier, consistent bedtime for the next few nights');
+  }
+  if (metrics.stress && metrics.stress.score >= 60) {
+    stressFactors.push('Elevated physiological stress');
+    immediate.push('Take five minutes for slow breathing (in for 4, out for 6)');
+  }
+  if (metrics.activity && metrics.activity.level === 'sedentary') {
+    stressFactors.push('Low movement today');
+    immediate.push('Take a short walk or stretch break');
+  }
+  if (metrics.recovery && metrics.recovery.status === 'poor') {
+    shortTerm.push('Keep exercise light until your readiness recovers');
+  }
+  immediate.push(...metrics.alerts.filter(alert => alert.severity === 'high' || alert.severity === 'critical').map(alert => alert.action));
+  if (immediate.length === 0) immediate.push('Keep up what is working and stay hydrated');
+  longTerm.push('Build a consistent routine of sleep, movement and recovery');
+
+  const stress = metrics.stress?.score ?? 50;
+  const readiness = metrics.recovery?.readiness ?? 50;
+  return {
+    primaryConcerns: concerns,
+    emotionalState: stress >= 70 ? 'tense' : readiness < 50 ? 'fatigued' : 'settled',
+    stressFactors,
+    moodIndicators: {
+      calm: Math.round(100 - stress) / 100,
+      energetic: Math.round(readiness) / 100,
+    },
+    recommendations: { immediate, shortTerm, longTerm },
+  };
+}
+
+// Scores that are unknown are reported at the neutral midpoint
+const UNKNOWN_SCORE = 50;
+
+function stressTrend(trend?: number[]): 'improving' | 'stable' | 'declining' {
+  if (!trend || trend.length < 3) return 'stable';
+  const third = Math.max(1, Math.floor(trend.length / 3));
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const change = mean(trend.slice(-third)) - mean(trend.slice(0, third));
+  if (change > 10) return 'declining';
+  if (change < -10) return 'improving';
+  return 'stable';
+}
+
+/**
+ * Combines computed scores and a narrative into the wearables analysis output.
+ */
+export function assembleWearablesAnalysis(
+  readings: WearableReadings,
+  metrics: WearableMetrics,
+  narrative: WearablesNarrative
+): WearablesAnalysisOutput {
+  const stress = metrics.stress?.score ?? UNKNOWN_SCORE;
+  const readiness = metrics.recovery?.readiness ?? UNKNOWN_SCORE;
+
+  return {
+    overallWellness: {
+      score: metrics.wellnessScore ?? UNKNOWN_SCORE,
+      trend: stressTrend(readings.stress?.trend),
+      primaryConcerns: narrative.primaryConcerns,
+    },
+    physicalHealth: {
+      cardiovascularHealth: metrics.cardiovascular?.score ?? UNKNOWN_SCORE,
+      sleepQuality: metrics.sleep?.score ?? UNKNOWN_SCORE,
+      activityLevel: metrics.activity?.load ?? UNKNOWN_SCORE,
+      recoveryStatus: metrics.recovery?.status ?? 'fair',
+    },
+    mentalHealth: {
+      stressLevel: stress,
+      fatigueLevel: round(100 - readiness),
+      moodIndicators: narrative.moodIndicators,
+      cognitiveLoad: stress,
+    },
+    recommendations: narrative.recommendations,
+    therapeuticInsights: {
+      emotionalState: narrative.emotionalState,
+      stressFactors: narrative.stressFactors,
+      copingCapacity: readiness,
+      interventionNeeded: metrics.alerts.some(alert => alert.severity === 'critical'),
+    },
+    alerts: metrics.alerts,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileOverview Local storage for imported wearable data
+ * Samples from every import are kept in IndexedDB as one time series, keyed so
+ * that importing the same export twice overwrites rather than duplicates.
+ */
+
+import {
+  WEARABLE_STORE,
+  clearRecords,
+  getAllRecords,
+  getLastRecordByIndex,
+  getRecordsInRange,
+  putRecords,
+} from '@/utils/analysis-cache';
+import { buildWearablesSnapshot, type WearableMetric, type WearableSample } from '@/utils/wearable-timeseries';
+import type { WearablesDataInput } from '@/ai/flows/wearables-analysis';
+
+export interface WearableSampleQuery {
+  metric?: WearableMetric;
+  from?: Date;
+  to?: Date;
+}
+
+type WearableDataListener = () => void;
+
+// The dashboard subscribes so an import made anywhere refreshes what it shows
+const listeners = new Set<WearableDataListener>();
+
+export function subscribeToWearableData(listener: WearableDataListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyWearableDataChange(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Saves imported samples, replacing any with the same source, metric and time.
+ */
+export async function saveWearableSamples(samples: WearableSample[]): Promise<void> {
+  if (samples.length === 0) return;
+  await putRecords(WEARABLE_STORE, samples);
+  notifyWearableDataChange();
+}
+
+/**
+ * Samples in time order, optionally limited to one metric and a time range.
+ */
+export async function getWearableSamples(query: WearableSampleQuery = {}): Promise<WearableSample[]> {
+  const from = query.from?.toISOString() ?? '';
+  const to = query.to?.toISOString() ?? '\uffff';
+
+  if (query.metric) {
+    return getRecordsInRange<WearableSample>(
+      WEARABLE_STORE,
+      'metric_timestamp',
+      IDBKeyRange.bound([query.metric, from], [query.metric, to])
+    );
+  }
+  if (query.from || query.to) {
+    return getRecordsInRange<WearableSample>(WEARABLE_STORE, 'timestamp', IDBKeyRange.bound(from, to));
+  }
+  const samples = await getAllRecords<WearableSample>(WEARABLE_STORE);
+  return samples.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Timestamp of the newest stored sample, or null when nothing has been imported.
+ */
+export async function getLatestWearableTimestamp(): Promise<string | null> {
+  const newest = await getLastRecordByIndex<WearableSample>(WEARABLE_STORE, 'timestamp');
+  return newest?.timestamp ?? null;
+}
+
+/**
+ * The 24 hours ending at the newest stored sample (or now, if that is sooner), or
+ * null when nothing has been imported. Exports are often days old, so this is the
+ * most recent day with data rather than necessarily today.
+ */
+export async function getLatestWearablesSnapshot(): Promise<{ data: WearablesDataInput; asOf: string } | null> {
+  const latest = await getLatestWearableTimestamp();
+  if (!latest) return null;
+  const asOf = new Date(Math.min(Date.now(), Date.parse(latest)));
+  const samples = await getWearableSamples({ from: new Date(asOf.getTime() - 2 * 24 * 60 * 60 * 1000), to: asOf });
+  const data = buildWearablesSnapshot(samples, asOf);
+  return data ? { data, asOf: asOf.toISOString() } : null;
+}
+
+export async function clearWearableSamples(): Promise<void> {
+  await clearRecords(WEARABLE_STORE);
+  notifyWearableDataChange();
+}
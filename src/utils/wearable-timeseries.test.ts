@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { buildWearablesSnapshot, createSample, type WearableMetric, type WearableSample, type WearableSource } from './wearable-timeseries';
+
+const MORNING = new Date('2026-03-02T09:00:00.000Z');
+
+const interval = (source: WearableSource, metric: WearableMetric, startIso: string, endIso: string): WearableSample => {
+  const start = new Date(startIso);
+  const end = new Date(endIso);
+  return createSample(source, metric, (end.getTime() - start.getTime()) / 3_600_000, start, end)!;
+};
+
+describe('buildWearablesSnapshot', () => {
+  it('takes one night of sleep from a single source when two imports overlap', () => {
+    const samples = [
+      interval('apple_health', 'sleep_light', '2026-03-01T23:00:00.000Z', '2026-03-02T03:00:00.000Z'),
+      interval('apple_health', 'sleep_deep', '2026-03-02T03:00:00.000Z', '2026-03-02T05:00:00.000Z'),
+      interval('apple_health', 'sleep_rem', '2026-03-02T05:00:00.000Z', '2026-03-02T07:00:00.000Z'),
+      interval('fitbit', 'sleep_asleep', '2026-03-01T23:30:00.000Z', '2026-03-02T06:30:00.000Z'),
+    ];
+
+    const snapshot = buildWearablesSnapshot(samples, MORNING);
+    expect(snapshot?.sleep?.duration).toBe(8);
+    expect(snapshot?.sleep?.deepSleep).toBe(2);
+  });
+
+  it('does not add up steps recorded by two sources', () => {
+    const samples = [
+      createSample('google_fit', 'steps', 4000, new Date('2026-03-01T12:00:00.000Z'))!,
+      createSample('google_fit', 'steps', 3000, new Date('2026-03-01T18:00:00.000Z'))!,
+      createSample('fitbit', 'steps', 6500, new Date('2026-03-01T20:00:00.000Z'))!,
+    ];
+
+    expect(buildWearablesSnapshot(samples, MORNING)?.activity?.steps).toBe(7000);
+  });
+
+  it('keeps point readings from every source', () => {
+    const samples = [
+      createSample('google_fit', 'heart_rate', 70, new Date('2026-03-02T08:00:00.000Z'))!,
+      createSample('fitbit', 'heart_rate', 74, new Date('2026-03-02T08:30:00.000Z'))!,
+    ];
+
+    expect(buildWearablesSnapshot(samples, MORNING)?.heartRate?.max).toBe(74);
+  });
+});
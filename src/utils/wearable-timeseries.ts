@@ -0,0 +1,214 @@
+/**
+ * @fileOverview Time-series model for imported wearable data
+ * Every importer turns its export into WearableSample rows (one measurement or
+ * interval each); buildWearablesSnapshot folds the most recent day of samples
+ * into the WearablesDataInput shape the dashboard and the wearables flow use.
+ */
+
+import type { WearablesDataInput } from '@/ai/flows/wearables-analysis';
+
+export type WearableMetric =
+  | 'heart_rate' // bpm
+  | 'resting_heart_rate' // bpm
+  | 'hrv' // ms (SDNN or RMSSD, as the device reports it)
+  | 'steps' // count over the interval
+  | 'active_energy' // kcal over the interval
+  | 'active_minutes' // minutes over the interval
+  | 'stress' // 0-100
+  | 'spo2' // %
+  | 'respiratory_rate' // breaths/min
+  | 'skin_temperature' // °C, or deviation from the device's baseline
+  | 'blood_pressure_systolic' // mmHg
+  | 'blood_pressure_diastolic' // mmHg
+  | 'sleep_in_bed' // hours in the interval
+  | 'sleep_asleep' // hours asleep, stage unknown
+  | 'sleep_light'
+  | 'sleep_deep'
+  | 'sleep_rem'
+  | 'sleep_awake';
+
+export type WearableSource = 'apple_health' | 'google_fit' | 'health_connect' | 'fitbit' | 'garmin';
+
+export interface WearableSample {
+  id: string; // source, metric and start time, so re-importing an export does not duplicate samples
+  metric: WearableMetric;
+  value: number;
+  timestamp: string; // ISO start of the measurement or interval
+  endTimestamp?: string; // ISO end, for intervals (steps, sleep stages, …)
+  source: WearableSource;
+}
+
+export const SLEEP_STAGE_METRICS: WearableMetric[] = ['sleep_asleep', 'sleep_light', 'sleep_deep', 'sleep_rem'];
+
+// Cumulative metrics double-count when two devices record them (e.g. phone and watch steps)
+const CUMULATIVE_METRICS: WearableMetric[] = ['steps', 'active_energy', 'active_minutes'];
+
+// Only recent history is kept from an export; enough for monthly baselines
+export const IMPORT_WINDOW_DAYS = 90;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A night's sleep is attributed to the day it ends; look back far enough to cover it
+const SLEEP_LOOKBACK_MS = 18 * HOUR_MS;
+
+export function createSample(
+  source: WearableSource,
+  metric: WearableMetric,
+  value: number,
+  start: Date,
+  end?: Date
+): WearableSample | null {
+  if (!Number.isFinite(value) || Number.isNaN(start.getTime())) return null;
+  return {
+    id: `${source}:${metric}:${start.toISOString()}`,
+    metric,
+    value,
+    timestamp: start.toISOString(),
+    endTimestamp: end && !Number.isNaN(end.getTime()) ? end.toISOString() : undefined,
+    source,
+  };
+}
+
+/**
+ * True when the sample falls inside the import window ending at `now`.
+ */
+export function withinImportWindow(sample: WearableSample, now = Date.now()): boolean {
+  return Date.parse(sample.timestamp) >= now - IMPORT_WINDOW_DAYS * DAY_MS;
+}
+
+/**
+ * Metrics whose samples from different devices or sources cover the same time
+ * and must not be added up: each cumulative metric on its own, and all sleep
+ * stages together, so one night is not counted once per tracker.
+ */
+function overlapGroup(metric: WearableMetric): string | undefined {
+  if (metric.startsWith('sleep_')) return 'sleep';
+  return CUMULATIVE_METRICS.includes(metric) ? metric : undefined;
+}
+
+/**
+ * Keeps, for each overlap group, only the samples of the recorder (a device or a
+ * source) that recorded most of that group; other metrics are kept as they are.
+ */
+export function keepPrimaryRecorder(samples: WearableSample[], recorderOf: (sample: WearableSample) => string): WearableSample[] {
+  const counts = new Map<string, Map<string, number>>();
+  for (const sample of samples) {
+    const group = overlapGroup(sample.metric);
+    if (!group) continue;
+    const groupCounts = counts.get(group) ?? new Map<string, number>();
+    const recorder = recorderOf(sample);
+    groupCounts.set(recorder, (groupCounts.get(recorder) ?? 0) + 1);
+    counts.set(group, groupCounts);
+  }
+
+  const primary = new Map<string, string>();
+  counts.forEach((groupCounts, group) => {
+    const [recorder] = Array.from(groupCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+    primary.set(group, recorder);
+  });
+
+  return samples.filter(sample => {
+    const group = overlapGroup(sample.metric);
+    return !group || recorderOf(sample) === primary.get(group);
+  });
+}
+
+function latest(samples: WearableSample[]): WearableSample | undefined {
+  return samples.reduce<WearableSample | undefined>(
+    (newest, sample) => (!newest || sample.timestamp > newest.timestamp ? sample : newest),
+    undefined
+  );
+}
+
+function sum(samples: WearableSample[]): number {
+  return samples.reduce((total, sample) => total + sample.value, 0);
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Folds samples into a WearablesDataInput for the 24 hours ending at `at`:
+ * latest readings for point metrics, totals for interval metrics, last night's
+ * sleep, and an hourly heart-rate trend. Sleep and cumulative metrics come from
+ * a single source, so overlapping imports are not added up. Returns null when
+ * nothing falls in range.
+ */
+export function buildWearablesSnapshot(samples: WearableSample[], at: Date = new Date()): WearablesDataInput | null {
+  const end = at.getTime();
+  const dayStart = end - DAY_MS;
+  const inRange = (sample: WearableSample, from: number) => {
+    const time = Date.parse(sample.timestamp);
+    return time > from && time <= end;
+  };
+
+  const recent = samples.filter(sample =>
+    inRange(sample, sample.metric.startsWith('sleep_') ? end - SLEEP_LOOKBACK_MS : dayStart)
+  );
+  const byMetric = new Map<WearableMetric, WearableSample[]>();
+  for (const sample of keepPrimaryRecorder(recent, sample => sample.source)) {
+    byMetric.set(sample.metric, [...(byMetric.get(sample.metric) ?? []), sample]);
+  }
+  if (byMetric.size === 0) return null;
+
+  const of = (metric: WearableMetric) => byMetric.get(metric) ?? [];
+  const latestValue = (metric: WearableMetric) => latest(of(metric))?.value;
+
+  const heartRates = of('heart_rate');
+  const hourlyTrend: number[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    const bucketStart = dayStart + hour * HOUR_MS;
+    const bucket = heartRates.filter(sample => {
+      const time = Date.parse(sample.timestamp);
+      return time >= bucketStart && time < bucketStart + HOUR_MS;
+    });
+    if (bucket.length) hourlyTrend.push(round(sum(bucket) / bucket.length));
+  }
+
+  const stageHours = (metric: WearableMetric) => of(metric).length ? round(sum(of(metric)), 2) : undefined;
+  const asleep = SLEEP_STAGE_METRICS.reduce((total, metric) => total + sum(of(metric)), 0);
+  const inBed = sum(of('sleep_in_bed')) || asleep + sum(of('sleep_awake'));
+  const hasSleep = asleep > 0;
+
+  const stress = of('stress');
+  const systolic = latestValue('blood_pressure_systolic');
+  const diastolic = latestValue('blood_pressure_diastolic');
+  const source = latest(samples.filter(sample => inRange(sample, dayStart)))?.source;
+
+  return {
+    heartRate: heartRates.length || of('resting_heart_rate').length || of('hrv').length ? {
+      current: latestValue('heart_rate'),
+      resting: latestValue('resting_heart_rate'),
+      max: heartRates.length ? Math.max(...heartRates.map(sample => sample.value)) : undefined,
+      variability: latestValue('hrv'),
+      trend: hourlyTrend.length ? hourlyTrend : undefined,
+    } : undefined,
+    sleep: hasSleep ? {
+      duration: round(asleep, 2),
+      deepSleep: stageHours('sleep_deep'),
+      remSleep: stageHours('sleep_rem'),
+      efficiency: inBed > 0 ? round(Math.min(100, (asleep / inBed) * 100)) : undefined,
+      disturbances: of('sleep_awake').length,
+    } : undefined,
+    activity: of('steps').length || of('active_energy').length || of('active_minutes').length ? {
+      steps: of('steps').length ? Math.round(sum(of('steps'))) : undefined,
+      calories: of('active_energy').length ? Math.round(sum(of('active_energy'))) : undefined,
+      activeMinutes: of('active_minutes').length ? Math.round(sum(of('active_minutes'))) : undefined,
+    } : undefined,
+    stress: stress.length ? {
+      level: latestValue('stress'),
+      trend: [...stress].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).slice(-12).map(sample => sample.value),
+    } : undefined,
+    biometrics: {
+      bloodOxygen: latestValue('spo2'),
+      skinTemperature: latestValue('skin_temperature'),
+      respiratoryRate: latestValue('respiratory_rate'),
+      bloodPressure: systolic !== undefined && diastolic !== undefined ? { systolic, diastolic } : undefined,
+    },
+    timestamp: at.toISOString(),
+    deviceType: source,
+  };
+}
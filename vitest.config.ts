@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    environment: 'node',
+    // Flows run offline against the deterministic mock model (src/ai/plugins)
+    env: { MITR_MODEL_PROVIDER: 'mock' },
+    include: ['src/**/*.test.ts'],
+  },
+});